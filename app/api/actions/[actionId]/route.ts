@@ -1,54 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getAction, runAction } from '@/lib/actionRegistry';
 
 export async function POST(
-  _request: NextRequest,
-  { params }: { params: { actionId: string } }
+  request: NextRequest,
+  { params: { actionId } }: { params: { actionId: string } }
 ) {
   try {
-    const { actionId } = params;
+    const { datasetId, params, rows, approval, privacy } = await request.json();
 
-    // Mock action execution
-    await new Promise(resolve => setTimeout(resolve, 500));
+    if (!getAction(actionId)) {
+      return NextResponse.json({ error: `Unknown action: ${actionId}` }, { status: 404 });
+    }
+    if (rows !== undefined && !Array.isArray(rows)) {
+      return NextResponse.json({ error: 'rows must be an array' }, { status: 400 });
+    }
 
-    const mockArtifacts = [];
-    let summary = '';
+    const run = await runAction(actionId, { params, rows, datasetId, approval, context: { privacy } });
 
-    switch (actionId) {
-      case 'draft_reminders':
-        mockArtifacts.push({
-          kind: 'pdf',
-          name: 'Payment_Reminder_TechCorp.pdf',
-          url: '/mock/reminder_techcorp.pdf',
-          size: 245760
-        });
-        summary = 'Generated 2 payment reminder emails for overdue vendors';
-        break;
-      
-      case 'export_overdue_csv':
-        mockArtifacts.push({
-          kind: 'csv',
-          name: 'Overdue_Vendors_Report.csv',
-          url: '/mock/overdue_vendors.csv',
-          size: 1024
-        });
-        summary = 'Exported overdue vendors list to CSV';
-        break;
-      
+    switch (run.status) {
+      case 'needs_data':
+        // The browser runs the query over the dataset and calls again with the rows
+        return NextResponse.json(run);
+      case 'needs_approval':
+        return NextResponse.json({
+          ...run,
+          error: `${actionId} needs approval; call again with the preview's approvalId as "approval"`
+        }, { status: 409 });
+      case 'failed':
+        // Failures before the action ran are bad requests; later ones carry their audit event
+        return NextResponse.json(run, { status: run.audit ? 500 : 400 });
       default:
-        summary = `Executed action: ${actionId}`;
+        return NextResponse.json(run);
     }
-
-    const audit = {
-      id: `audit_${Date.now()}`,
-      at: new Date().toISOString(),
-      summary,
-      artifacts: mockArtifacts,
-      category: 'action' as const
-    };
-
-    return NextResponse.json({ artifacts: mockArtifacts, audit });
   } catch (error) {
     console.error('Action error:', error);
     return NextResponse.json({ error: 'Action failed' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { listActions } from '@/lib/actionRegistry';
+
+// Actions Quick Actions chips can run, with the params each takes
+export async function GET() {
+  return NextResponse.json({
+    actions: listActions().map(action => ({
+      id: action.id,
+      label: action.label,
+      description: action.description,
+      category: action.category,
+      paramsSchema: action.paramsSchema,
+      sideEffect: action.sideEffect,
+      needsData: !!action.query
+    }))
+  });
+}
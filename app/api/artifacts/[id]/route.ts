@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { contentDisposition, readArtifact } from '@/lib/artifactStore';
+
+// Artifacts never change once stored, so their hash is their ETag
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const artifact = await readArtifact(params.id);
+    if (!artifact) {
+      return NextResponse.json({ error: 'Artifact not found or expired' }, { status: 404 });
+    }
+
+    const headers = new Headers();
+    const etag = `"${artifact.meta.sha256}"`;
+    headers.set('ETag', etag);
+    headers.set('Cache-Control', 'private, max-age=3600, immutable');
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    headers.set('Content-Type', artifact.meta.mimetype);
+    headers.set('Content-Disposition', contentDisposition(artifact.meta.name));
+    headers.set('Content-Length', String(artifact.meta.size));
+    headers.set('X-Content-SHA256', artifact.meta.sha256);
+    return new NextResponse(artifact.data, { headers });
+  } catch (error) {
+    console.error('Artifact read error:', error);
+    return NextResponse.json({ error: 'Failed to read artifact' }, { status: 500 });
+  }
+}
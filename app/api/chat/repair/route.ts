@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { repairSQL } from '@/lib/llm';
+import type { TableSchema } from '@/lib/llm';
+import type { QueryAttempt } from '@/types';
+
+// Failed attempts sent with one request; the client asks for at most three revisions
+const MAX_ATTEMPTS = 3;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { message, tableSchemas, attempts, allowWrites, history, semanticLayer, privacy } = await request.json();
+
+    if (!message || !Array.isArray(attempts) || attempts.length === 0) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+    if (attempts.length > MAX_ATTEMPTS) {
+      return NextResponse.json({ error: 'Too many repair attempts' }, { status: 400 });
+    }
+
+    const schemas: TableSchema[] = tableSchemas || [];
+    const sqlResult = await repairSQL(message, schemas, attempts as QueryAttempt[], { allowWrites: !!allowWrites, history, semanticLayer, privacy });
+
+    if (!sqlResult.query || sqlResult.error) {
+      return NextResponse.json({ error: sqlResult.error || 'Could not revise the query' }, { status: 422 });
+    }
+
+    return NextResponse.json({
+      sql: sqlResult.query,
+      explanation: sqlResult.explanation
+    });
+  } catch (error) {
+    console.error('Query repair error:', error);
+    return NextResponse.json({
+      error: 'Query repair failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,48 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { naturalLanguageToSQL, analyzeDataWithLLM, isLLMAvailable } from '@/lib/llm';
+import { naturalLanguageToSQL, analyzeDataWithLLM, isLLMAvailable, isAllowedStatement } from '@/lib/llm';
 import type { TableSchema } from '@/lib/llm';
-
-// Store conversation context (in production, use a proper session store)
-const conversationContext = new Map<string, any[]>();
+import type { ConversationTurn } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const { datasetId, message, tableSchemas, queryResults } = await request.json();
+    const { datasetId, message, tableSchemas, queryResults, sql, facts, allowWrites, history, semanticLayer, privacy } = await request.json();
     
     if (!datasetId || !message) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
     
-    // Get or create conversation context
-    const context = conversationContext.get(datasetId) || [];
+    // Earlier turns of this dataset's chat session, kept by the client
+    const turns: ConversationTurn[] = Array.isArray(history) ? history : [];
     
     // Convert schemas to the format expected by LLM
     const schemas: TableSchema[] = tableSchemas || [];
     
     // If query results are provided (from client-side execution), analyze them
     if (queryResults) {
-      const analysis = await analyzeDataWithLLM(message, queryResults, schemas);
-      
-      // Update conversation context
-      context.push({
-        role: 'user',
-        content: message,
-        timestamp: new Date().toISOString()
+      const analysis = await analyzeDataWithLLM(message, queryResults, schemas, {
+        history: turns,
+        privacy,
+        facts: Array.isArray(facts) ? facts : [],
+        semanticLayer,
+        sql: typeof sql === 'string' ? sql : undefined
       });
       
-      context.push({
-        role: 'assistant',
-        content: analysis.content,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Keep only last 10 messages for context
-      if (context.length > 10) {
-        context.splice(0, context.length - 10);
-      }
-      
-      conversationContext.set(datasetId, context);
-      
       const response = {
         messages: [{
           id: `msg_${Date.now()}`,
@@ -57,7 +41,8 @@ export async function POST(request: NextRequest) {
           }] : [],
           metadata: {
             rowCount: queryResults.length,
-            llmUsed: isLLMAvailable()
+            llmUsed: isLLMAvailable(),
+            ungroundedNumbers: analysis.ungroundedNumbers
           }
         }]
       };
@@ -66,14 +51,14 @@ export async function POST(request: NextRequest) {
     }
     
     // Generate SQL from natural language (no execution on server)
-    const sqlResult = await naturalLanguageToSQL(message, schemas);
+    const sqlResult = await naturalLanguageToSQL(message, schemas, { allowWrites: !!allowWrites, history: turns, semanticLayer, privacy });
     
     if (sqlResult.query && !sqlResult.error) {
       // Validate SQL syntax before sending to client
       const cleanedQuery = sqlResult.query.trim();
       
-      // Basic SQL validation
-      if (!cleanedQuery.match(/^\s*(SELECT|WITH|INSERT|UPDATE|DELETE|CREATE|DROP|ALTER)/i)) {
+      // Basic SQL validation; the client parses the statement before running it
+      if (!isAllowedStatement(cleanedQuery, { allowWrites: !!allowWrites })) {
         return NextResponse.json({
           error: 'Invalid SQL query generated. Please try rephrasing your question.'
         }, { status: 400 });
@@ -131,17 +116,3 @@ I can analyze your data, create summaries, and help identify patterns.`;
     }, { status: 500 });
   }
 }
-
-// Get conversation history
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const datasetId = searchParams.get('datasetId');
-  
-  if (!datasetId) {
-    return NextResponse.json({ error: 'Dataset ID required' }, { status: 400 });
-  }
-  
-  const context = conversationContext.get(datasetId) || [];
-  
-  return NextResponse.json({ context });
-}
\ No newline at end of file
@@ -1,51 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateReport, generateEmail, generateInvoice, sendEmail } from '@/lib/llm-tools';
+import { getTool, listTools, missingConfig, runTool } from '@/lib/toolRegistry';
+import { issueApproval, previewToolCall, redeemApproval, requiresApproval } from '@/lib/toolPolicy';
+import { contentDisposition, saveArtifact } from '@/lib/artifactStore';
+
+// Tools in the registry, with what each needs before it can run
+export async function GET() {
+  return NextResponse.json({
+    tools: listTools().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      sideEffect: tool.sideEffect,
+      exposeToModel: tool.exposeToModel !== false,
+      callable: !!tool.handler,
+      missingConfig: missingConfig(tool)
+    }))
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { tool, params } = await request.json();
+    const { tool: name, params, approval, privacy } = await request.json();
     
-    if (!tool || !params) {
+    if (!name || !params) {
       return NextResponse.json({ error: 'Missing tool or parameters' }, { status: 400 });
     }
     
-    let result;
+    const tool = getTool(name);
+    if (!tool || !tool.handler) {
+      return NextResponse.json({ error: `Unknown tool: ${name}` }, { status: 400 });
+    }
     
-    switch (tool) {
-      case 'generateReport':
-        result = await generateReport(params);
-        break;
-        
-      case 'generateEmail':
-        result = await generateEmail(params);
-        break;
-        
-      case 'generateInvoice':
-        result = await generateInvoice(params.data, params.context);
-        break;
-        
-      case 'sendEmail':
-        result = await sendEmail(params);
-        break;
-        
-      case 'exportData':
-        // Simple CSV export
-        result = await exportToCSV(params.data, params.filename);
-        break;
-        
-      default:
-        return NextResponse.json({ error: `Unknown tool: ${tool}` }, { status: 400 });
+    // Irreversible tools run only with the approval id issued with their preview, once
+    if (requiresApproval(name)) {
+      if (!approval) {
+        return NextResponse.json({
+          error: `${name} needs approval; call again with the preview's approvalId as "approval"`,
+          preview: { ...previewToolCall(`rest_${Date.now()}`, name, params), approvalId: issueApproval(name, params) }
+        }, { status: 409 });
+      }
+      const problem = await redeemApproval(approval, name, params);
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 403 });
+      }
     }
     
+    const result = await runTool(name, params, { privacy });
+    
     if (!result.success) {
-      return NextResponse.json({ error: result.error }, { status: 500 });
+      return NextResponse.json({ error: result.error }, { status: result.type === 'tool' ? 400 : 500 });
     }
     
     // If there's a file to download, return it as a response
     if (result.file) {
       const headers = new Headers();
       headers.set('Content-Type', result.file.mimetype);
-      headers.set('Content-Disposition', `attachment; filename="${result.file.filename}"`);
+      headers.set('Content-Disposition', contentDisposition(result.file.filename));
+
+      // Keep a copy so audit events can link to it; the download still works if storing fails
+      try {
+        const artifact = await saveArtifact(result.file);
+        headers.set('X-Artifact', encodeURIComponent(JSON.stringify(artifact)));
+      } catch (error) {
+        console.error(`Storing the file from ${name} failed:`, error);
+      }
       
       // Convert the file data to appropriate format
       let responseBody;
@@ -71,45 +89,3 @@ export async function POST(request: NextRequest) {
     }, { status: 500 });
   }
 }
-
-/**
- * Simple CSV export function
- */
-async function exportToCSV(data: any[], filename: string = 'export.csv'): Promise<any> {
-  if (!data || data.length === 0) {
-    return {
-      success: false,
-      error: 'No data to export'
-    };
-  }
-  
-  // Get headers from first row
-  const headers = Object.keys(data[0]);
-  
-  // Create CSV content
-  const csvContent = [
-    headers.join(','),
-    ...data.map(row => 
-      headers.map(header => {
-        const value = row[header];
-        // Escape values containing commas or quotes
-        if (value === null || value === undefined) return '';
-        const stringValue = String(value);
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-        return stringValue;
-      }).join(',')
-    )
-  ].join('\n');
-  
-  return {
-    success: true,
-    type: 'export',
-    file: {
-      data: csvContent,
-      filename: filename.endsWith('.csv') ? filename : `${filename}.csv`,
-      mimetype: 'text/csv'
-    }
-  };
-}
\ No newline at end of file
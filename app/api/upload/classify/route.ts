@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectDatasetType, type ParsedSheet } from '@/lib/fileParser';
+
+// Only headers and a few sample rows per sheet are accepted here
+const MAX_SAMPLE_ROWS = 5;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const sheets = Array.isArray(body?.sheets) ? body.sheets : null;
+
+    if (!sheets || sheets.length === 0) {
+      return NextResponse.json({ error: 'No sheets provided' }, { status: 400 });
+    }
+
+    const parsedSheets: ParsedSheet[] = sheets.map((sheet: any) => ({
+      name: String(sheet.name ?? ''),
+      headers: Array.isArray(sheet.headers) ? sheet.headers.map(String) : [],
+      data: Array.isArray(sheet.sample) ? sheet.sample.slice(0, MAX_SAMPLE_ROWS) : [],
+      metadata: sheet.metadata?.bankFeed ? { bankFeed: sheet.metadata.bankFeed } : undefined
+    }));
+
+    const type = await detectDatasetType(parsedSheets, body.privacy);
+    return NextResponse.json({ type });
+  } catch (error) {
+    console.error('Classify error:', error);
+    return NextResponse.json({ error: 'Failed to classify dataset' }, { status: 500 });
+  }
+}
@@ -1,25 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseFile, detectDatasetType } from '@/lib/fileParser';
+import { parseFile, detectDatasetType, type ParseOptions } from '@/lib/fileParser';
+import { getLocalePreset } from '@/lib/localeInference';
+import type { PrivacyPolicy } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const rawOptions = formData.get('options');
+    const rawPrivacy = formData.get('privacy');
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
     
+    let options: ParseOptions = {};
+    if (typeof rawOptions === 'string' && rawOptions) {
+      try {
+        options = JSON.parse(rawOptions);
+      } catch {
+        return NextResponse.json({ error: 'Invalid parse options' }, { status: 400 });
+      }
+    }
+    let privacy: PrivacyPolicy | undefined;
+    if (typeof rawPrivacy === 'string' && rawPrivacy) {
+      try {
+        privacy = JSON.parse(rawPrivacy);
+      } catch {
+        return NextResponse.json({ error: 'Invalid privacy policy' }, { status: 400 });
+      }
+    }
+    if (options.locale && !getLocalePreset(options.locale)) {
+      return NextResponse.json({ error: `Unsupported locale: ${options.locale}` }, { status: 400 });
+    }
+    
     // Parse the uploaded file with enhanced parser
     // Note: We can't pass progress callback through HTTP, but the parser will handle it internally
-    const parsedFile = await parseFile(file);
+    const parsedFile = await parseFile(file, undefined, options);
     
     if (parsedFile.sheets.length === 0) {
       return NextResponse.json({ error: 'No data found in file' }, { status: 400 });
     }
 
     // Detect dataset type for better analysis
-    const datasetType = detectDatasetType(parsedFile.sheets);
+    const datasetType = await detectDatasetType(parsedFile.sheets, privacy);
     const datasetId = `dataset_${Date.now()}`;
     
     // Prepare enhanced sheet info for client-side processing
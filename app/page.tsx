@@ -7,10 +7,23 @@ import { SplitLayout } from '@/components/layout/SplitLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAppStore } from '@/lib/store';
-import { Sparkles, Shield, Zap, TrendingUp } from 'lucide-react';
+import { rehydrateWorkspace } from '@/lib/workspace';
+import { Sparkles, Shield, Zap, TrendingUp, Loader2 } from 'lucide-react';
 
 export default function Home() {
-  const { currentDatasetId, datasets } = useAppStore();
+  const { currentDatasetId, datasets, isRehydrated } = useAppStore();
+
+  useEffect(() => {
+    rehydrateWorkspace();
+  }, []);
+
+  if (!isRehydrated) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   if (!currentDatasetId && datasets.length === 0) {
     return (
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { PendingAction, ActionDecision } from '@/types';
+
+interface ActionApprovalProps {
+  actions: PendingAction[];
+  /** Called once every action has a decision */
+  onDecide: (decisions: ActionDecision[]) => void;
+}
+
+export function ActionApproval({ actions, onDecide }: ActionApprovalProps) {
+  const [decisions, setDecisions] = useState<Record<string, boolean>>({});
+
+  const decide = (toolUseId: string, approved: boolean) => {
+    const next = { ...decisions, [toolUseId]: approved };
+    setDecisions(next);
+    if (actions.every(action => action.toolUseId in next)) {
+      onDecide(actions.map(action => ({ toolUseId: action.toolUseId, approved: next[action.toolUseId] })));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {actions.map(action => {
+        const decided = decisions[action.toolUseId];
+        return (
+          <div key={action.toolUseId} className="rounded-2xl border border-amber-500/40 bg-amber-500/5 px-5 py-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4 text-amber-600" />
+              <span className="text-sm font-semibold">{action.title}</span>
+              <Badge variant="outline" className="text-[10px]">needs approval</Badge>
+            </div>
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+              {action.fields.map(field => (
+                <div key={field.label} className="contents">
+                  <dt className="text-muted-foreground">{field.label}</dt>
+                  <dd className="break-all">{field.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {/* Rendered content as it will be sent; sandboxed since it holds model and data text */}
+            {action.html && (
+              <iframe
+                title={`${action.title} preview`}
+                sandbox=""
+                srcDoc={action.html}
+                className="w-full h-64 rounded-md border border-border/50 bg-white"
+              />
+            )}
+
+            {decided === undefined ? (
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => decide(action.toolUseId, true)}>
+                  <Check className="h-3 w-3 mr-1" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => decide(action.toolUseId, false)}>
+                  <X className="h-3 w-3 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">{decided ? 'Approved' : 'Rejected'}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -9,9 +9,10 @@ interface ActionButtonProps {
   suggestion: ActionSuggestion;
   onClick: () => void;
   icon: ReactNode;
+  disabled?: boolean;
 }
 
-export function ActionButton({ suggestion, onClick, icon }: ActionButtonProps) {
+export function ActionButton({ suggestion, onClick, icon, disabled }: ActionButtonProps) {
   const getCategoryColor = () =>
     'bg-muted/50 hover:bg-muted/70 border-border/60 text-foreground';
 
@@ -20,6 +21,8 @@ export function ActionButton({ suggestion, onClick, icon }: ActionButtonProps) {
       variant="ghost"
       className={`w-full justify-start h-auto p-3 rounded-xl border transition-all duration-200 shadow-sm hover:shadow-md hover:-translate-y-0.5 ${getCategoryColor()}`}
       onClick={onClick}
+      disabled={disabled}
+      title={suggestion.reason}
     >
       <div className="flex items-center gap-3 w-full">
         <div className="h-7 w-7 rounded-md bg-background/60 flex items-center justify-center border border-border/60">
@@ -2,9 +2,10 @@
 
 import { useState } from 'react';
 import { format } from 'date-fns';
-import { User, Bot, FileText, Download, Copy, Check } from 'lucide-react';
+import { User, Bot, FileText, Download, Copy, Check, ChevronRight, Wrench, ListChecks, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChatMessage as ChatMessageType } from '@/types';
 import { ToolActions } from './ToolActions';
 import { marked } from 'marked';
@@ -25,6 +26,10 @@ export function ChatMessage({ message }: ChatMessageProps) {
       .replace(/\*(.*?)\*/gim, '<span class="italic">$1</span>');
   }
 
+  const attempts = message.metadata?.attempts ?? [];
+  const steps = message.metadata?.steps ?? [];
+  const ungroundedNumbers = message.metadata?.ungroundedNumbers ?? [];
+
   const chatContent = isUser ? message.content : styleContent(message.content);
 
   console.log(chatContent);
@@ -101,6 +106,73 @@ export function ChatMessage({ message }: ChatMessageProps) {
             </p> */}
           </div>
           
+          {/* Figures the post-check couldn't trace to a computed value or a result row */}
+          {!isUser && ungroundedNumbers.length > 0 && (
+            <div className="mt-3 flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/5 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>
+                Not traced to the data: {ungroundedNumbers.join(', ')}. Check these figures before relying on them.
+              </span>
+            </div>
+          )}
+          
+          {/* How the final query was reached when the first one failed */}
+          {!isUser && attempts.length > 1 && (
+            <Collapsible className="mt-4 pt-4 border-t border-border/30">
+              <CollapsibleTrigger className="group/attempts flex items-center gap-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]/attempts:rotate-90" />
+                <Wrench className="h-3 w-3" />
+                Query revised {attempts.length - 1} time{attempts.length > 2 ? 's' : ''}
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3 space-y-3">
+                {attempts.map((attempt, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="font-medium">Attempt {idx + 1}</span>
+                      <Badge variant={attempt.error ? 'destructive' : 'secondary'} className="text-[10px]">
+                        {attempt.error ? 'failed' : 'succeeded'}
+                      </Badge>
+                    </div>
+                    <pre className="overflow-x-auto rounded-md bg-background/80 p-2 text-xs">{attempt.query}</pre>
+                    {attempt.error && (
+                      <p className="text-xs text-destructive whitespace-pre-wrap">{attempt.error}</p>
+                    )}
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
+          {/* What the agent did: model calls and the tools they ran */}
+          {!isUser && steps.length > 0 && (
+            <Collapsible className="mt-4 pt-4 border-t border-border/30">
+              <CollapsibleTrigger className="group/steps flex items-center gap-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]/steps:rotate-90" />
+                <ListChecks className="h-3 w-3" />
+                {steps.length} step{steps.length !== 1 ? 's' : ''}
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3 space-y-3">
+                {steps.map((step, idx) => (
+                  <div key={idx} className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="font-medium">{idx + 1}. {step.kind === 'tool' ? step.name : 'Model'}</span>
+                      <Badge variant={step.status === 'error' ? 'destructive' : 'secondary'} className="text-[10px]">
+                        {step.status === 'error' ? 'failed' : 'ok'}
+                      </Badge>
+                      {step.tokens !== undefined && (
+                        <span className="text-muted-foreground">{step.tokens.toLocaleString()} tokens</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{step.summary}</p>
+                    {step.detail && (
+                      <pre className="overflow-x-auto rounded-md bg-background/80 p-2 text-xs whitespace-pre-wrap">{step.detail}</pre>
+                    )}
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
           {message.artifacts && message.artifacts.length > 0 && (
             <div className="mt-4 pt-4 border-t border-border/30 space-y-3">
               <p className="text-xs font-medium text-muted-foreground">Generated Files:</p>
@@ -1,29 +1,88 @@
 'use client';
 
-import { useState } from 'react';
-import { Send, Sparkles, FileDown, Receipt, CheckSquare, Bot, Zap } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Send, Square, Sparkles, FileDown, Receipt, CheckSquare, Bot, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { ChatMessage } from './ChatMessage';
 import { ActionButton } from './ActionButton';
+import { ActionApproval } from './ActionApproval';
 import { useAppStore } from '@/lib/store';
+import { getTablePreview, executeQuery, checkpointDatabase } from '@/lib/clientDatabase';
+import type { GuardedQuery } from '@/lib/sqlGuard';
+import { executeWithRepair } from '@/lib/queryRepair';
+import { conversationKey, describeResult } from '@/lib/conversation';
+import { readEventStream } from '@/lib/sse';
 import { api } from '@/lib/api';
-import { getTablePreview, executeQuery } from '@/lib/clientDatabase';
+import { Redactor, historyPseudonyms, withoutBlockedColumns } from '@/lib/redaction';
+import { computeResultFacts, totalRows } from '@/lib/groundedFacts';
+import { suggestActions } from '@/lib/suggestions';
+import type { AgentOutcome, PendingQuery, ClientToolResult } from '@/lib/llm-with-tools';
+import type { QueryAttempt, ConversationTurn, SemanticLayer, Artifact, PendingAction, ActionDecision, AgentStep, ActionSuggestion } from '@/types';
+
+// Rows of each agent query sent back to the server; the model sees fewer
+const MAX_AGENT_ROWS = 200;
+
+interface PendingWrite {
+  query: GuardedQuery;
+  explanation?: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+// The agent's reply while it is still being written
+interface LiveReply {
+  content: string;
+  steps: AgentStep[];
+}
+
+interface PendingApproval {
+  actions: PendingAction[];
+  resolve: (decisions: ActionDecision[]) => void;
+}
 
 export function ChatPanel() {
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [dataEditMode, setDataEditMode] = useState(false);
+  const [pendingWrite, setPendingWrite] = useState<PendingWrite | null>(null);
+  const [agentStatus, setAgentStatus] = useState<string | null>(null);
+  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+  const [liveReply, setLiveReply] = useState<LiveReply | null>(null);
+  // The running request, so Stop can abort it; the live reply is mirrored for the cancelled message
+  const abortRef = useRef<AbortController | null>(null);
+  const liveRef = useRef<LiveReply>({ content: '', steps: [] });
   
   const { 
     currentDatasetId, 
+    datasets,
     chatMessages, 
+    chatSessionId,
+    conversations,
     addMessage, 
+    addConversationTurn,
     addAuditEvent,
-    setLoading 
+    updateDataset,
+    privacyPolicy
   } = useAppStore();
 
+  // Aggregates over a whole result, computed in DuckDB, so the model cites totals instead of summing a sample
+  const resultFacts = (sql: string, rows: any[]) =>
+    computeResultFacts(sql, rows, async query => (await executeQuery(query)).toArray().map((row: any) => ({ ...row })));
+
   // Helper function to format query results for display
   const formatQueryResults = (results: any[], explanation?: string) => {
     if (!results || results.length === 0) {
@@ -88,13 +147,196 @@ export function ChatPanel() {
     return content;
   };
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || !currentDatasetId) return;
+  // Data edit mode: show the statement and only run it once the user confirms
+  const runConfirmedWrite = async (query: GuardedQuery, explanation?: string, attempts?: QueryAttempt[]) => {
+    const confirmed = await new Promise<boolean>(resolve => setPendingWrite({ query, explanation, resolve }));
+    setPendingWrite(null);
+    if (!confirmed) {
+      addMessage({
+        id: `msg_${Date.now()}`,
+        role: 'assistant' as const,
+        content: `Cancelled. No data was changed.\n\n\`\`\`sql\n${query.sql}\n\`\`\``,
+        timestamp: new Date().toISOString()
+      });
+      return 'Cancelled; no data was changed';
+    }
+
+    const [table] = query.tables;
+    const result = await executeQuery(query.sql);
+    const changedRows = Number(result.toArray()[0]?.Count ?? 0);
+    await checkpointDatabase();
+
+    // Keep the row count in the summary current and let the data view reload
+    const dataset = datasets.find(d => d.id === currentDatasetId);
+    if (dataset) {
+      const countResult = await executeQuery(`SELECT COUNT(*) AS rows FROM ${table}`);
+      const rows = Number(countResult.toArray()[0].rows);
+      updateDataset(dataset.id, {
+        uploadedAt: new Date().toISOString(),
+        summary: {
+          ...dataset.summary,
+          tables: dataset.summary.tables.map(t => t.name === table ? { ...t, rows } : t)
+        }
+      });
+    }
+
+    addAuditEvent({
+      id: `edit_${Date.now()}`,
+      at: new Date().toISOString(),
+      summary: `Changed ${changedRows} row${changedRows !== 1 ? 's' : ''} in ${table} from chat`,
+      detail: query.sql,
+      category: 'action'
+    });
+    addMessage({
+      id: `msg_${Date.now()}`,
+      role: 'assistant' as const,
+      content: `${explanation ? `${explanation}\n\n` : ''}\`\`\`sql\n${query.sql}\n\`\`\`\n\n✅ ${changedRows} row${changedRows !== 1 ? 's' : ''} changed in ${table}.`,
+      timestamp: new Date().toISOString(),
+      metadata: { query: query.sql, explanation, attempts }
+    });
+    return `${changedRows} row${changedRows !== 1 ? 's' : ''} changed in ${table}`;
+  };
+
+  // Emails and orders wait here until the user approves or rejects each one in the chat
+  const requestApproval = async (actions: PendingAction[]) => {
+    setAgentStatus('Waiting for your approval…');
+    const decisions = await new Promise<ActionDecision[]>(resolve => setPendingApproval({ actions, resolve }));
+    setPendingApproval(null);
+
+    for (const decision of decisions) {
+      const action = actions.find(a => a.toolUseId === decision.toolUseId)!;
+      addAuditEvent({
+        id: `approval_${Date.now()}_${decision.toolUseId}`,
+        at: new Date().toISOString(),
+        summary: `${decision.approved ? 'Approved' : 'Rejected'}: ${action.title}`,
+        detail: action.fields.map(field => `${field.label}: ${field.value}`).join('\n'),
+        category: 'action'
+      });
+    }
+    return decisions;
+  };
+
+  // Agent runs: execute the queries the model asks for in DuckDB, ask the user about held actions
+  // and send the results back until it answers
+  const runAgent = async (
+    first: AgentOutcome,
+    context: {
+      question: string;
+      tableSchemas: any[];
+      history: ConversationTurn[];
+      semanticLayer?: SemanticLayer;
+      postChat: (body: Record<string, any>) => Promise<any>;
+      rememberTurn: (turn: Omit<ConversationTurn, 'question' | 'at'>) => void;
+      /** Learns the PII tokens of every result, for the conversation turn */
+      seen: Redactor;
+      signal: AbortSignal;
+    }
+  ) => {
+    const attempts: QueryAttempt[] = [];
+    // Files the agent's tools produced, already stored on the server
+    const artifacts: Artifact[] = [...first.files];
+    let outcome = first;
+    let lastQuery: string | undefined;
+    // Without the row limit, for actions that read the result again
+    let lastStatement: string | undefined;
+    let lastRows: any[] | undefined;
+
+    const runPending = async (pending: PendingQuery): Promise<ClientToolResult> => {
+      setAgentStatus(pending.explanation || 'Running SQL…');
+      try {
+        const executed = await executeWithRepair(pending.query, {
+          question: context.question,
+          tableSchemas: context.tableSchemas,
+          allowWrites: dataEditMode,
+          history: context.history,
+          semanticLayer: context.semanticLayer,
+          privacy: privacyPolicy
+        }, attempts);
+        lastQuery = executed.query.sql;
+        lastStatement = executed.query.statement;
+        if (executed.query.kind === 'write') {
+          const content = await runConfirmedWrite(executed.query, pending.explanation, attempts);
+          return { toolUseId: pending.toolUseId, content };
+        }
+        const rows = executed.result.toArray().map((row: any) => {
+          const cleanRow: any = {};
+          for (const [key, value] of Object.entries(row)) {
+            cleanRow[key] = typeof value === 'bigint' ? Number(value) : value;
+          }
+          return cleanRow;
+        });
+        lastRows = rows;
+        // Blocked columns never leave the browser; the server pseudonymizes the rest
+        const shared = withoutBlockedColumns(rows, privacyPolicy);
+        context.seen.redactRows(shared);
+        // Over the statement without the row limit, so totals cover every row
+        const facts = await resultFacts(executed.query.statement, shared);
+        return {
+          toolUseId: pending.toolUseId,
+          rows: shared.slice(0, MAX_AGENT_ROWS),
+          rowCount: totalRows(facts, rows.length),
+          facts
+        };
+      } catch (error) {
+        return { toolUseId: pending.toolUseId, error: error instanceof Error ? error.message : String(error) };
+      }
+    };
+
+    while (outcome.status === 'needs_client') {
+      const toolResults: ClientToolResult[] = [];
+      for (const pending of outcome.queries) {
+        context.signal.throwIfAborted();
+        toolResults.push(await runPending(pending));
+      }
+      const decisions = outcome.approvals.length > 0 ? await requestApproval(outcome.approvals) : [];
+      context.signal.throwIfAborted();
+      setAgentStatus('Thinking…');
+      const data = await context.postChat({ agent: outcome.state, toolResults, decisions });
+      outcome = data.agent;
+      artifacts.push(...outcome.files);
+    }
+
+    const agentMessage = {
+      id: `msg_${Date.now()}`,
+      role: 'assistant' as const,
+      content: outcome.content,
+      timestamp: new Date().toISOString(),
+      queryData: lastRows,
+      toolSuggestions: lastRows
+        ? suggestActions(withoutBlockedColumns(lastRows, privacyPolicy), { sql: lastStatement, semanticLayer: context.semanticLayer })
+        : undefined,
+      artifacts: artifacts.length > 0 ? artifacts : undefined,
+      metadata: {
+        query: lastQuery,
+        attempts: attempts.length > 0 ? attempts : undefined,
+        steps: outcome.steps,
+        ungroundedNumbers: outcome.status === 'done' ? outcome.ungroundedNumbers : undefined
+      }
+    };
+    addMessage(agentMessage);
+    context.rememberTurn({
+      sql: lastQuery,
+      result: lastRows ? describeResult(lastRows) : undefined,
+      answer: outcome.content
+    });
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    // Held actions are neither approved nor rejected; the run just ends
+    if (pendingApproval) {
+      setPendingApproval(null);
+      pendingApproval.resolve([]);
+    }
+  };
+
+  const handleSendMessage = async (text = inputMessage) => {
+    if (!text.trim() || !currentDatasetId) return;
 
     const userMessage = {
       id: `msg_${Date.now()}_user`,
       role: 'user' as const,
-      content: inputMessage,
+      content: text,
       timestamp: new Date().toISOString(),
     };
 
@@ -102,6 +344,24 @@ export function ChatPanel() {
     setInputMessage('');
     setIsTyping(true);
 
+    // Earlier turns of this dataset's chat session, so follow-ups like "now only those over $5k" resolve
+    const history = conversations[conversationKey(currentDatasetId, chatSessionId)] ?? [];
+    const question = text;
+    const datasetId = currentDatasetId;
+    const semanticLayer = datasets.find(d => d.id === datasetId)?.semanticLayer;
+    // The same tokens the server gives this turn's PII, so the turn can be redacted when it is sent back
+    const seen = new Redactor(privacyPolicy, historyPseudonyms(history));
+    const rememberTurn = (turn: Omit<ConversationTurn, 'question' | 'at'>) =>
+      addConversationTurn(datasetId, {
+        question,
+        at: new Date().toISOString(),
+        ...turn,
+        pseudonyms: seen.pseudonymsIn([question, turn.sql, turn.answer].filter(Boolean).join('\n'))
+      });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    liveRef.current = { content: '', steps: [] };
+
     try {
       // Get table schemas for this dataset
       const storedTables = localStorage.getItem(`dataset_${currentDatasetId}_tables`);
@@ -129,36 +389,97 @@ export function ChatPanel() {
         }
       }
       
-      // First, get SQL query from LLM (use tool-enabled endpoint)
-      const response = await fetch('/api/chat-with-tools', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          datasetId: currentDatasetId,
-          message: inputMessage,
-          tableSchemas
-        }, (_key, value) => {
-          // Convert BigInt to number for JSON serialization
-          if (typeof value === 'bigint') {
-            return Number(value);
+      // Agent replies stream as server-sent events; the fallback without an LLM answers with JSON
+      let newParagraph = false;
+      const postChat = async (body: Record<string, any>) => {
+        const response = await fetch('/api/chat-with-tools', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            datasetId,
+            tableSchemas,
+            allowWrites: dataEditMode,
+            history,
+            semanticLayer,
+            privacy: privacyPolicy,
+            stream: true,
+            ...body
+          }, (_key, value) => {
+            // Convert BigInt to number for JSON serialization
+            if (typeof value === 'bigint') {
+              return Number(value);
+            }
+            return value;
+          }),
+          signal: controller.signal
+        });
+        
+        if (!response.ok) {
+          throw new Error(`Chat API failed: ${response.statusText}`);
+        }
+        if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+          return response.json();
+        }
+        
+        let result: any = null;
+        await readEventStream(response, (event, data) => {
+          const live = liveRef.current;
+          if (event === 'text') {
+            live.content += (newParagraph && live.content ? '\n\n' : '') + data.delta;
+            newParagraph = false;
+          } else if (event === 'step') {
+            live.steps = [...live.steps, data.step];
+            // Text from the next model call starts a new paragraph
+            newParagraph = data.step.kind === 'model';
+          } else if (event === 'status') {
+            setAgentStatus(data.status);
+            return;
+          } else if (event === 'done') {
+            result = data;
+            return;
+          } else if (event === 'error') {
+            throw new Error(data.error);
           }
-          return value;
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Chat API failed: ${response.statusText}`);
-      }
+          setLiveReply({ ...live });
+        });
+        if (!result) {
+          throw new Error('The response ended before the agent finished');
+        }
+        return result;
+      };
       
-      const data = await response.json();
+      // The agent answers tool requests and questions alike; without an LLM the route returns SQL to run
+      const data = await postChat({ message: question });
       
-      // Check if we need to execute SQL on client side
-      if (data.shouldExecuteClient && data.sql) {
+      if (data.agent) {
+        await runAgent(data.agent, { question, tableSchemas, history, semanticLayer, postChat, rememberTurn, seen, signal: controller.signal });
+      } else if (data.shouldExecuteClient && data.sql) {
+        // Every query tried, including revisions after DuckDB errors
+        const attempts: QueryAttempt[] = [];
         try {
-          // Execute SQL query on client side
-          const queryResult = await executeQuery(data.sql);
+          // Validate and run on the client, revising the query when DuckDB rejects it
+          const executed = await executeWithRepair(data.sql, {
+            question,
+            tableSchemas,
+            allowWrites: dataEditMode,
+            history,
+            semanticLayer,
+            privacy: privacyPolicy
+          }, attempts);
+          if (executed.explanation) {
+            data.explanation = executed.explanation;
+          }
+          data.sql = executed.query.sql;
+          
+          if (executed.query.kind === 'write') {
+            const outcome = await runConfirmedWrite(executed.query, data.explanation, attempts);
+            rememberTurn({ sql: data.sql, answer: outcome });
+            return;
+          }
+          
+          const queryResult = executed.result;
           const queryResults = queryResult.toArray().map((row: any) => {
             // Convert BigInt values to numbers
             const cleanRow: any = {};
@@ -168,145 +489,67 @@ export function ChatPanel() {
             return cleanRow;
           });
           
-          // Check if there are pending tools to execute after SQL
-          if (data.pendingTools && data.pendingTools.length > 0) {
-            console.log('Executing pending tools with query results:', {
-              tools: data.pendingTools,
-              resultsCount: queryResults.length
-            });
-            
-            // Execute pending tools with query results
-            const toolResponse = await fetch('/api/chat-with-tools', {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                pendingTools: data.pendingTools,
-                queryResults
-              }, (_key, value) => {
-                if (typeof value === 'bigint') {
-                  return Number(value);
-                }
-                return value;
-              }),
-            });
-            
-            if (toolResponse.ok) {
-              const toolData = await toolResponse.json();
-              if (toolData.messages) {
-                toolData.messages.forEach((msg: any) => {
-                  addMessage(msg);
-                });
+          // Send the rows, without blocked columns, to /api/chat for natural language analysis
+          const sharedResults = withoutBlockedColumns(queryResults, privacyPolicy);
+          seen.redactRows(sharedResults);
+          const analysisResponse = await fetch('/api/chat', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              datasetId: currentDatasetId,
+              message: question,
+              tableSchemas,
+              queryResults: sharedResults,
+              facts: await resultFacts(executed.query.statement, sharedResults),
+              sql: executed.query.statement,
+              history,
+              semanticLayer,
+              privacy: privacyPolicy
+            }, (_key, value) => {
+              if (typeof value === 'bigint') {
+                return Number(value);
               }
-            } else {
-              console.error('Tool execution failed:', await toolResponse.text());
-            }
-          } else {
-            // No pending tools - check if this was originally a tool request
-            const lowerMessage = inputMessage.toLowerCase();
-            const isEmailRequest = 
-              lowerMessage.includes('email') || 
-              lowerMessage.includes('send') || 
-              lowerMessage.includes('notify') || 
-              lowerMessage.includes('remind');
-            const isPurchaseRequest = 
-              lowerMessage.includes('purchase') || 
-              lowerMessage.includes('order') || 
-              lowerMessage.includes('buy') ||
-              lowerMessage.includes('reorder');
-            
-            if (isEmailRequest || isPurchaseRequest) {
-              // This was a tool request - re-process with the query results
-              console.log('Re-processing tool request with query results');
-              
-              // Call the tool endpoint again with the query results
-              const toolResponse = await fetch('/api/chat-with-tools', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  datasetId: currentDatasetId,
-                  message: inputMessage,
-                  tableSchemas,
-                  queryResults  // Include the query results this time
-                }, (_key, value) => {
-                  if (typeof value === 'bigint') {
-                    return Number(value);
-                  }
-                  return value;
-                }),
-              });
-              
-              if (toolResponse.ok) {
-                const toolData = await toolResponse.json();
-                if (toolData.messages) {
-                  toolData.messages.forEach((msg: any) => {
-                    addMessage(msg);
-                  });
-                }
-              } else {
-                // Tool execution failed
+              return value;
+            }),
+          });
+          
+          if (analysisResponse.ok) {
+            const analysisData = await analysisResponse.json();
+            if (analysisData.messages) {
+              analysisData.messages.forEach((msg: any) => {
                 addMessage({
-                  id: `msg_${Date.now()}`,
-                  role: 'assistant' as const,
-                  content: '❌ Could not execute the requested action. Please check the data and try again.',
-                  timestamp: new Date().toISOString()
-                });
-              }
-            } else {
-              // Not a tool request - send to /api/chat for natural language analysis
-              const analysisResponse = await fetch('/api/chat', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  datasetId: currentDatasetId,
-                  message: inputMessage,
-                  tableSchemas,
-                  queryResults
-                }, (_key, value) => {
-                  if (typeof value === 'bigint') {
-                    return Number(value);
-                  }
-                  return value;
-                }),
-              });
-              
-              if (analysisResponse.ok) {
-                const analysisData = await analysisResponse.json();
-                if (analysisData.messages) {
-                  analysisData.messages.forEach((msg: any) => {
-                    addMessage({
-                      ...msg,
-                      queryData: queryResults,
-                      metadata: {
-                        ...msg.metadata,
-                        query: data.sql,
-                        explanation: data.explanation
-                      }
-                    });
-                  });
-                }
-              } else {
-                // Fallback to basic formatting if analysis fails
-                const resultMessage = {
-                  id: `msg_${Date.now()}`,
-                  role: 'assistant' as const,
-                  content: formatQueryResults(queryResults, data.explanation),
-                  timestamp: new Date().toISOString(),
+                  ...msg,
                   queryData: queryResults,
                   metadata: {
+                    ...msg.metadata,
                     query: data.sql,
-                    explanation: data.explanation
-                  },
-                  suggestions: data.suggestions
-                };
-                addMessage(resultMessage);
-              }
+                    explanation: data.explanation,
+                    attempts
+                  }
+                });
+              });
             }
+            rememberTurn({ sql: data.sql, result: describeResult(queryResults), answer: analysisData.messages?.[0]?.content });
+          } else {
+            // Fallback to basic formatting if analysis fails
+            const resultMessage = {
+              id: `msg_${Date.now()}`,
+              role: 'assistant' as const,
+              content: formatQueryResults(queryResults, data.explanation),
+              timestamp: new Date().toISOString(),
+              queryData: queryResults,
+              toolSuggestions: suggestActions(sharedResults, { sql: executed.query.statement, semanticLayer }),
+              metadata: {
+                query: data.sql,
+                explanation: data.explanation,
+                attempts
+              },
+              suggestions: data.suggestions
+            };
+            addMessage(resultMessage);
+            rememberTurn({ sql: data.sql, result: describeResult(queryResults), answer: resultMessage.content });
           }
         } catch (queryError: any) {
           // Query execution failed - provide helpful error message
@@ -328,9 +571,10 @@ export function ChatPanel() {
           const errorMessage = {
             id: `msg_${Date.now()}`,
             role: 'assistant' as const,
-            content: `I understood your question and generated this SQL query:\n\n\`\`\`sql\n${data.sql}\n\`\`\`\n\n❌ Query execution failed: ${errorDetails}${suggestion}\n\nWould you like to try rephrasing your question?`,
+            content: `I understood your question and generated this SQL query:\n\n\`\`\`sql\n${attempts[attempts.length - 1]?.query ?? data.sql}\n\`\`\`\n\n❌ Query execution failed${attempts.length > 1 ? ` after ${attempts.length} attempts` : ''}: ${errorDetails}${suggestion}\n\nWould you like to try rephrasing your question?`,
             timestamp: new Date().toISOString(),
-            suggestions: data.suggestions || ['Show me all data', 'Show summary statistics', 'Show top 10 records']
+            suggestions: data.suggestions || ['Show me all data', 'Show summary statistics', 'Show top 10 records'],
+            metadata: { attempts }
           };
           addMessage(errorMessage);
         }
@@ -339,9 +583,22 @@ export function ChatPanel() {
         data.messages.forEach((msg: any) => {
           addMessage(msg);
         });
+        rememberTurn({ answer: data.messages[0]?.content });
       }
       
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep what was written and done before Stop
+        const live = liveRef.current;
+        addMessage({
+          id: `msg_${Date.now()}_stopped`,
+          role: 'assistant' as const,
+          content: `${live.content ? `${live.content}\n\n` : ''}*Stopped.*`,
+          timestamp: new Date().toISOString(),
+          metadata: live.steps.length > 0 ? { steps: live.steps } : undefined
+        });
+        return;
+      }
       console.error('Chat error:', error);
       
       // Fallback to client-side analysis if API fails
@@ -353,31 +610,90 @@ export function ChatPanel() {
       };
       
       addMessage(errorMessage);
+    } finally {
+      setIsTyping(false);
+      setAgentStatus(null);
+      setLiveReply(null);
+      abortRef.current = null;
     }
-
-    setIsTyping(false);
   };
 
-  const handleActionClick = async (actionId: string) => {
-    setLoading(true);
+  // Chips run registered actions; emails and orders wait for approval in the chat like the agent's
+  const runSuggestion = async (suggestion: ActionSuggestion) => {
+    const dataset = datasets.find(d => d.id === currentDatasetId);
+    if (!suggestion.action || !dataset) return;
+
+    setIsTyping(true);
+    setAgentStatus(suggestion.label);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let approved = false;
     try {
-      const result = await api.executeAction(actionId);
-      addAuditEvent(result.audit);
-      
-      // Add confirmation message
+      const result = await api.executeAction(suggestion.action, {
+        datasetId: dataset.id,
+        params: suggestion.params ?? {},
+        tables: dataset.summary.tables.map(table => table.name),
+        privacy: privacyPolicy,
+        approve: async preview => {
+          const [decision] = await requestApproval([preview]);
+          setAgentStatus(suggestion.label);
+          approved = decision?.approved === true;
+          return approved;
+        },
+        signal: controller.signal
+      });
+      if (!result) {
+        addMessage({
+          id: `msg_${Date.now()}_action`,
+          role: 'assistant',
+          content: `Not sent: ${suggestion.label}.`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (result.audit) {
+        addAuditEvent(result.audit);
+      }
       addMessage({
         id: `msg_${Date.now()}_action`,
         role: 'assistant',
-        content: `✅ ${result.audit.summary}`,
-        artifacts: result.artifacts,
+        content: result.error
+          ? `❌ ${suggestion.label} failed: ${result.error}`
+          : `✅ ${result.audit?.summary ?? suggestion.label}${result.content ? `\n\n${result.content}` : ''}`,
+        artifacts: result.artifacts.length > 0 ? result.artifacts : undefined,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stop only ends the wait; an approved action may already be running on the server
+        addMessage({
+          id: `msg_${Date.now()}_stopped`,
+          role: 'assistant',
+          content: approved
+            ? `*Stopped.* ${suggestion.label} was approved and may still have run; check the audit log.`
+            : `*Stopped:* ${suggestion.label}.`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
       console.error('Action error:', error);
+      addMessage({
+        id: `msg_${Date.now()}_action`,
+        role: 'assistant',
+        content: `❌ ${suggestion.label} failed: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      setIsTyping(false);
+      setAgentStatus(null);
+      abortRef.current = null;
     }
-    setLoading(false);
   };
 
+  const handleActionClick = (suggestion: ActionSuggestion) =>
+    suggestion.question ? handleSendMessage(suggestion.question) : runSuggestion(suggestion);
+
   const getActionIcon = (category: string) => {
     switch (category) {
       case 'invoice': return <Receipt className="h-4 w-4" />;
@@ -388,9 +704,9 @@ export function ChatPanel() {
     }
   };
 
-  const suggestions = chatMessages
-    .filter(msg => msg.toolSuggestions?.length)
-    .flatMap(msg => msg.toolSuggestions || []);
+  // Chips belong to the latest answer, since their parameters come from its result
+  const suggestions = (chatMessages.filter(msg => msg.role === 'assistant').pop()?.toolSuggestions ?? [])
+    .filter(suggestion => suggestion.action || suggestion.question);
 
   return (
     <div className="h-full flex flex-col bg-background/50 backdrop-blur-sm border-l border-border/50">
@@ -406,6 +722,15 @@ export function ChatPanel() {
               {currentDatasetId ? 'Ready to analyze your data' : 'Upload data to get started'}
             </p>
           </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="data-edit-mode"
+              checked={dataEditMode}
+              onCheckedChange={setDataEditMode}
+              disabled={!currentDatasetId}
+            />
+            <Label htmlFor="data-edit-mode" className="text-xs font-normal text-muted-foreground">Data edit mode</Label>
+          </div>
         </div>
       </div>
 
@@ -436,6 +761,22 @@ export function ChatPanel() {
                   <ChatMessage key={message.id} message={message} />
                 ))}
                 
+                {liveReply && (
+                  <ChatMessage
+                    message={{
+                      id: 'live',
+                      role: 'assistant',
+                      content: liveReply.content,
+                      timestamp: new Date().toISOString(),
+                      metadata: { steps: liveReply.steps }
+                    }}
+                  />
+                )}
+                
+                {pendingApproval && (
+                  <ActionApproval actions={pendingApproval.actions} onDecide={pendingApproval.resolve} />
+                )}
+                
                 {isTyping && (
                   <div className="flex items-start gap-3">
                     <div className="flex items-center justify-center w-8 h-8 rounded-xl bg-gradient-to-br from-primary/10 to-primary/5 border border-primary/20 flex-shrink-0">
@@ -448,7 +789,7 @@ export function ChatPanel() {
                           <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
                           <div className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
                         </div>
-                        <span>AI is analyzing...</span>
+                        <span>{agentStatus ?? 'AI is analyzing...'}</span>
                       </div>
                     </div>
                   </div>
@@ -472,7 +813,8 @@ export function ChatPanel() {
                 <ActionButton
                   key={suggestion.id}
                   suggestion={suggestion}
-                  onClick={() => handleActionClick(suggestion.id)}
+                  onClick={() => handleActionClick(suggestion)}
+                  disabled={isTyping}
                   icon={getActionIcon(suggestion.category)}
                 />
               ))}
@@ -497,19 +839,47 @@ export function ChatPanel() {
             disabled={!currentDatasetId || isTyping}
             className="pr-12 bg-muted/30 border-border/60 focus:bg-background focus:border-primary/60 focus:ring-primary/20 transition-all duration-200 rounded-xl"
           />
-          <Button 
-            onClick={handleSendMessage} 
-            disabled={!inputMessage.trim() || !currentDatasetId || isTyping}
-            size="sm"
-            className="absolute right-2 top-2 h-8 w-8 p-0 bg-primary hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground transition-all duration-200 rounded-lg"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isTyping ? (
+            <Button 
+              onClick={handleCancel}
+              size="sm"
+              variant="outline"
+              title="Stop"
+              className="absolute right-2 top-2 h-8 w-8 p-0 transition-all duration-200 rounded-lg"
+            >
+              <Square className="h-3.5 w-3.5" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={() => handleSendMessage()} 
+              disabled={!inputMessage.trim() || !currentDatasetId}
+              size="sm"
+              className="absolute right-2 top-2 h-8 w-8 p-0 bg-primary hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground transition-all duration-200 rounded-lg"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
           <div className="absolute -bottom-5 left-0 text-[11px] text-muted-foreground/80">
             Press Enter to send • Shift+Enter for new line • ⌘K for Command
           </div>
         </div>
       </div>
+
+      <AlertDialog open={!!pendingWrite} onOpenChange={open => !open && pendingWrite?.resolve(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change data in {pendingWrite?.query.tables[0]}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingWrite?.explanation || 'The assistant wants to run this statement.'} This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">{pendingWrite?.query.sql}</pre>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => pendingWrite?.resolve(false)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingWrite?.resolve(true)}>Run statement</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
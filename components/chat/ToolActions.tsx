@@ -24,6 +24,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { toast } from 'sonner';
+import { useAppStore } from '@/lib/store';
+import { withoutBlockedColumns } from '@/lib/redaction';
+import type { Artifact, AuditEvent } from '@/types';
 
 interface ToolActionsProps {
   message: string;
@@ -38,6 +41,28 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
   const [emailType, setEmailType] = useState<'report' | 'invoice' | 'reminder' | 'statement'>('report');
   const [reportFormat, setReportFormat] = useState<'pdf' | 'excel' | 'html'>('pdf');
   const [showReportDialog, setShowReportDialog] = useState(false);
+  const { privacyPolicy, addAuditEvent } = useAppStore();
+  // Blocked columns never leave the browser
+  const rows = withoutBlockedColumns(data, privacyPolicy);
+
+  // Log a generated file with a link to the stored copy, which /api/tools names in X-Artifact
+  const recordDownload = (response: Response, summary: string, category: AuditEvent['category']) => {
+    let artifact: Artifact | undefined;
+    try {
+      const header = response.headers.get('X-Artifact');
+      artifact = header ? JSON.parse(decodeURIComponent(header)) : undefined;
+    } catch (error) {
+      console.error('Reading the stored file failed:', error);
+    }
+    addAuditEvent({
+      id: `${category}_${Date.now()}`,
+      at: new Date().toISOString(),
+      summary,
+      detail: artifact?.sha256 ? `${artifact.name} (sha256 ${artifact.sha256})` : undefined,
+      artifacts: artifact ? [artifact] : undefined,
+      category
+    });
+  };
 
   const handleGenerateReport = async () => {
     setIsGenerating(true);
@@ -48,13 +73,14 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          tool: 'generateReport',
+          tool: 'generate_report',
           params: {
             title: `Analysis Report - ${new Date().toLocaleDateString()}`,
-            data,
+            data: rows,
             format: reportFormat,
             userQuery: message
-          }
+          },
+          privacy: privacyPolicy
         }),
       });
 
@@ -70,6 +96,7 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
         
+        recordDownload(response, `Generated a ${reportFormat} report of ${rows.length} rows`, 'export');
         toast.success('Report generated successfully!');
         setShowReportDialog(false);
         onToolExecuted?.({ type: 'report', format: reportFormat });
@@ -97,13 +124,14 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          tool: 'generateEmail',
+          tool: 'generate_email',
           params: {
             type: emailType,
             recipient: emailRecipient,
-            data,
+            data: rows,
             context: message
-          }
+          },
+          privacy: privacyPolicy
         }),
       });
 
@@ -138,11 +166,12 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          tool: 'generateInvoice',
+          tool: 'generate_invoice',
           params: {
-            data,
+            data: rows,
             context: message
-          }
+          },
+          privacy: privacyPolicy
         }),
       });
 
@@ -157,6 +186,7 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
         
+        recordDownload(response, 'Generated an invoice', 'action');
         toast.success('Invoice generated successfully!');
         onToolExecuted?.({ type: 'invoice' });
       } else {
@@ -178,9 +208,9 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          tool: 'exportData',
+          tool: 'export_data',
           params: {
-            data,
+            data: rows,
             filename: `export_${Date.now()}.csv`
           }
         }),
@@ -197,6 +227,7 @@ export function ToolActions({ message, data = [], onToolExecuted }: ToolActionsP
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
         
+        recordDownload(response, `Exported ${rows.length} rows to CSV`, 'export');
         toast.success('Data exported successfully!');
         onToolExecuted?.({ type: 'export', format: 'csv' });
       } else {
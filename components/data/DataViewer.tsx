@@ -4,10 +4,13 @@ import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Search, BarChart3, Table as TableIcon, TrendingUp, FileWarning } from 'lucide-react';
+import { Search, BarChart3, Table as TableIcon, TrendingUp, FileWarning, GitCompare, BookOpen, ShieldCheck } from 'lucide-react';
 import { DataTable } from './DataTable';
 import { DataChart } from './DataChart';
 import { QuickStats } from './QuickStats';
+import { VersionCompare } from './VersionCompare';
+import { SemanticLayerEditor } from './SemanticLayerEditor';
+import { PrivacyPolicyEditor } from './PrivacyPolicyEditor';
 import { useAppStore } from '@/lib/store';
 import { api } from '@/lib/api';
 import { getTablePreview } from '@/lib/clientDatabase';
@@ -17,19 +20,25 @@ export function DataViewer() {
   const [searchTerm, setSearchTerm] = useState('');
   const [activeTab, setActiveTab] = useState('table');
   
+  const [datasetTables, setDatasetTables] = useState<string[]>([]);
+  
   const { 
     currentDatasetId, 
+    datasets,
     tables, 
     setTable, 
     isLoading,
     setLoading 
   } = useAppStore();
 
+  const currentDataset = datasets.find(dataset => dataset.id === currentDatasetId);
+
+  // Reload when the dataset changes or a new version of it replaces its tables
   useEffect(() => {
     if (currentDatasetId) {
       loadTables();
     }
-  }, [currentDatasetId]);
+  }, [currentDatasetId, currentDataset?.uploadedAt]);
 
   const loadTables = async () => {
     if (!currentDatasetId) return;
@@ -38,6 +47,7 @@ export function DataViewer() {
       const storedTables = localStorage.getItem(`dataset_${currentDatasetId}_tables`);
       if (storedTables) {
         const tableInfo = JSON.parse(storedTables);
+        setDatasetTables(tableInfo.map((info: { name: string }) => info.name));
         for (const info of tableInfo) {
           try {
             const tablePreview = await getTablePreview(info.name);
@@ -48,6 +58,7 @@ export function DataViewer() {
         }
       } else {
         const { tables: tableList } = await api.getTables(currentDatasetId);
+        setDatasetTables(tableList.map(table => table.name));
         tableList.forEach(table => {
           setTable(table.name, table);
         });
@@ -58,8 +69,9 @@ export function DataViewer() {
     setLoading(false);
   };
 
-  const tableNames = Object.keys(tables);
+  const tableNames = datasetTables.filter(name => tables[name]);
   const currentTable = tableNames[0] ? tables[tableNames[0]] : null;
+  const hasVersions = (currentDataset?.versions?.length ?? 0) > 1;
 
   if (isLoading) {
     return <DataViewerSkeleton />;
@@ -110,6 +122,22 @@ export function DataViewer() {
               <BarChart3 className="h-4 w-4" />
               Charts
             </TabsTrigger>
+            {hasVersions && (
+              <TabsTrigger value="versions" className="flex items-center gap-2">
+                <GitCompare className="h-4 w-4" />
+                Compare versions
+              </TabsTrigger>
+            )}
+            {currentDataset && (
+              <TabsTrigger value="glossary" className="flex items-center gap-2">
+                <BookOpen className="h-4 w-4" />
+                Glossary
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="privacy" className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Privacy
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 min-h-0 mt-4">
@@ -120,6 +148,22 @@ export function DataViewer() {
             <TabsContent value="chart" className="h-full mt-0">
               <DataChart table={currentTable} />
             </TabsContent>
+
+            {hasVersions && currentDataset && (
+              <TabsContent value="versions" className="h-full mt-0">
+                <VersionCompare dataset={currentDataset} />
+              </TabsContent>
+            )}
+
+            {currentDataset && (
+              <TabsContent value="glossary" className="h-full mt-0">
+                <SemanticLayerEditor dataset={currentDataset} />
+              </TabsContent>
+            )}
+
+            <TabsContent value="privacy" className="h-full mt-0">
+              <PrivacyPolicyEditor tables={tableNames.map(name => tables[name])} />
+            </TabsContent>
             
           </div>
         </Tabs>
@@ -0,0 +1,93 @@
+'use client';
+
+import { ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppStore } from '@/lib/store';
+import { PII_KINDS, columnPrivacy, detectPIIColumn, normalizeColumnName } from '@/lib/redaction';
+import type { ColumnPrivacy, TablePreview } from '@/types';
+
+interface PrivacyPolicyEditorProps {
+  tables: TablePreview[];
+}
+
+const PRIVACY_OPTIONS: Array<{ value: ColumnPrivacy; label: string }> = [
+  { value: 'allow', label: 'Send as is' },
+  { value: 'pseudonymize', label: 'Pseudonymize' },
+  { value: 'block', label: 'Never send' }
+];
+
+// Select value for columns that follow detection
+const DETECTED = 'detected';
+
+export function PrivacyPolicyEditor({ tables }: PrivacyPolicyEditorProps) {
+  const { privacyPolicy, setColumnPrivacy } = useAppStore();
+
+  const labelFor = (privacy: ColumnPrivacy) => PRIVACY_OPTIONS.find(option => option.value === privacy)?.label;
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-auto">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="h-5 w-5 text-primary mt-0.5" />
+        <div>
+          <p className="font-medium text-foreground">Data sent to the model</p>
+          <p className="text-sm text-muted-foreground">
+            Columns that look personal reach the model as stable tokens, which are swapped back in its replies.
+            Blocked columns never leave the browser. Settings apply to every column of that name in this workspace.
+          </p>
+        </div>
+      </div>
+
+      {tables.map(table => (
+        <Card key={table.name}>
+          <CardHeader className="pb-2"><CardTitle className="text-base">{table.name}</CardTitle></CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Detected</TableHead>
+                  <TableHead>Sent to the model</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.schema.map(col => {
+                  const kind = detectPIIColumn(col.name, table.rows.map(row => row[col.name]));
+                  const chosen = privacyPolicy.columns[normalizeColumnName(col.name)];
+                  return (
+                    <TableRow key={col.name}>
+                      <TableCell className="font-medium">{col.name}</TableCell>
+                      <TableCell>
+                        {kind
+                          ? <Badge variant="outline">{PII_KINDS.find(k => k.value === kind)?.label}</Badge>
+                          : <span className="text-muted-foreground text-sm">Not personal</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={chosen ?? DETECTED}
+                          onValueChange={value => setColumnPrivacy(col.name, value === DETECTED ? null : value as ColumnPrivacy)}
+                        >
+                          <SelectTrigger className="w-[220px] h-8"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={DETECTED}>
+                              Default ({labelFor(columnPrivacy(undefined, col.name, kind))?.toLowerCase()})
+                            </SelectItem>
+                            {PRIVACY_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BookOpen, Loader2, Plus, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppStore } from '@/lib/store';
+import { getDatasetTables, suggestSemanticLayer } from '@/lib/workspace';
+import { guardQuery } from '@/lib/sqlGuard';
+import { COLUMN_ROLES } from '@/lib/semanticLayer';
+import type { ColumnRole, DatasetInfo, SemanticColumn, SemanticLayer, SemanticMetric } from '@/types';
+
+interface SemanticLayerEditorProps {
+  dataset: DatasetInfo;
+}
+
+// Synonyms are edited as comma-separated text; empty entries are dropped on save
+const splitList = (text: string) => text.split(',').map(item => item.trimStart());
+const cleanList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+export function SemanticLayerEditor({ dataset }: SemanticLayerEditorProps) {
+  const { updateDataset } = useAppStore();
+  const [layer, setLayer] = useState<SemanticLayer | null>(dataset.semanticLayer ?? null);
+  const [dirty, setDirty] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [metricErrors, setMetricErrors] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const tables = getDatasetTables(dataset.id);
+
+  const draft = useCallback(async () => {
+    setDrafting(true);
+    setError(null);
+    try {
+      setLayer(await suggestSemanticLayer(getDatasetTables(dataset.id), dataset.type));
+      setMetricErrors({});
+      setDirty(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest a glossary');
+    } finally {
+      setDrafting(false);
+    }
+  }, [dataset.id, dataset.type]);
+
+  // Datasets imported before the glossary existed start from a fresh draft
+  useEffect(() => {
+    setLayer(dataset.semanticLayer ?? null);
+    setDirty(false);
+    setMetricErrors({});
+    if (!dataset.semanticLayer) {
+      draft();
+    }
+  }, [dataset.semanticLayer, draft]);
+
+  const updateColumn = (index: number, updates: Partial<SemanticColumn>) => {
+    setLayer(prev => prev && { ...prev, columns: prev.columns.map((col, i) => i === index ? { ...col, ...updates } : col) });
+    setDirty(true);
+  };
+
+  const updateMetric = (index: number, updates: Partial<SemanticMetric>) => {
+    setLayer(prev => prev && { ...prev, metrics: prev.metrics.map((metric, i) => i === index ? { ...metric, ...updates } : metric) });
+    setMetricErrors(prev => ({ ...prev, [index]: '' }));
+    setDirty(true);
+  };
+
+  const addMetric = () => {
+    setLayer(prev => prev && {
+      ...prev,
+      metrics: [...prev.metrics, { name: '', table: tables[0] ?? '', expression: '', synonyms: [] }]
+    });
+    setDirty(true);
+  };
+
+  const removeMetric = (index: number) => {
+    setLayer(prev => prev && { ...prev, metrics: prev.metrics.filter((_, i) => i !== index) });
+    setMetricErrors({});
+    setDirty(true);
+  };
+
+  // Every metric must run as an aggregate over its table before the glossary is saved
+  const save = async () => {
+    if (!layer) return;
+    setSaving(true);
+    const errors: Record<number, string> = {};
+    for (const [index, metric] of Array.from(layer.metrics.entries())) {
+      if (!metric.name.trim() || !metric.expression.trim()) {
+        errors[index] = 'Give the metric a name and an expression';
+        continue;
+      }
+      try {
+        await guardQuery(`SELECT ${metric.expression} AS value FROM "${metric.table.replace(/"/g, '""')}"`, { tables });
+      } catch (err) {
+        errors[index] = err instanceof Error ? err.message : 'Invalid expression';
+      }
+    }
+    setMetricErrors(errors);
+    setSaving(false);
+    if (Object.keys(errors).length > 0) return;
+
+    const saved: SemanticLayer = {
+      columns: layer.columns.map(col => ({ ...col, synonyms: cleanList(col.synonyms), description: col.description?.trim() || undefined })),
+      metrics: layer.metrics.map(metric => ({
+        ...metric,
+        name: metric.name.trim(),
+        expression: metric.expression.trim(),
+        synonyms: cleanList(metric.synonyms),
+        description: metric.description?.trim() || undefined
+      })),
+      updatedAt: new Date().toISOString()
+    };
+    updateDataset(dataset.id, { semanticLayer: saved });
+    setLayer(saved);
+    setDirty(false);
+  };
+
+  if (!layer) {
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground">
+        {error ? (
+          <Alert variant="destructive" className="max-w-md"><AlertDescription>{error}</AlertDescription></Alert>
+        ) : (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-auto">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-start gap-3">
+          <BookOpen className="h-5 w-5 text-primary mt-0.5" />
+          <div>
+            <p className="font-medium text-foreground">Business glossary</p>
+            <p className="text-sm text-muted-foreground">
+              Column roles, synonyms and metric definitions the assistant uses to write queries.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {dirty && <Badge variant="outline">Unsaved changes</Badge>}
+          <Button variant="outline" size="sm" onClick={draft} disabled={drafting || saving}>
+            {drafting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+            Suggest again
+          </Button>
+          <Button size="sm" onClick={save} disabled={!dirty || saving || drafting}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {error && <Alert variant="destructive"><AlertDescription>{error}</AlertDescription></Alert>}
+
+      <Card>
+        <CardHeader className="pb-2"><CardTitle className="text-base">Columns</CardTitle></CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {tables.length > 1 && <TableHead>Table</TableHead>}
+                <TableHead>Column</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Synonyms</TableHead>
+                <TableHead>Description</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {layer.columns.map((col, index) => (
+                <TableRow key={`${col.table}.${col.column}`}>
+                  {tables.length > 1 && <TableCell className="text-muted-foreground">{col.table}</TableCell>}
+                  <TableCell className="font-medium">{col.column}</TableCell>
+                  <TableCell>
+                    <Select value={col.role} onValueChange={value => updateColumn(index, { role: value as ColumnRole })}>
+                      <SelectTrigger className="w-[150px] h-8"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {COLUMN_ROLES.map(role => <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      value={col.synonyms.join(',')}
+                      placeholder="e.g. supplier, payee"
+                      onChange={e => updateColumn(index, { synonyms: splitList(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      value={col.description ?? ''}
+                      onChange={e => updateColumn(index, { description: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">Metrics</CardTitle>
+          <Button variant="ghost" size="sm" onClick={addMetric}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add metric
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {layer.metrics.length === 0 && (
+            <p className="text-sm text-muted-foreground">No metrics yet. Add one such as &quot;open AR&quot; or &quot;gross margin&quot;.</p>
+          )}
+          {layer.metrics.map((metric, index) => (
+            <div key={index} className="rounded-lg border border-border/60 p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  className="h-8 w-[200px]"
+                  value={metric.name}
+                  placeholder="Metric name"
+                  onChange={e => updateMetric(index, { name: e.target.value })}
+                />
+                {tables.length > 1 && (
+                  <Select value={metric.table} onValueChange={value => updateMetric(index, { table: value })}>
+                    <SelectTrigger className="w-[200px] h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {tables.map(table => <SelectItem key={table} value={table}>{table}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Input
+                  className="h-8 flex-1 min-w-[200px]"
+                  value={metric.synonyms.join(',')}
+                  placeholder="Synonyms, comma separated"
+                  onChange={e => updateMetric(index, { synonyms: splitList(e.target.value) })}
+                />
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeMetric(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                className="font-mono text-xs min-h-[60px]"
+                value={metric.expression}
+                placeholder={`SUM("amount") FILTER (WHERE "status" <> 'paid')`}
+                onChange={e => updateMetric(index, { expression: e.target.value })}
+              />
+              <Input
+                className="h-8"
+                value={metric.description ?? ''}
+                placeholder="What the metric means"
+                onChange={e => updateMetric(index, { description: e.target.value })}
+              />
+              {metricErrors[index] && <p className="text-xs text-destructive">{metricErrors[index]}</p>}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, GitCompare, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getDatasetVersions } from '@/lib/workspace';
+import { compareVersions, detectKeyColumns, listCommonColumns, type VersionDiff } from '@/lib/versionDiff';
+import type { DatasetInfo, DatasetVersion } from '@/types';
+
+interface VersionCompareProps {
+  dataset: DatasetInfo;
+}
+
+// Tables are named `${version.id}_<sheet>`; the sheet part pairs tables across versions
+function sheetOf(version: DatasetVersion, table: string): string {
+  return table.startsWith(`${version.id}_`) ? table.slice(version.id.length + 1) : table;
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return String(value);
+}
+
+export function VersionCompare({ dataset }: VersionCompareProps) {
+  const versions = useMemo(() => getDatasetVersions(dataset), [dataset]);
+  const [baseId, setBaseId] = useState(versions[versions.length - 2]?.id ?? '');
+  const [compareId, setCompareId] = useState(versions[versions.length - 1]?.id ?? '');
+  const [sheet, setSheet] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [keyColumn, setKeyColumn] = useState('');
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new upload moves the comparison to the latest two versions
+  useEffect(() => {
+    setBaseId(versions[versions.length - 2]?.id ?? '');
+    setCompareId(versions[versions.length - 1]?.id ?? '');
+  }, [versions]);
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+
+  const sheets = useMemo(() => {
+    if (!base || !compare) return [];
+    const baseSheets = base.tables.map(table => sheetOf(base, table));
+    return compare.tables.map(table => sheetOf(compare, table)).filter(name => baseSheets.includes(name));
+  }, [base, compare]);
+
+  const activeSheet = sheets.includes(sheet) ? sheet : sheets[0] ?? '';
+  const baseTable = base?.tables.find(table => sheetOf(base, table) === activeSheet);
+  const compareTable = compare?.tables.find(table => sheetOf(compare, table) === activeSheet);
+
+  // New pair of snapshots: find the shared columns and a key that identifies rows
+  useEffect(() => {
+    if (!baseTable || !compareTable) return;
+    let cancelled = false;
+    setError(null);
+    setDiff(null);
+    Promise.all([listCommonColumns(baseTable, compareTable), detectKeyColumns(baseTable, compareTable)])
+      .then(([common, keys]) => {
+        if (cancelled) return;
+        setColumns(common);
+        setKeyColumn(keys[0] ?? '');
+        if (keys.length === 0) {
+          setError('No column uniquely identifies rows in both versions. Choose a key column to compare.');
+        }
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to read versions'));
+    return () => { cancelled = true; };
+  }, [baseTable, compareTable]);
+
+  useEffect(() => {
+    if (!baseTable || !compareTable || !keyColumn) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    compareVersions(baseTable, compareTable, [keyColumn])
+      .then(result => !cancelled && setDiff(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to compare versions'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [baseTable, compareTable, keyColumn]);
+
+  if (versions.length < 2) {
+    return (
+      <div className="h-full flex items-center justify-center text-center text-muted-foreground p-8">
+        <div className="space-y-2">
+          <GitCompare className="h-10 w-10 mx-auto" />
+          <p>Upload a new version of {dataset.name} to compare it with this one.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const versionLabel = (version: DatasetVersion) =>
+    `v${version.version} · ${version.fileName} · ${new Date(version.uploadedAt).toLocaleDateString()}`;
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-auto">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Select value={baseId} onValueChange={setBaseId}>
+          <SelectTrigger className="w-[280px] h-8"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {versions.map(version => (
+              <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">→</span>
+        <Select value={compareId} onValueChange={setCompareId}>
+          <SelectTrigger className="w-[280px] h-8"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {versions.map(version => (
+              <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {sheets.length > 1 && (
+          <Select value={activeSheet} onValueChange={setSheet}>
+            <SelectTrigger className="w-[160px] h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {sheets.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <span className="ml-2 text-muted-foreground">Key</span>
+        <Select value={keyColumn} onValueChange={setKeyColumn}>
+          <SelectTrigger className="w-[180px] h-8"><SelectValue placeholder="Choose column" /></SelectTrigger>
+          <SelectContent>
+            {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {!baseTable || !compareTable ? (
+        <Alert><AlertDescription>These versions have no sheet in common.</AlertDescription></Alert>
+      ) : error ? (
+        <Alert variant="destructive"><AlertDescription>{error}</AlertDescription></Alert>
+      ) : diff && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {([
+              ['New rows', diff.counts.added],
+              ['Removed rows', diff.counts.removed],
+              ['Changed rows', diff.counts.changed],
+              ['Unchanged rows', diff.counts.unchanged]
+            ] as const).map(([label, count]) => (
+              <Card key={label}>
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                  <div className="text-2xl font-semibold">{count.toLocaleString()}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {diff.addedColumns.map(col => <Badge key={col} variant="secondary">+ {col}</Badge>)}
+              {diff.removedColumns.map(col => <Badge key={col} variant="outline">− {col}</Badge>)}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-base">Column changes</CardTitle></CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead className="text-right">Rows changed</TableHead>
+                    <TableHead className="text-right">Total before</TableHead>
+                    <TableHead className="text-right">Total after</TableHead>
+                    <TableHead className="text-right">Up / down</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.columnDeltas.filter(delta => delta.changed > 0 || delta.totalBefore !== delta.totalAfter).map(delta => (
+                    <TableRow key={delta.column}>
+                      <TableCell className="font-medium">{delta.column}</TableCell>
+                      <TableCell className="text-right">{delta.changed.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatValue(delta.totalBefore)}</TableCell>
+                      <TableCell className="text-right">{formatValue(delta.totalAfter)}</TableCell>
+                      <TableCell className="text-right">
+                        {delta.increased !== undefined && (
+                          <span className="inline-flex items-center gap-2">
+                            <span className="inline-flex items-center text-emerald-600"><ArrowUp className="h-3 w-3" />{delta.increased}</span>
+                            <span className="inline-flex items-center text-red-600"><ArrowDown className="h-3 w-3" />{delta.decreased}</span>
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Tabs defaultValue="changed">
+            <TabsList className="bg-muted/50 p-1 rounded-lg">
+              <TabsTrigger value="changed">Changed ({diff.counts.changed})</TabsTrigger>
+              <TabsTrigger value="added">New ({diff.counts.added})</TabsTrigger>
+              <TabsTrigger value="removed">Removed ({diff.counts.removed})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="changed">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{diff.keyColumns.join(', ')}</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.changed.map(row => (
+                    <TableRow key={diff.keyColumns.map(col => String(row.key[col])).join('|')}>
+                      <TableCell className="font-medium align-top">
+                        {diff.keyColumns.map(col => formatValue(row.key[col])).join(', ')}
+                      </TableCell>
+                      <TableCell className="space-y-1">
+                        {Object.entries(row.changes).map(([col, change]) => (
+                          <div key={col} className="text-sm">
+                            <span className="text-muted-foreground">{col}: </span>
+                            {formatValue(change.before)} → {formatValue(change.after)}
+                            {change.delta !== undefined && (
+                              <span className={change.delta > 0 ? 'ml-2 text-emerald-600' : 'ml-2 text-red-600'}>
+                                ({change.delta > 0 ? '+' : ''}{formatValue(change.delta)})
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            {(['added', 'removed'] as const).map(kind => {
+              const rows = diff[kind];
+              const headers = rows[0] ? Object.keys(rows[0]) : [];
+              return (
+                <TabsContent key={kind} value={kind}>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>{headers.map(col => <TableHead key={col}>{col}</TableHead>)}</TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row, i) => (
+                        <TableRow key={i}>
+                          {headers.map(col => <TableCell key={col}>{formatValue(row[col])}</TableCell>)}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 'use client';
 
-import { MoonIcon, SunIcon, Database, FileSpreadsheet, Command as CommandIcon } from 'lucide-react';
+import { useState } from 'react';
+import { MoonIcon, SunIcon, Database, FileSpreadsheet, Command as CommandIcon, Upload } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileUploader } from '@/components/upload/FileUploader';
 import { useAppStore } from '@/lib/store';
 import { CommandMenu } from './CommandMenu';
 
 export function AppHeader() {
   const { theme, setTheme } = useTheme();
   const { datasets, currentDatasetId, setCurrentDataset } = useAppStore();
+  const [uploadOpen, setUploadOpen] = useState(false);
 
   return (
     <header className="border-b border-border/50 bg-background/80 backdrop-blur-md sticky top-0 z-50">
@@ -44,6 +48,17 @@ export function AppHeader() {
           </div>
 
           <div className="flex items-center gap-1">
+            {datasets.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-9 px-3 hover:bg-muted/80 gap-2"
+                onClick={() => setUploadOpen(true)}
+              >
+                <Upload className="h-4 w-4" />
+                <span className="text-sm">Upload</span>
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -71,6 +86,14 @@ export function AppHeader() {
         </div>
       </div>
       <CommandMenu />
+      <Dialog open={uploadOpen} onOpenChange={setUploadOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Upload data</DialogTitle>
+          </DialogHeader>
+          <FileUploader onComplete={() => setUploadOpen(false)} />
+        </DialogContent>
+      </Dialog>
     </header>
   );
 }
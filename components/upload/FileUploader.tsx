@@ -8,13 +8,48 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { api } from '@/lib/api';
 import { useAppStore } from '@/lib/store';
-import { initClientDatabase, createTableFromData, generateDatasetSummary } from '@/lib/clientDatabase';
-import type { ParseProgress } from '@/lib/fileParser';
+import { withoutBlockedColumns } from '@/lib/redaction';
+import { initClientDatabase, createTableFromData, generateDatasetSummary, dropTables } from '@/lib/clientDatabase';
+import {
+  canParseInWorker,
+  ingestFileInWorker,
+  getIngestionMode,
+  setIngestionMode,
+  type IngestionMode
+} from '@/lib/streamingParser';
+import { HeaderRowPreview } from './HeaderRowPreview';
+import { MergeReview } from './MergeReview';
+import { mergeTables, type MergeMode, type MergePlan } from '@/lib/tableMerge';
+import { LOCALE_PRESETS } from '@/lib/localeInference';
+import type { ParseProgress, ParseOptions, SheetRegionMetadata } from '@/lib/fileParser';
+import { getDatasetVersions, getDatasetTables, suggestSemanticLayer } from '@/lib/workspace';
+import type { DatasetInfo, DatasetSummary, DatasetType, DatasetVersion } from '@/types';
+
+type UploadResult = Awaited<ReturnType<typeof api.uploadFile>>;
+type StreamedUpload = Awaited<ReturnType<typeof ingestFileInWorker>>;
+type PendingUpload =
+  | { file: File; datasetId: string; result: UploadResult }
+  | { file: File; datasetId: string; streamed: StreamedUpload };
+
+interface PendingMerge {
+  file: File;
+  target: DatasetInfo;
+  mode: MergeMode;
+  /** Tables the file was loaded into, dropped once merged */
+  stagedTables: string[];
+  datasetType: DatasetType;
+  warnings: string[];
+}
+
+type ImportMode = 'new' | 'version' | MergeMode;
 
 interface FileUploadState {
-  status: 'idle' | 'uploading' | 'success' | 'error';
+  status: 'idle' | 'uploading' | 'review' | 'merge' | 'success' | 'error';
   progress: number;
   error?: string;
   phase?: 'reading' | 'parsing' | 'validating' | 'processing' | 'complete';
@@ -22,43 +57,175 @@ interface FileUploadState {
   warnings?: string[];
 }
 
-export function FileUploader() {
+// Import targets are 'new' or '<mode>:<datasetId>'
+function parseImportTarget(value: string): { mode: ImportMode; datasetId?: string } {
+  if (value === 'new') return { mode: 'new' };
+  const separator = value.indexOf(':');
+  return { mode: value.slice(0, separator) as ImportMode, datasetId: value.slice(separator + 1) };
+}
+
+function needsHeaderReview(result: { sheets?: Array<{ metadata?: { region?: SheetRegionMetadata } }> }): boolean {
+  return (result.sheets || []).some(sheet => {
+    const region: SheetRegionMetadata | undefined = sheet.metadata?.region;
+    return region && !region.overridden && (region.headerRow > 1 || region.skippedRows.length > 0 || region.confidence < 0.6);
+  });
+}
+
+interface FileUploaderProps {
+  /** Called once a successful import has been registered and the uploader has reset */
+  onComplete?: () => void;
+}
+
+export function FileUploader({ onComplete }: FileUploaderProps = {}) {
   const [uploadState, setUploadState] = useState<FileUploadState>({
     status: 'idle',
     progress: 0,
   });
   
-  const { addDataset, addAuditEvent } = useAppStore();
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  // 'auto' lets the parser infer number and date formats per column
+  const [locale, setLocale] = useState<string>('auto');
+  const [ingestionMode, setMode] = useState<IngestionMode>('local');
+  // 'new' creates a dataset; otherwise the file becomes a new version of, or is merged into, an existing one
+  const [importTarget, setImportTarget] = useState<string>('new');
+  
+  const { datasets, addDataset, updateDataset, setCurrentDataset, addAuditEvent, privacyPolicy } = useAppStore();
   
   // Initialize database on mount
   useEffect(() => {
     initClientDatabase().catch(console.error);
+    setMode(getIngestionMode());
   }, []);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+  const handleIngestionModeChange = (keepLocal: boolean) => {
+    const mode: IngestionMode = keepLocal ? 'local' : 'server';
+    setIngestionMode(mode);
+    setMode(mode);
+  };
 
-    setUploadState({ status: 'uploading', progress: 0, phase: 'reading' });
+  // Shared tail of both upload paths: summarize the new tables and register the dataset
+  const completeImport = useCallback(async (
+    file: File,
+    datasetId: string,
+    tableNames: string[],
+    datasetType: DatasetType,
+    warnings: string[],
+    fallbackSummary?: DatasetSummary
+  ) => {
+    const { mode: importMode, datasetId: targetId } = parseImportTarget(importTarget);
+    const target = datasets.find(dataset => dataset.id === targetId);
     
-    try {
-      // Step 1: Upload and parse file on server with progress tracking
-      setUploadState({ 
-        status: 'uploading', 
-        progress: 10, 
-        phase: 'reading',
-        message: `Reading ${file.name}...`
+    // Merges need a column mapping first; the uploaded tables wait as staging tables
+    if (target && (importMode === 'append' || importMode === 'upsert')) {
+      if (tableNames.length === 0) {
+        throw new Error(`${file.name} has no rows to merge`);
+      }
+      setPendingMerge({ file, target, mode: importMode, stagedTables: tableNames, datasetType, warnings });
+      setUploadState({ status: 'merge', progress: 85, phase: 'validating', warnings });
+      return;
+    }
+    
+    // Step 4: Generate comprehensive summary using DuckDB
+    setUploadState({ 
+      status: 'uploading', 
+      progress: 85,
+      phase: 'validating',
+      message: 'Analyzing data structure...',
+      warnings
+    });
+    
+    const detailedSummary = tableNames.length > 0 
+      ? await generateDatasetSummary(tableNames, datasetType)
+      : fallbackSummary || { tables: [], inferredJoins: [] };
+    
+    setUploadState({ 
+      status: 'success', 
+      progress: 100,
+      phase: 'complete',
+      warnings: warnings.length > 0 ? warnings : undefined
+    });
+
+    const uploadedAt = new Date().toISOString();
+    const totalRows = detailedSummary.tables.reduce((acc, t) => acc + t.rows, 0);
+    const ownerId = target ? target.id : datasetId;
+    const version: DatasetVersion = {
+      id: datasetId,
+      version: 1,
+      fileName: file.name,
+      uploadedAt,
+      tables: tableNames,
+      rowCount: totalRows
+    };
+
+    // Store table names in global state for later use
+    const tables = tableNames.map(name => ({ name, datasetId: ownerId }));
+    localStorage.setItem(`dataset_${ownerId}_tables`, JSON.stringify(tables));
+
+    // Draft a glossary the first time; a re-upload keeps the one the user may have edited
+    let semanticLayer = target?.semanticLayer;
+    if (!semanticLayer && tableNames.length > 0) {
+      try {
+        semanticLayer = await suggestSemanticLayer(tableNames, datasetType);
+      } catch (error) {
+        console.error('Failed to draft semantic layer:', error);
+      }
+    }
+
+    if (target) {
+      // A re-upload: the new tables become current and earlier ones stay as snapshots
+      const history = getDatasetVersions(target);
+      version.version = history[history.length - 1].version + 1;
+      updateDataset(target.id, {
+        uploadedAt,
+        summary: detailedSummary,
+        versions: [...history, version],
+        type: datasetType,
+        semanticLayer
       });
-      
-      const result = await api.uploadFile(file, (progress: ParseProgress) => {
-        setUploadState(prev => ({
-          ...prev,
-          progress: Math.min(40, progress.percentage * 0.4),
-          phase: progress.phase as any,
-          message: `${progress.phase === 'parsing' ? 'Parsing' : progress.phase === 'validating' ? 'Validating' : 'Processing'} file...`
-        }));
+      setCurrentDataset(target.id);
+    } else {
+      // Add to store with detailed summary
+      addDataset({
+        id: datasetId,
+        name: file.name.replace(/\.[^/.]+$/, ''),
+        uploadedAt,
+        summary: detailedSummary,
+        versions: [version],
+        type: datasetType,
+        semanticLayer,
       });
-      
+    }
+
+    // Add audit event with warnings
+    addAuditEvent({
+      id: `upload_${Date.now()}`,
+      at: uploadedAt,
+      summary: target
+        ? `Uploaded version ${version.version} of ${target.name}: ${file.name}`
+        : `Uploaded dataset: ${file.name}`,
+      detail: `${detailedSummary.tables.length} tables created, ${totalRows} total rows${warnings.length > 0 ? `. Warnings: ${warnings.join('; ')}` : ''}`,
+      category: 'upload'
+    });
+
+    // Reset after delay
+    setTimeout(() => {
+      setUploadState({ status: 'idle', progress: 0 });
+      onComplete?.();
+    }, 3000);
+  }, [datasets, importTarget, addDataset, updateDataset, setCurrentDataset, addAuditEvent, onComplete]);
+
+  const failUpload = useCallback((error: unknown) => {
+    console.error('Upload error:', error);
+    setUploadState({
+      status: 'error',
+      progress: 0,
+      error: error instanceof Error ? error.message : 'Failed to upload file. Please try again.',
+    });
+  }, []);
+
+  const importParsedFile = useCallback(async (file: File, result: UploadResult) => {
+    try {
       // Collect warnings
       const warnings = result.metadata?.warnings || [];
       
@@ -107,63 +274,210 @@ export function FileUploader() {
         }
       }
       
-      // Step 4: Generate comprehensive summary using DuckDB
-      setUploadState({ 
-        status: 'uploading', 
-        progress: 85,
-        phase: 'validating',
-        message: 'Analyzing data structure...',
-        warnings
+      const datasetType = (result.metadata?.type || 'general') as DatasetType;
+      await completeImport(file, result.datasetId, tableNames, datasetType, warnings, result.summary);
+    } catch (error) {
+      failUpload(error);
+    }
+  }, [completeImport, failUpload]);
+
+  const importStreamedFile = useCallback(async (file: File, datasetId: string, result: StreamedUpload) => {
+    try {
+      const warnings = [...result.warnings];
+      const tableNames: string[] = [];
+      for (const sheet of result.sheets) {
+        if (result.tableNames[sheet.name]) {
+          tableNames.push(result.tableNames[sheet.name]);
+          if (sheet.metadata?.hasFormulas) {
+            warnings.push(`Sheet "${sheet.name}" contained formulas (values were used)`);
+          }
+        } else {
+          warnings.push(`Sheet "${sheet.name}" was empty and skipped`);
+        }
+      }
+      
+      setUploadState({ status: 'uploading', progress: 85, phase: 'validating', message: 'Classifying dataset...', warnings });
+      // Only headers and a few sample rows, without blocked columns, leave the browser for classification
+      const datasetType = result.sheets.length > 0 && result.sheets.every(sheet => sheet.metadata?.bankFeed)
+        ? 'bank_feed'
+        : await api.classifyDataset(
+            result.sheets.map(({ name, headers, sample }) => ({ name, headers, sample: withoutBlockedColumns(sample, privacyPolicy) })),
+            privacyPolicy
+          );
+      
+      await completeImport(file, datasetId, tableNames, datasetType, warnings);
+    } catch (error) {
+      failUpload(error);
+    }
+  }, [completeImport, failUpload, privacyPolicy]);
+
+  /**
+   * Parse in a Web Worker and stream typed chunks straight into DuckDB,
+   * for formats the worker understands
+   */
+  const streamUpload = useCallback(async (file: File, options: ParseOptions, datasetId: string) => {
+    setUploadState({ status: 'uploading', progress: 0, phase: 'reading', message: `Reading ${file.name}...` });
+    
+    try {
+      await initClientDatabase();
+      const result = await ingestFileInWorker(file, datasetId, options, (progress: ParseProgress) => {
+        setUploadState(prev => ({
+          ...prev,
+          progress: Math.round(progress.percentage * 0.8),
+          phase: progress.phase === 'complete' ? 'processing' : progress.phase,
+          message: `${progress.phase === 'reading' ? 'Reading' : 'Loading'} ${file.name}...`
+        }));
       });
       
-      const datasetType = (result.metadata?.type || 'general') as 'financial' | 'inventory' | 'sales' | 'hr' | 'general';
-      const detailedSummary = tableNames.length > 0 
-        ? await generateDatasetSummary(tableNames, datasetType)
-        : result.summary;
+      if (needsHeaderReview(result)) {
+        setPendingUpload({ file, datasetId, streamed: result });
+        setUploadState({ status: 'review', progress: 80, phase: 'validating' });
+        return;
+      }
       
+      await importStreamedFile(file, datasetId, result);
+    } catch (error) {
+      failUpload(error);
+    }
+  }, [importStreamedFile, failUpload]);
+
+  const parseUpload = useCallback(async (file: File, options: ParseOptions = {}) => {
+    const parseOptions = locale === 'auto' ? options : { ...options, locale };
+    if (canParseInWorker(file.name)) {
+      await streamUpload(file, parseOptions, `dataset_${Date.now()}`);
+      return;
+    }
+    // Row data must not reach the server in local-only mode
+    if (ingestionMode === 'local') {
+      failUpload(new Error(`${file.name} can only be parsed on the server. Turn off "Keep data in this browser" to upload it.`));
+      return;
+    }
+    
+    setUploadState({ status: 'uploading', progress: 0, phase: 'reading' });
+    
+    try {
+      // Step 1: Upload and parse file on server with progress tracking
       setUploadState({ 
-        status: 'success', 
-        progress: 100,
-        phase: 'complete',
-        warnings: warnings.length > 0 ? warnings : undefined
+        status: 'uploading', 
+        progress: 10, 
+        phase: 'reading',
+        message: `Reading ${file.name}...`
       });
+      
+      const result = await api.uploadFile(file, (progress: ParseProgress) => {
+        setUploadState(prev => ({
+          ...prev,
+          progress: Math.min(40, progress.percentage * 0.4),
+          phase: progress.phase as any,
+          message: `${progress.phase === 'parsing' ? 'Parsing' : progress.phase === 'validating' ? 'Validating' : 'Processing'} file...`
+        }));
+      }, parseOptions, privacyPolicy);
+      
+      // Let the user confirm the header row when the sheet had rows above or around the table
+      if (needsHeaderReview(result)) {
+        setPendingUpload({ file, datasetId: result.datasetId, result });
+        setUploadState({ status: 'review', progress: 40, phase: 'validating' });
+        return;
+      }
+      
+      await importParsedFile(file, result);
+    } catch (error) {
+      failUpload(error);
+    }
+  }, [importParsedFile, streamUpload, failUpload, locale, ingestionMode, privacyPolicy]);
 
-      // Add to store with detailed summary
-      addDataset({
-        id: result.datasetId,
-        name: file.name.replace(/\.[^/.]+$/, ''),
-        uploadedAt: new Date().toISOString(),
-        summary: detailedSummary,
-      });
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    await parseUpload(file);
+  }, [parseUpload]);
+
+  const handleApplyHeaderRows = async (headerRows: Record<string, number>) => {
+    if (!pendingUpload) return;
+    const { file } = pendingUpload;
+    setPendingUpload(null);
+    // Streamed sheets are already in DuckDB; clear them before loading with the new header rows
+    if ('streamed' in pendingUpload) {
+      await dropTables(Object.values(pendingUpload.streamed.tableNames)).catch(console.error);
+    }
+    parseUpload(file, { headerRows });
+  };
 
-      // Store table names in global state for later use
-      const tables = tableNames.map(name => ({ name, datasetId: result.datasetId }));
-      localStorage.setItem(`dataset_${result.datasetId}_tables`, JSON.stringify(tables));
+  const handleConfirmImport = () => {
+    if (!pendingUpload) return;
+    setPendingUpload(null);
+    if ('streamed' in pendingUpload) {
+      importStreamedFile(pendingUpload.file, pendingUpload.datasetId, pendingUpload.streamed);
+    } else {
+      importParsedFile(pendingUpload.file, pendingUpload.result);
+    }
+  };
 
-      // Add audit event with warnings
-      const totalRows = detailedSummary.tables.reduce((acc, t) => acc + t.rows, 0);
+  const handleMerge = async (plan: MergePlan) => {
+    if (!pendingMerge) return;
+    const { file, target, mode, stagedTables, datasetType, warnings } = pendingMerge;
+    setPendingMerge(null);
+    setUploadState({
+      status: 'uploading',
+      progress: 90,
+      phase: 'processing',
+      message: mode === 'append' ? 'Appending rows...' : 'Upserting rows...',
+      warnings
+    });
+    
+    try {
+      const result = await mergeTables(plan);
+      await dropTables(stagedTables);
+      
+      const summary = await generateDatasetSummary(getDatasetTables(target.id), datasetType);
+      const mergedAt = new Date().toISOString();
+      updateDataset(target.id, { uploadedAt: mergedAt, summary });
+      setCurrentDataset(target.id);
+      
+      const columns = Object.entries(plan.mapping)
+        .filter(([, source]) => source)
+        .map(([column, source]) => column === source ? column : `${column} ← ${source}`);
       addAuditEvent({
         id: `upload_${Date.now()}`,
-        at: new Date().toISOString(),
-        summary: `Uploaded dataset: ${file.name}`,
-        detail: `${detailedSummary.tables.length} tables created, ${totalRows} total rows${warnings.length > 0 ? `. Warnings: ${warnings.join('; ')}` : ''}`,
+        at: mergedAt,
+        summary: mode === 'append'
+          ? `Appended ${file.name} to ${target.name}`
+          : `Upserted ${file.name} into ${target.name} on ${plan.keyColumn}`,
+        detail: `${plan.targetTable}: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped as duplicate or unchanged. Columns: ${columns.join(', ')}`,
         category: 'upload'
       });
-
-      // Reset after delay
+      
+      setUploadState({
+        status: 'success',
+        progress: 100,
+        phase: 'complete',
+        warnings: warnings.length > 0 ? warnings : undefined
+      });
       setTimeout(() => {
         setUploadState({ status: 'idle', progress: 0 });
+        onComplete?.();
       }, 3000);
-
     } catch (error) {
-      console.error('Upload error:', error);
-      setUploadState({
-        status: 'error',
-        progress: 0,
-        error: error instanceof Error ? error.message : 'Failed to upload file. Please try again.',
-      });
+      await dropTables(stagedTables).catch(console.error);
+      failUpload(error);
+    }
+  };
+
+  const handleCancelMerge = async () => {
+    if (pendingMerge) {
+      await dropTables(pendingMerge.stagedTables).catch(console.error);
+    }
+    setPendingMerge(null);
+    setUploadState({ status: 'idle', progress: 0 });
+  };
+
+  const handleCancelReview = async () => {
+    if (pendingUpload && 'streamed' in pendingUpload) {
+      await dropTables(Object.values(pendingUpload.streamed.tableNames)).catch(console.error);
     }
-  }, [addDataset, addAuditEvent]);
+    setPendingUpload(null);
+    setUploadState({ status: 'idle', progress: 0 });
+  };
 
   const { getRootProps, getInputProps, isDragActive, acceptedFiles } = useDropzone({
     onDrop,
@@ -176,9 +490,13 @@ export function FileUploader() {
       'application/vnd.ms-excel.sheet.macroEnabled.12': ['.xlsm'],
       'application/json': ['.json'],
       'application/pdf': ['.pdf'],
+      'application/x-ofx': ['.ofx'],
+      'application/vnd.intu.qfx': ['.qfx'],
+      'application/qif': ['.qif'],
+      'application/xml': ['.xml'],
     },
     maxFiles: 1,
-    disabled: uploadState.status === 'uploading',
+    disabled: uploadState.status === 'uploading' || uploadState.status === 'review' || uploadState.status === 'merge',
   });
 
   const getFileIcon = (fileName: string) => {
@@ -306,7 +624,11 @@ export function FileUploader() {
               </Badge>
               <Badge variant="secondary" className="bg-muted/60 text-muted-foreground">
                 <FileText className="h-3 w-3 mr-1" />
-                PDF
+                PDF{ingestionMode === 'local' ? ' (server only)' : ''}
+              </Badge>
+              <Badge variant="secondary" className="bg-muted/60 text-muted-foreground">
+                <FileText className="h-3 w-3 mr-1" />
+                OFX / QIF / CAMT
               </Badge>
             </div>
             
@@ -319,21 +641,89 @@ export function FileUploader() {
   return (
     <Card className="w-full max-w-2xl mx-auto border-border/50 shadow-sm">
       <CardContent className="p-10">
-        <div
-          {...getRootProps()}
-          className={`
-            relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all duration-200
-            ${isDragActive 
-              ? 'border-primary bg-primary/5 ring-4 ring-primary/10' 
-              : 'border-border hover:border-border/80 hover:bg-muted/30'
-            }
-            ${uploadState.status !== 'idle' ? 'pointer-events-none' : ''}
-          `}
-        >
-          <div className="pointer-events-none absolute inset-0 rounded-xl bg-gradient-to-br from-transparent to-primary/5" />
-          <input {...getInputProps()} />
-          {getUploadContent()}
-        </div>
+        {uploadState.status === 'review' && pendingUpload ? (
+          <HeaderRowPreview
+            sheets={('streamed' in pendingUpload ? pendingUpload.streamed.sheets : pendingUpload.result.sheets) || []}
+            onApply={handleApplyHeaderRows}
+            onConfirm={handleConfirmImport}
+            onCancel={handleCancelReview}
+          />
+        ) : uploadState.status === 'merge' && pendingMerge ? (
+          <MergeReview
+            datasetName={pendingMerge.target.name}
+            mode={pendingMerge.mode}
+            stagedTables={pendingMerge.stagedTables}
+            targetTables={getDatasetTables(pendingMerge.target.id)}
+            onMerge={handleMerge}
+            onCancel={handleCancelMerge}
+          />
+        ) : (
+          <div
+            {...getRootProps()}
+            className={`
+              relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all duration-200
+              ${isDragActive 
+                ? 'border-primary bg-primary/5 ring-4 ring-primary/10' 
+                : 'border-border hover:border-border/80 hover:bg-muted/30'
+              }
+              ${uploadState.status !== 'idle' ? 'pointer-events-none' : ''}
+            `}
+          >
+            <div className="pointer-events-none absolute inset-0 rounded-xl bg-gradient-to-br from-transparent to-primary/5" />
+            <input {...getInputProps()} />
+            {getUploadContent()}
+          </div>
+        )}
+        
+        {uploadState.status === 'idle' && datasets.length > 0 && (
+          <div className="mt-4 flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <span>Import as</span>
+            <Select value={importTarget} onValueChange={setImportTarget}>
+              <SelectTrigger className="w-[260px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">New dataset</SelectItem>
+                {datasets.flatMap(dataset => [
+                  <SelectItem key={`version:${dataset.id}`} value={`version:${dataset.id}`}>
+                    New version of {dataset.name}
+                  </SelectItem>,
+                  <SelectItem key={`append:${dataset.id}`} value={`append:${dataset.id}`}>
+                    Append to {dataset.name}
+                  </SelectItem>,
+                  <SelectItem key={`upsert:${dataset.id}`} value={`upsert:${dataset.id}`}>
+                    Upsert into {dataset.name}
+                  </SelectItem>
+                ])}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        {uploadState.status === 'idle' && (
+          <div className="mt-4 flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <Switch
+              id="ingestion-mode"
+              checked={ingestionMode === 'local'}
+              onCheckedChange={handleIngestionModeChange}
+            />
+            <Label htmlFor="ingestion-mode" className="mr-4 font-normal">Keep data in this browser</Label>
+            <span>Number &amp; date format</span>
+            <Select value={locale} onValueChange={setLocale}>
+              <SelectTrigger className="w-[180px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Auto-detect</SelectItem>
+                {Object.entries(LOCALE_PRESETS).map(([code, preset]) => (
+                  <SelectItem key={code} value={code}>
+                    {code} (1{preset.thousandsSeparator ?? ''}234{preset.decimalSeparator}56, {preset.dateOrder})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { Rows3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { SheetRegionMetadata } from '@/lib/fileParser';
+
+interface HeaderRowPreviewProps {
+  sheets: Array<{ name: string; metadata?: { region?: SheetRegionMetadata } }>;
+  /** Called with 0-based header row indexes for the sheets the user changed */
+  onApply: (headerRows: Record<string, number>) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  title: 'title',
+  blank: 'blank',
+  subtotal: 'subtotal',
+  total: 'total',
+  group_header: 'section heading',
+  footer: 'footer'
+};
+
+export function HeaderRowPreview({ sheets, onApply, onConfirm, onCancel }: HeaderRowPreviewProps) {
+  const reviewable = sheets.filter(sheet => sheet.metadata?.region);
+  const [selected, setSelected] = useState<Record<string, number>>(() =>
+    Object.fromEntries(reviewable.map(sheet => [sheet.name, sheet.metadata!.region!.headerRow]))
+  );
+
+  const changed = reviewable.filter(sheet => selected[sheet.name] !== sheet.metadata!.region!.headerRow);
+
+  const handleApply = () => {
+    onApply(Object.fromEntries(changed.map(sheet => [sheet.name, selected[sheet.name] - 1])));
+  };
+
+  return (
+    <div className="space-y-6 text-left">
+      <div className="flex items-start gap-3">
+        <Rows3 className="h-5 w-5 text-primary mt-0.5" />
+        <div>
+          <p className="font-medium text-foreground">Check the detected header row</p>
+          <p className="text-sm text-muted-foreground">
+            Some rows above or around the table were skipped. Click a row to use it as the header instead.
+          </p>
+        </div>
+      </div>
+
+      {reviewable.map(sheet => {
+        const region = sheet.metadata!.region!;
+        const skippedCounts = region.skippedRows.reduce<Record<string, number>>((acc, row) => {
+          acc[row.reason] = (acc[row.reason] || 0) + 1;
+          return acc;
+        }, {});
+
+        return (
+          <div key={sheet.name} className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold">{sheet.name}</span>
+              <Badge variant="secondary" className="bg-muted/60">
+                Header row {selected[sheet.name]}
+              </Badge>
+              <Badge variant="outline">
+                {Math.round(region.confidence * 100)}% confidence
+              </Badge>
+              {Object.entries(skippedCounts).map(([reason, count]) => (
+                <Badge key={reason} variant="outline" className="text-muted-foreground">
+                  {count} {REASON_LABELS[reason] || reason} skipped
+                </Badge>
+              ))}
+            </div>
+
+            <ScrollArea className="max-h-64 rounded-lg border border-border/60">
+              <table className="w-full text-xs">
+                <tbody>
+                  {region.previewRows.map((row, index) => {
+                    const rowNumber = index + 1;
+                    const isHeader = rowNumber === selected[sheet.name];
+                    const skipped = region.skippedRows.find(s => s.row === rowNumber);
+                    return (
+                      <tr
+                        key={rowNumber}
+                        onClick={() => setSelected(prev => ({ ...prev, [sheet.name]: rowNumber }))}
+                        className={`cursor-pointer border-b border-border/40 transition-colors ${
+                          isHeader
+                            ? 'bg-primary/10 font-semibold'
+                            : skipped
+                              ? 'text-muted-foreground/60 hover:bg-muted/40'
+                              : 'hover:bg-muted/40'
+                        }`}
+                      >
+                        <td className="px-2 py-1 text-muted-foreground w-10 text-right">{rowNumber}</td>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="px-2 py-1 truncate max-w-[140px]">{cell}</td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+        {changed.length > 0 ? (
+          <Button onClick={handleApply}>Re-parse with selected header</Button>
+        ) : (
+          <Button onClick={onConfirm}>Import</Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getTableColumns } from '@/lib/clientDatabase';
+import {
+  suggestColumnMapping,
+  previewMerge,
+  type MergeMode,
+  type MergePlan,
+  type MergePreview
+} from '@/lib/tableMerge';
+
+interface MergeReviewProps {
+  datasetName: string;
+  mode: MergeMode;
+  /** Tables the uploaded file was loaded into */
+  stagedTables: string[];
+  /** Current tables of the dataset being merged into */
+  targetTables: string[];
+  onMerge: (plan: MergePlan) => void;
+  onCancel: () => void;
+}
+
+// Select items can't have an empty value
+const UNMAPPED = '__none__';
+
+const KEY_NAME_PATTERN = /(^|_)(id|key|code|sku|number|no|ref)$/i;
+
+export function MergeReview({ datasetName, mode, stagedTables, targetTables, onMerge, onCancel }: MergeReviewProps) {
+  const [sourceTable, setSourceTable] = useState(stagedTables[0]);
+  const [targetTable, setTargetTable] = useState(targetTables[0]);
+  const [sourceColumns, setSourceColumns] = useState<string[]>([]);
+  const [targetColumns, setTargetColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [keyColumn, setKeyColumn] = useState<string>('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getTableColumns(sourceTable), getTableColumns(targetTable)])
+      .then(([source, target]) => {
+        if (cancelled) return;
+        const sourceNames = Object.keys(source);
+        const targetNames = Object.keys(target);
+        const suggested = suggestColumnMapping(targetNames, sourceNames);
+        setSourceColumns(sourceNames);
+        setTargetColumns(targetNames);
+        setMapping(suggested);
+        setKeyColumn(targetNames.find(col => suggested[col] && KEY_NAME_PATTERN.test(col)) ?? '');
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to read tables'));
+    return () => { cancelled = true; };
+  }, [sourceTable, targetTable]);
+
+  const plan: MergePlan = {
+    sourceTable,
+    targetTable,
+    mode,
+    mapping,
+    keyColumn: keyColumn || undefined,
+    skipDuplicates
+  };
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+  const ready = mappedCount > 0 && (mode === 'append' || (!!keyColumn && !!mapping[keyColumn]));
+
+  useEffect(() => {
+    if (mappedCount === 0 || (keyColumn && !mapping[keyColumn])) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    previewMerge({ sourceTable, targetTable, mode, mapping, keyColumn: keyColumn || undefined, skipDuplicates })
+      .then(result => !cancelled && setPreview(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to preview merge'));
+    return () => { cancelled = true; };
+  }, [sourceTable, targetTable, mode, mapping, keyColumn, skipDuplicates, mappedCount]);
+
+  const unusedSource = sourceColumns.filter(col => !Object.values(mapping).includes(col));
+
+  return (
+    <div className="space-y-6 text-left">
+      <div className="flex items-start gap-3">
+        <GitMerge className="h-5 w-5 text-primary mt-0.5" />
+        <div>
+          <p className="font-medium text-foreground">
+            {mode === 'append' ? 'Append to' : 'Upsert into'} {datasetName}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {mode === 'append'
+              ? 'Rows from the file are added to the table. Match each column to one from the file.'
+              : 'Rows whose key already exists are updated; the rest are added. Match each column to one from the file.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {stagedTables.length > 1 && (
+          <Select value={sourceTable} onValueChange={setSourceTable}>
+            <SelectTrigger className="w-[200px] h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {stagedTables.map(table => <SelectItem key={table} value={table}>{table}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <span className="text-muted-foreground">into</span>
+        <Select value={targetTable} onValueChange={setTargetTable}>
+          <SelectTrigger className="w-[240px] h-8"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {targetTables.map(table => <SelectItem key={table} value={table}>{table}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {mode === 'upsert' && (
+          <>
+            <span className="ml-2 text-muted-foreground">Key</span>
+            <Select value={keyColumn} onValueChange={setKeyColumn}>
+              <SelectTrigger className="w-[180px] h-8"><SelectValue placeholder="Choose column" /></SelectTrigger>
+              <SelectContent>
+                {targetColumns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border/60 divide-y divide-border/40 max-h-64 overflow-auto">
+        {targetColumns.map(col => (
+          <div key={col} className="flex items-center justify-between gap-4 px-3 py-1.5 text-sm">
+            <span className="font-medium truncate">{col}</span>
+            <Select
+              value={mapping[col] ?? UNMAPPED}
+              onValueChange={value => setMapping(prev => ({ ...prev, [col]: value === UNMAPPED ? null : value }))}
+            >
+              <SelectTrigger className="w-[220px] h-7"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>{mode === 'append' ? 'Leave empty' : 'Keep existing value'}</SelectItem>
+                {sourceColumns.map(source => <SelectItem key={source} value={source}>{source}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {unusedSource.length > 0 && (
+        <p className="text-xs text-muted-foreground">Not imported: {unusedSource.join(', ')}</p>
+      )}
+
+      {mode === 'append' && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="skip-duplicates"
+            checked={skipDuplicates}
+            onCheckedChange={checked => setSkipDuplicates(checked === true)}
+          />
+          <Label htmlFor="skip-duplicates" className="font-normal">Skip rows already in the table</Label>
+        </div>
+      )}
+
+      {error ? (
+        <Alert variant="destructive"><AlertDescription>{error}</AlertDescription></Alert>
+      ) : preview ? (
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="secondary">{preview.incomingRows.toLocaleString()} rows in file</Badge>
+          {preview.duplicateRows > 0 && (
+            <Badge variant="outline">{preview.duplicateRows.toLocaleString()} identical to existing rows</Badge>
+          )}
+          {mode === 'upsert' && (
+            <Badge variant="outline">{preview.matchingKeys.toLocaleString()} existing keys</Badge>
+          )}
+          {preview.repeatedKeys > 0 && (
+            <Badge variant="destructive">{preview.repeatedKeys.toLocaleString()} keys repeated in file</Badge>
+          )}
+          {mode === 'upsert' && preview.missingKeys > 0 && (
+            <Badge variant="destructive">{preview.missingKeys.toLocaleString()} rows without a key will be skipped</Badge>
+          )}
+        </div>
+      ) : (
+        mappedCount > 0 && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onMerge(plan)} disabled={!ready}>
+          {mode === 'append' ? 'Append rows' : 'Upsert rows'}
+        </Button>
+      </div>
+    </div>
+  );
+}
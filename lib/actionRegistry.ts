@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { BUILTIN_ACTIONS } from './builtinActions';
+import { saveArtifact, type StoredFile } from './artifactStore';
+import { validateAgainstSchema, type ToolContext, type ToolDefinition } from './toolRegistry';
+import { issueApproval, redeemApproval } from './toolPolicy';
+import type { ActionRecord, ActionSuggestion, Artifact, AuditEvent, PendingAction, ToolSideEffect } from '@/types';
+
+/**
+ * An action a Quick Actions chip runs over /api/actions/[actionId]. The
+ * dataset lives in the browser, so an action that needs rows returns its
+ * query first; the browser runs it in DuckDB and calls again with the rows.
+ */
+export interface ActionDefinition<Params = any> {
+  /** snake_case id used in the URL and ActionSuggestion.action */
+  id: string;
+  label: string;
+  description: string;
+  category: ActionSuggestion['category'];
+  /** JSON Schema of the params, sent to clients as ActionSuggestion.paramsSchema */
+  paramsSchema: ToolDefinition['inputSchema'];
+  sideEffect: ToolSideEffect;
+  /** Read-only SQL over the dataset selecting the rows the action works on */
+  query?: (params: Params) => string;
+  /** What the user reviews before an irreversible action runs */
+  preview?: (params: Params, rows: Record<string, any>[]) => Pick<PendingAction, 'title' | 'fields' | 'html'>;
+  run: (params: Params, rows: Record<string, any>[], context: ToolContext) => Promise<ActionOutput>;
+}
+
+export interface ActionOutput {
+  /** One line for the chat and the audit log */
+  summary: string;
+  /** What the tools reported, e.g. who an email went to */
+  content?: string;
+  files: StoredFile[];
+}
+
+export interface ActionRequest {
+  params: Record<string, any>;
+  /** Rows selected by the action's query, once the browser has run it */
+  rows?: Record<string, any>[];
+  datasetId?: string;
+  /** The approvalId of the preview, for irreversible actions */
+  approval?: string;
+  context?: ToolContext;
+}
+
+export type ActionRun =
+  | { status: 'needs_data'; sql: string }
+  | { status: 'needs_approval'; preview: PendingAction }
+  | { status: 'done'; artifacts: Artifact[]; audit: AuditEvent; content?: string }
+  | { status: 'failed'; error: string; audit?: AuditEvent };
+
+const registry = new Map<string, ActionDefinition>();
+
+export function registerAction(action: ActionDefinition): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(action.id)) {
+    throw new Error(`Action id ${action.id} must be snake_case`);
+  }
+  if (registry.has(action.id)) {
+    throw new Error(`Action ${action.id} is already registered`);
+  }
+  registry.set(action.id, action);
+}
+
+export function getAction(id: string): ActionDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listActions(): ActionDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Take an action one step: ask for its rows, hold it for approval, or run
+ * it, store what it produces and describe the run in an audit event. Runs
+ * that fail after their input is known are audited too.
+ */
+export async function runAction(id: string, request: ActionRequest): Promise<ActionRun> {
+  const action = getAction(id);
+  if (!action) {
+    return { status: 'failed', error: `Unknown action: ${id}` };
+  }
+  const invalid = validateAgainstSchema(action.id, action.paramsSchema, request.params);
+  if (invalid) {
+    return { status: 'failed', error: invalid };
+  }
+
+  const sql = action.query?.(request.params);
+  if (sql && !Array.isArray(request.rows)) {
+    return { status: 'needs_data', sql };
+  }
+  const rows = request.rows ?? [];
+
+  // Irreversible actions run once per approval of their preview, and only on the params and rows previewed
+  const approved = action.sideEffect === 'irreversible' && !!request.approval;
+  if (action.sideEffect === 'irreversible') {
+    if (!request.approval) {
+      const preview = action.preview?.(request.params, rows) ?? { title: action.label, fields: [] };
+      return {
+        status: 'needs_approval',
+        preview: {
+          toolUseId: `action_${Date.now()}`,
+          tool: action.id,
+          sideEffect: action.sideEffect,
+          input: request.params,
+          ...preview,
+          approvalId: issueApproval(action.id, request.params, rows)
+        }
+      };
+    }
+    const problem = await redeemApproval(request.approval, action.id, request.params, rows);
+    if (problem) {
+      return { status: 'failed', error: problem };
+    }
+  }
+
+  const record: ActionRecord = {
+    actionId: action.id,
+    params: request.params,
+    datasetId: request.datasetId,
+    sql,
+    rowCount: rows.length,
+    rowsSha256: createHash('sha256').update(JSON.stringify(rows)).digest('hex'),
+    approved,
+    output: { artifacts: [] }
+  };
+
+  try {
+    const output = await action.run(request.params, rows, request.context ?? {});
+    const artifacts = await Promise.all(output.files.map(file => saveArtifact(file)));
+    record.output = { content: output.content, artifacts };
+    return {
+      status: 'done',
+      artifacts,
+      content: output.content,
+      audit: auditEvent(action, output.summary, record)
+    };
+  } catch (error) {
+    console.error(`Action ${action.id} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Action failed';
+    record.output = { error: message, artifacts: [] };
+    return { status: 'failed', error: message, audit: auditEvent(action, `${action.label} failed`, record) };
+  }
+}
+
+function auditEvent(action: ActionDefinition, summary: string, record: ActionRecord): AuditEvent {
+  return {
+    id: `action_${Date.now()}_${action.id}`,
+    at: new Date().toISOString(),
+    summary,
+    detail: [
+      `Params: ${JSON.stringify(record.params)}`,
+      record.sql ? `Query: ${record.sql}` : null,
+      `Rows: ${record.rowCount} (sha256 ${record.rowsSha256})`,
+      record.output.content ? `Result: ${record.output.content}` : null,
+      record.output.error ? `Error: ${record.output.error}` : null
+    ].filter(Boolean).join('\n'),
+    artifacts: record.output.artifacts,
+    category: action.category === 'export' ? 'export' : 'action',
+    action: record
+  };
+}
+
+for (const action of BUILTIN_ACTIONS) {
+  registerAction(action);
+}
@@ -1,6 +1,9 @@
-import { DatasetSummary, TablePreview, ChatMessage, ActionSuggestion, Artifact, AuditEvent } from '@/types';
+import { DatasetSummary, TablePreview, ChatMessage, ActionSuggestion, Artifact, AuditEvent, DatasetType, PrivacyPolicy, PendingAction } from '@/types';
 import { getTablePreview } from './database';
-import type { ParseProgress } from './fileParser';
+import { executeQuery } from './clientDatabase';
+import { guardQuery } from './sqlGuard';
+import { withoutBlockedColumns } from './redaction';
+import type { ParseProgress, ParseOptions } from './fileParser';
 
 // Mock data for development
 const mockTables = {
@@ -51,7 +54,9 @@ const mockTables = {
 class ApiService {
   async uploadFile(
     file: File, 
-    onProgress?: (progress: ParseProgress) => void
+    onProgress?: (progress: ParseProgress) => void,
+    options?: ParseOptions,
+    privacy?: PrivacyPolicy
   ): Promise<{ 
     datasetId: string; 
     summary: DatasetSummary; 
@@ -65,6 +70,12 @@ class ApiService {
   }> {
     const formData = new FormData();
     formData.append('file', file);
+    if (options) {
+      formData.append('options', JSON.stringify(options));
+    }
+    if (privacy) {
+      formData.append('privacy', JSON.stringify(privacy));
+    }
     
     // Simulate progress for upload (since we can't track server-side parsing progress via fetch)
     if (onProgress) {
@@ -91,6 +102,29 @@ class ApiService {
     return result;
   }
 
+  /**
+   * Classify a dataset from its headers and a few sample rows, for uploads
+   * parsed in the browser
+   */
+  async classifyDataset(
+    sheets: Array<{ name: string; headers: string[]; sample: any[] }>,
+    privacy?: PrivacyPolicy
+  ): Promise<DatasetType> {
+    try {
+      const response = await fetch('/api/upload/classify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sheets, privacy }),
+      });
+      if (!response.ok) return 'general';
+      const { type } = await response.json();
+      return type || 'general';
+    } catch (error) {
+      console.error('Dataset classification failed:', error);
+      return 'general';
+    }
+  }
+
   async getTables(datasetId: string): Promise<{ tables: TablePreview[] }> {
     const response = await fetch(`/api/tables/${datasetId}`);
     
@@ -184,59 +218,62 @@ These represent 81.6% of your total overdue amount. I recommend immediate action
     };
   }
 
-  async executeAction(actionId: string, params?: any): Promise<{
+  /**
+   * Run a registered action. Rows it asks for are selected here, in the
+   * browser's DuckDB, without blocked columns; irreversible actions wait
+   * for `approve`. Resolves to null when the user rejects the action.
+   * Aborting `signal` rejects with the fetch's AbortError.
+   */
+  async executeAction(actionId: string, request: {
+    datasetId: string;
+    params: Record<string, any>;
+    /** Tables of the dataset the action's query may read */
+    tables: string[];
+    privacy?: PrivacyPolicy;
+    approve: (preview: PendingAction) => Promise<boolean>;
+    signal?: AbortSignal;
+  }): Promise<{
     artifacts: Artifact[];
-    audit: AuditEvent;
-  }> {
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    const mockArtifacts: Artifact[] = [];
-    let summary = '';
-
-    switch (actionId) {
-      case 'draft_reminders':
-        mockArtifacts.push({
-          kind: 'pdf',
-          name: 'Payment_Reminder_TechCorp.pdf',
-          url: '/mock/reminder_techcorp.pdf',
-          size: 245760
-        });
-        summary = 'Generated 2 payment reminder emails for overdue vendors';
-        break;
-      
-      case 'export_overdue_csv':
-        mockArtifacts.push({
-          kind: 'csv',
-          name: 'Overdue_Vendors_Report.csv',
-          url: '/mock/overdue_vendors.csv',
-          size: 1024
-        });
-        summary = 'Exported overdue vendors list to CSV';
-        break;
-      
-      case 'create_voucher':
-        mockArtifacts.push({
-          kind: 'pdf',
-          name: 'Journal_Voucher_JV2024001.pdf',
-          url: '/mock/voucher_jv2024001.pdf',
-          size: 128000
-        });
-        summary = 'Created journal voucher JV2024001';
-        break;
-      
-      default:
-        summary = `Executed action: ${actionId}`;
-    }
-
-    const audit: AuditEvent = {
-      id: `audit_${Date.now()}`,
-      at: new Date().toISOString(),
-      summary,
-      artifacts: mockArtifacts,
-      category: 'action'
+    audit?: AuditEvent;
+    content?: string;
+    error?: string;
+  } | null> {
+    const post = async (body: Record<string, any>) => {
+      const response = await fetch(`/api/actions/${encodeURIComponent(actionId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          datasetId: request.datasetId,
+          params: request.params,
+          privacy: request.privacy,
+          ...body
+        }, (_key, value) => typeof value === 'bigint' ? Number(value) : value),
+        signal: request.signal
+      });
+      const data = await response.json().catch(() => ({ error: response.statusText }));
+      return { response, data };
     };
 
-    return { artifacts: mockArtifacts, audit };
+    let { response, data } = await post({});
+    let rows: any[] | undefined;
+    if (data.status === 'needs_data') {
+      const query = await guardQuery(data.sql, { tables: request.tables });
+      // Actions work on every row they select, not the first page of them
+      const result = await executeQuery(query.statement);
+      rows = withoutBlockedColumns(result.toArray().map((row: any) => ({ ...row })), request.privacy);
+      ({ response, data } = await post({ rows }));
+    }
+    if (response.status === 409 && data.preview) {
+      if (!(await request.approve(data.preview))) {
+        return null;
+      }
+      ({ response, data } = await post({ rows, approval: data.preview.approvalId }));
+    }
+
+    if (!response.ok) {
+      return { artifacts: [], audit: data.audit, error: data.error || 'Action failed' };
+    }
+    return { artifacts: data.artifacts ?? [], audit: data.audit, content: data.content };
   }
 }
 
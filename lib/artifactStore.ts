@@ -0,0 +1,405 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Artifact } from '@/types';
+
+/**
+ * Files produced on the server (reports, invoices, exports, the emails
+ * actions send), kept so chat messages and audit events can link to them
+ * long after the response that made them. Each file gets a stable
+ * /api/artifacts/[id] URL and a SHA-256 of its content, which is checked
+ * whenever it is read back.
+ *
+ * The same store records which single-use tokens have been redeemed, so
+ * an approval or a paused agent run is acted on once.
+ *
+ * Files live on the local filesystem by default. Set ARTIFACT_BACKEND=s3 to
+ * use an S3-compatible store instead, or pass another ArtifactBackend to
+ * setArtifactBackend.
+ */
+
+export interface StoredFile {
+  data: Buffer | Blob | string;
+  filename: string;
+  mimetype: string;
+}
+
+export interface ArtifactMeta {
+  id: string;
+  name: string;
+  mimetype: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+  /** Absent when the file is kept until deleted by hand */
+  expiresAt?: string;
+}
+
+/**
+ * Where artifact content and metadata are kept
+ */
+export interface ArtifactBackend {
+  readonly name: string;
+  put(meta: ArtifactMeta, data: Buffer): Promise<void>;
+  /** The artifact, or null when there is none with that id */
+  get(id: string): Promise<{ meta: ArtifactMeta; data: Buffer } | null>;
+  delete(id: string): Promise<void>;
+  /**
+   * Metadata of every artifact, for retention sweeps. Stores that expire
+   * objects themselves, such as S3 with a lifecycle rule, can leave it out;
+   * expired artifacts are still refused when read.
+   */
+  list?(): Promise<ArtifactMeta[]>;
+  /**
+   * Record a key unless it already is, in one atomic step, so single-use
+   * tokens are honoured once across server processes. Resolves to false
+   * when the key was recorded before. Records may be dropped after
+   * `expiresAt`. Without it claims are only kept in this process.
+   */
+  claim?(key: string, expiresAt: string): Promise<boolean>;
+  /** Drop claims past their expiry; returns how many were dropped */
+  sweepClaims?(): Promise<number>;
+}
+
+export interface S3Config {
+  /** e.g. https://s3.us-east-1.amazonaws.com, or a MinIO or R2 endpoint */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Key prefix, e.g. "artifacts/" */
+  prefix?: string;
+}
+
+// Days a file is kept unless the caller says otherwise; 0 keeps files until deleted
+const DEFAULT_RETENTION_DAYS = 30;
+// Expired files are swept on save, at most this often
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const ARTIFACT_ID = /^[0-9a-f-]{36}$/;
+const CLAIM_KEY = /^[\w-]{1,128}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let backend: ArtifactBackend | null = null;
+let lastSweep = 0;
+// Claims of backends that can't record them, by key, with their expiry
+const localClaims = new Map<string, number>();
+
+/**
+ * Keep files on the local disk, one content file and one metadata file per
+ * artifact
+ */
+export class FileSystemBackend implements ArtifactBackend {
+  readonly name = 'filesystem';
+
+  constructor(private readonly dir: string) {}
+
+  async put(meta: ArtifactMeta, data: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, meta.id), data);
+    // Metadata last, so a half-written artifact is never listed
+    await writeFile(join(this.dir, `${meta.id}.json`), JSON.stringify(meta));
+  }
+
+  async get(id: string): Promise<{ meta: ArtifactMeta; data: Buffer } | null> {
+    try {
+      const meta: ArtifactMeta = JSON.parse(await readFile(join(this.dir, `${id}.json`), 'utf8'));
+      return { meta, data: await readFile(join(this.dir, id)) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(join(this.dir, `${id}.json`), { force: true });
+    await rm(join(this.dir, id), { force: true });
+  }
+
+  async list(): Promise<ArtifactMeta[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const metas = await Promise.all(names.filter(name => name.endsWith('.json')).map(async name => {
+      try {
+        return JSON.parse(await readFile(join(this.dir, name), 'utf8')) as ArtifactMeta;
+      } catch {
+        return null;
+      }
+    }));
+    return metas.filter((meta): meta is ArtifactMeta => meta !== null);
+  }
+
+  async claim(key: string, expiresAt: string): Promise<boolean> {
+    await mkdir(join(this.dir, 'claims'), { recursive: true });
+    try {
+      // 'wx' fails when the file exists, so only one caller creates it
+      await writeFile(join(this.dir, 'claims', key), expiresAt, { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  async sweepClaims(): Promise<number> {
+    const dir = join(this.dir, 'claims');
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+    let swept = 0;
+    for (const name of names) {
+      const expiresAt = await readFile(join(dir, name), 'utf8').catch(() => '');
+      if (new Date(expiresAt).getTime() <= Date.now()) {
+        await rm(join(dir, name), { force: true });
+        swept++;
+      }
+    }
+    return swept;
+  }
+}
+
+/**
+ * Keep files in an S3-compatible bucket, signed with AWS Signature V4 and
+ * addressed path-style so MinIO, R2 and the like work too. Metadata sits
+ * next to each file as <id>.json.
+ */
+export class S3Backend implements ArtifactBackend {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  async put(meta: ArtifactMeta, data: Buffer): Promise<void> {
+    await this.request('PUT', meta.id, data);
+    await this.request('PUT', `${meta.id}.json`, Buffer.from(JSON.stringify(meta), 'utf8'));
+  }
+
+  async get(id: string): Promise<{ meta: ArtifactMeta; data: Buffer } | null> {
+    const metaResponse = await this.request('GET', `${id}.json`);
+    if (metaResponse.status === 404) return null;
+    const meta: ArtifactMeta = await metaResponse.json();
+    const dataResponse = await this.request('GET', id);
+    if (dataResponse.status === 404) return null;
+    return { meta, data: Buffer.from(await dataResponse.arrayBuffer()) };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('DELETE', `${id}.json`);
+    await this.request('DELETE', id);
+  }
+
+  // A conditional PUT that fails with 412 when the object exists; drop old claims with a lifecycle rule on claims/
+  async claim(key: string, expiresAt: string): Promise<boolean> {
+    const response = await this.request('PUT', `claims/${key}`, Buffer.from(expiresAt, 'utf8'), { 'If-None-Match': '*' });
+    return response.status !== 412;
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey, prefix = '' } = this.config;
+    const url = new URL(`${endpoint.replace(/\/+$/, '')}/${bucket}/${prefix}${key}`);
+    const now = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const day = now.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${now}\n`,
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', now, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = [day, region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${secretAccessKey}`);
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...extraHeaders,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': now,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${hmac(signingKey, stringToSign).toString('hex')}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 412) {
+      throw new Error(`S3 ${method} ${key} failed with ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Use another store in place of the one configured by the environment
+ */
+export function setArtifactBackend(store: ArtifactBackend): void {
+  backend = store;
+}
+
+/**
+ * Store a file and return an Artifact linking to it. Files expire after
+ * `retentionDays`, which defaults to ARTIFACT_RETENTION_DAYS.
+ */
+export async function saveArtifact(file: StoredFile, options: { retentionDays?: number } = {}): Promise<Artifact> {
+  const data = await toBuffer(file.data);
+  const createdAt = new Date();
+  const retentionDays = options.retentionDays ?? retentionSetting();
+  const meta: ArtifactMeta = {
+    id: randomUUID(),
+    name: file.filename,
+    mimetype: file.mimetype,
+    size: data.length,
+    sha256: sha256(data),
+    createdAt: createdAt.toISOString(),
+    expiresAt: retentionDays > 0 ? new Date(createdAt.getTime() + retentionDays * DAY_MS).toISOString() : undefined
+  };
+  await artifactBackend().put(meta, data);
+
+  if (Date.now() - lastSweep > SWEEP_INTERVAL_MS) {
+    lastSweep = Date.now();
+    sweepExpiredArtifacts().catch(error => console.error('Artifact retention sweep failed:', error));
+  }
+  return toArtifact(meta);
+}
+
+/**
+ * A stored file and its metadata, or null for unknown and expired ids.
+ * Throws when the content no longer matches its hash.
+ */
+export async function readArtifact(id: string): Promise<{ meta: ArtifactMeta; data: Buffer } | null> {
+  if (!ARTIFACT_ID.test(id)) return null;
+  const store = artifactBackend();
+  const artifact = await store.get(id);
+  if (!artifact) return null;
+
+  if (isExpired(artifact.meta)) {
+    await store.delete(id);
+    return null;
+  }
+  if (sha256(artifact.data) !== artifact.meta.sha256) {
+    throw new Error(`Artifact ${id} does not match its SHA-256`);
+  }
+  return artifact;
+}
+
+/**
+ * Record `key` as used until `expiresAt`. Resolves to true the first time
+ * and false for every later claim of the same key, also from other server
+ * processes when the backend records claims.
+ */
+export async function claimOnce(key: string, expiresAt: Date): Promise<boolean> {
+  if (!CLAIM_KEY.test(key)) {
+    throw new Error(`Invalid claim key "${key}"`);
+  }
+  const store = artifactBackend();
+  if (store.claim) {
+    return store.claim(key, expiresAt.toISOString());
+  }
+  localClaims.forEach((expiry, claimed) => expiry <= Date.now() && localClaims.delete(claimed));
+  if (localClaims.has(key)) return false;
+  localClaims.set(key, expiresAt.getTime());
+  return true;
+}
+
+/**
+ * Delete every expired artifact the backend can list. Returns how many
+ * were deleted.
+ */
+export async function sweepExpiredArtifacts(): Promise<number> {
+  const store = artifactBackend();
+  await store.sweepClaims?.();
+  if (!store.list) return 0;
+  const expired = (await store.list()).filter(isExpired);
+  for (const meta of expired) {
+    await store.delete(meta.id);
+  }
+  return expired.length;
+}
+
+export function artifactKind(filename: string): Artifact['kind'] {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension === 'pdf' || extension === 'csv' || extension === 'xlsx' || extension === 'html' ? extension : 'json';
+}
+
+/**
+ * A Content-Disposition header that downloads the file under its name: an
+ * ASCII fallback for old clients and the exact name as RFC 5987 UTF-8
+ */
+export function contentDisposition(filename: string): string {
+  const name = filename || 'download';
+  const fallback = name.replace(/[^\x20-\x7e]|["\\%]/g, '_');
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function toArtifact(meta: ArtifactMeta): Artifact {
+  return {
+    kind: artifactKind(meta.name),
+    name: meta.name,
+    url: `/api/artifacts/${meta.id}`,
+    size: meta.size,
+    sha256: meta.sha256,
+    expiresAt: meta.expiresAt
+  };
+}
+
+// The configured backend, built from the environment on first use
+function artifactBackend(): ArtifactBackend {
+  if (backend) return backend;
+  if (process.env.ARTIFACT_BACKEND === 's3') {
+    const missing = ['ARTIFACT_S3_ENDPOINT', 'ARTIFACT_S3_BUCKET', 'ARTIFACT_S3_ACCESS_KEY_ID', 'ARTIFACT_S3_SECRET_ACCESS_KEY']
+      .filter(key => !process.env[key]);
+    if (missing.length > 0) {
+      throw new Error(`The S3 artifact store is not configured. Set ${missing.join(', ')} in your environment variables.`);
+    }
+    backend = new S3Backend({
+      endpoint: process.env.ARTIFACT_S3_ENDPOINT!,
+      bucket: process.env.ARTIFACT_S3_BUCKET!,
+      region: process.env.ARTIFACT_S3_REGION || 'us-east-1',
+      accessKeyId: process.env.ARTIFACT_S3_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.ARTIFACT_S3_SECRET_ACCESS_KEY!,
+      prefix: process.env.ARTIFACT_S3_PREFIX
+    });
+  } else {
+    backend = new FileSystemBackend(process.env.ARTIFACT_DIR || join(process.cwd(), '.artifacts'));
+  }
+  return backend;
+}
+
+function retentionSetting(): number {
+  const days = Number(process.env.ARTIFACT_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+function isExpired(meta: ArtifactMeta): boolean {
+  return !!meta.expiresAt && new Date(meta.expiresAt).getTime() <= Date.now();
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+async function toBuffer(data: StoredFile['data']): Promise<Buffer> {
+  if (Buffer.isBuffer(data)) return data;
+  if (typeof data === 'string') return Buffer.from(data, 'utf8');
+  return Buffer.from(await data.arrayBuffer());
+}
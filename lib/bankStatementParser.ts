@@ -0,0 +1,427 @@
+import { dedupeHeaders } from './dataCleaning';
+
+export type BankStatementFormat = 'ofx' | 'qif' | 'camt053';
+
+/**
+ * Canonical bank feed row. Every bank statement format is normalized into
+ * this shape so downstream queries don't depend on the source format.
+ */
+export interface BankTransaction {
+  posted_date: string | null;
+  amount: number;
+  payee: string | null;
+  memo: string | null;
+  fit_id: string;
+  balance: number | null;
+}
+
+export interface BankStatement {
+  format: BankStatementFormat;
+  accountId?: string;
+  currency?: string;
+  transactions: BankTransaction[];
+  warnings: string[];
+}
+
+export const BANK_FEED_HEADERS: Array<keyof BankTransaction> = [
+  'posted_date',
+  'amount',
+  'payee',
+  'memo',
+  'fit_id',
+  'balance'
+];
+
+export const BANK_FEED_DATA_TYPES: Record<string, string> = {
+  posted_date: 'DATE',
+  amount: 'DECIMAL(18,2)',
+  payee: 'VARCHAR',
+  memo: 'VARCHAR',
+  fit_id: 'VARCHAR',
+  balance: 'DECIMAL(18,2)'
+};
+
+/**
+ * Parse a statement file's text according to its extension (ofx, qfx, qif or
+ * xml): one statement per account, since a CAMT.053 file often holds several
+ */
+export function parseBankStatementText(text: string, extension: string): BankStatement[] {
+  if (extension === 'qif') {
+    return [parseQIF(text)];
+  }
+  if (extension === 'xml') {
+    if (!isCAMT053(text)) {
+      throw new Error('Unsupported XML file: only ISO 20022 CAMT.053 bank statements can be imported');
+    }
+    return parseCAMT053(text);
+  }
+  return [parseOFX(text)];
+}
+
+/**
+ * A sheet name per statement: Transactions, or Transactions and the account
+ * when a file holds several
+ */
+export function bankFeedSheetNames(statements: BankStatement[]): string[] {
+  if (statements.length === 1) return ['Transactions'];
+  return dedupeHeaders(statements.map((statement, index) => `Transactions ${statement.accountId ?? index + 1}`));
+}
+
+/**
+ * Check whether an XML document is an ISO 20022 CAMT.053 bank statement
+ */
+export function isCAMT053(text: string): boolean {
+  return /camt\.053/i.test(text) || /<(?:\w+:)?BkToCstmrStmt[\s>]/.test(text);
+}
+
+/**
+ * Parse OFX 1.x (SGML) and 2.x (XML) statements. QFX is OFX with an
+ * Intuit header and parses the same way.
+ */
+export function parseOFX(text: string): BankStatement {
+  const warnings: string[] = [];
+  const transactions: BankTransaction[] = [];
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const syntheticId = syntheticIds('ofx');
+  blocks.forEach((block, index) => {
+    const amount = parseAmount(ofxValue(block, 'TRNAMT'));
+    if (amount === null) {
+      warnings.push(`OFX transaction ${index + 1} has no valid amount and was skipped`);
+      return;
+    }
+
+    const name = ofxValue(block, 'NAME');
+    const checkNumber = ofxValue(block, 'CHECKNUM');
+    const fitId = ofxValue(block, 'FITID');
+    const postedDate = parseOFXDate(ofxValue(block, 'DTPOSTED'));
+
+    if (!fitId) {
+      warnings.push(`OFX transaction ${index + 1} has no FITID; an id was made from its date, amount, payee and memo`);
+    }
+
+    const memo = ofxValue(block, 'MEMO');
+    transactions.push({
+      posted_date: postedDate,
+      amount,
+      payee: name || (checkNumber ? `Check ${checkNumber}` : null),
+      memo,
+      fit_id: fitId || syntheticId(postedDate, amount, name, memo),
+      balance: null
+    });
+  });
+
+  const ledgerBlock = text.match(/<LEDGERBAL>[\s\S]*?(?:<\/LEDGERBAL>|<\/STMTRS>|$)/i)?.[0];
+  const ledgerBalance = ledgerBlock ? parseAmount(ofxValue(ledgerBlock, 'BALAMT')) : null;
+
+  if (blocks.length === 0) {
+    warnings.push('No transactions found in OFX file');
+  }
+
+  return {
+    format: 'ofx',
+    accountId: ofxValue(text, 'ACCTID') || undefined,
+    currency: ofxValue(text, 'CURDEF') || undefined,
+    transactions: applyClosingBalance(transactions, ledgerBalance),
+    warnings
+  };
+}
+
+/**
+ * Parse Quicken Interchange Format bank and credit card registers
+ */
+export function parseQIF(text: string): BankStatement {
+  const warnings: string[] = [];
+  const transactions: BankTransaction[] = [];
+
+  const typeHeader = text.match(/^!Type:(\w+)/im)?.[1];
+  if (typeHeader && !['bank', 'cash', 'ccard', 'oth a', 'oth l'].includes(typeHeader.toLowerCase())) {
+    warnings.push(`QIF section type "${typeHeader}" is not a bank register; values may not be transactions`);
+  }
+
+  let current: Record<string, string> = {};
+  let index = 0;
+  const syntheticId = syntheticIds('qif');
+
+  const flush = () => {
+    if (Object.keys(current).length === 0) return;
+    const amount = parseAmount(current.T ?? current.U);
+    if (amount === null) {
+      warnings.push(`QIF entry ${index + 1} has no valid amount and was skipped`);
+    } else {
+      const postedDate = parseQIFDate(current.D);
+      const memo = [current.M, current.L ? `Category: ${current.L}` : null].filter(Boolean).join(' | ') || null;
+      transactions.push({
+        posted_date: postedDate,
+        amount,
+        payee: current.P || null,
+        memo,
+        fit_id: current.N && /^\d+$/.test(current.N)
+          ? `chk-${current.N}`
+          : syntheticId(postedDate, amount, current.P, memo),
+        balance: null
+      });
+    }
+    index++;
+    current = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('!')) continue;
+    if (line.startsWith('^')) {
+      flush();
+      continue;
+    }
+    const code = line[0];
+    // Split lines (S/E/$) describe category splits, not separate transactions
+    if (['S', 'E', '$'].includes(code)) continue;
+    current[code] = line.slice(1).trim();
+  }
+  flush();
+
+  if (transactions.length === 0) {
+    warnings.push('No transactions found in QIF file');
+  }
+
+  return {
+    format: 'qif',
+    transactions,
+    warnings
+  };
+}
+
+/**
+ * Parse ISO 20022 CAMT.053 bank-to-customer statements, one per <Stmt>, each
+ * with its own account and running balance
+ */
+export function parseCAMT053(text: string): BankStatement[] {
+  const statements = xmlBlocks(text, 'Stmt');
+  if (statements.length === 0) {
+    return [parseCAMTStatement(text, '')];
+  }
+  return statements.map((statement, index) =>
+    parseCAMTStatement(statement, statements.length > 1 ? `Statement ${index + 1}: ` : ''));
+}
+
+// One <Stmt>, or a whole document without them; `label` prefixes its warnings
+function parseCAMTStatement(statement: string, label: string): BankStatement {
+  const warnings: string[] = [];
+  const transactions: BankTransaction[] = [];
+  const entries = xmlBlocks(statement, 'Ntry');
+  const syntheticId = syntheticIds('camt');
+
+  entries.forEach((entry, index) => {
+    const rawAmount = parseAmount(xmlValue(entry, 'Amt'));
+    if (rawAmount === null) {
+      warnings.push(`${label}CAMT entry ${index + 1} has no valid amount and was skipped`);
+      return;
+    }
+    const isDebit = xmlValue(entry, 'CdtDbtInd') === 'DBIT';
+    const amount = isDebit ? -Math.abs(rawAmount) : Math.abs(rawAmount);
+
+    const bookingDate = xmlBlocks(entry, 'BookgDt')[0];
+    const valueDate = xmlBlocks(entry, 'ValDt')[0];
+    const dateBlock = bookingDate || valueDate || '';
+    const postedDate = normalizeISODate(xmlValue(dateBlock, 'Dt') || xmlValue(dateBlock, 'DtTm'));
+
+    // The counterparty is the creditor on outgoing payments and the debtor on incoming ones
+    const parties = xmlBlocks(entry, 'RltdPties')[0] || '';
+    const counterparty = xmlBlocks(parties, isDebit ? 'Cdtr' : 'Dbtr')[0] || '';
+    const payee = xmlValue(counterparty, 'Nm');
+
+    const remittance = xmlBlocks(entry, 'RmtInf')
+      .flatMap(block => xmlValues(block, 'Ustrd'))
+      .join(' ');
+    const memo = remittance || xmlValue(entry, 'AddtlNtryInf') || xmlValue(entry, 'AddtlTxInf');
+
+    const reference = xmlValue(entry, 'AcctSvcrRef') || xmlValue(entry, 'NtryRef') || xmlValue(entry, 'EndToEndId');
+    const fitId = reference && reference !== 'NOTPROVIDED'
+      ? reference
+      : syntheticId(postedDate, amount, payee, memo);
+
+    transactions.push({
+      posted_date: postedDate,
+      amount,
+      payee,
+      memo: memo || null,
+      fit_id: fitId,
+      balance: null
+    });
+  });
+
+  // Prefer the opening balance and roll forward; fall back to rolling back from the closing balance
+  const balances = xmlBlocks(statement, 'Bal').map(block => {
+    const amount = parseAmount(xmlValue(block, 'Amt'));
+    const signed = amount !== null && xmlValue(block, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+    return { code: xmlValue(xmlBlocks(block, 'Tp')[0] || '', 'Cd'), amount: signed };
+  });
+  const opening = balances.find(b => b.code === 'OPBD' || b.code === 'PRCD');
+  const closing = balances.find(b => b.code === 'CLBD');
+
+  let withBalances = transactions;
+  if (opening?.amount != null) {
+    withBalances = applyOpeningBalance(transactions, opening.amount);
+  } else if (closing?.amount != null) {
+    withBalances = applyClosingBalance(transactions, closing.amount);
+  }
+
+  if (entries.length === 0) {
+    warnings.push(`${label}No entries found in CAMT.053 statement`);
+  }
+
+  const account = xmlBlocks(statement, 'Acct')[0] || '';
+  const amountCurrency = statement.match(/<(?:\w+:)?Amt[^>]*Ccy="([A-Z]{3})"/)?.[1];
+
+  return {
+    format: 'camt053',
+    accountId: xmlValue(account, 'IBAN') || xmlValue(account, 'Id') || undefined,
+    currency: xmlValue(account, 'Ccy') || amountCurrency || undefined,
+    transactions: withBalances,
+    warnings
+  };
+}
+
+function applyOpeningBalance(transactions: BankTransaction[], opening: number): BankTransaction[] {
+  const ordered = sortByDate(transactions);
+  let running = opening;
+  return ordered.map(tx => {
+    running = round2(running + tx.amount);
+    return { ...tx, balance: running };
+  });
+}
+
+function applyClosingBalance(transactions: BankTransaction[], closing: number | null): BankTransaction[] {
+  if (closing === null) return transactions;
+  const ordered = sortByDate(transactions);
+  let running = closing;
+  const result = new Array<BankTransaction>(ordered.length);
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    result[i] = { ...ordered[i], balance: round2(running) };
+    running -= ordered[i].amount;
+  }
+  return result;
+}
+
+function sortByDate(transactions: BankTransaction[]): BankTransaction[] {
+  // Stable sort keeps the bank's own order for same-day transactions
+  return transactions
+    .map((tx, i) => ({ tx, i }))
+    .sort((a, b) => (a.tx.posted_date || '').localeCompare(b.tx.posted_date || '') || a.i - b.i)
+    .map(({ tx }) => tx);
+}
+
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+function xmlValues(xml: string, tag: string): string[] {
+  return xmlBlocks(xml, tag)
+    .filter(value => !value.includes('<'))
+    .map(value => decodeEntities(value.trim()))
+    .filter(Boolean);
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  return xmlValues(xml, tag)[0] ?? null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Amounts as written by banks: 1234.56, 1,234.56, 1.234,56 and, as OFX
+ * allows, -12,50. The last of a dot and a comma is the decimal point; a
+ * lone comma is one too, while repeated commas group thousands.
+ */
+function parseAmount(value: string | null | undefined): number | null {
+  if (!value) return null;
+  let cleaned = value.replace(/\s/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot && (lastDot !== -1 || cleaned.indexOf(',') === lastComma)) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  const num = parseFloat(cleaned);
+  return isFinite(num) ? num : null;
+}
+
+/**
+ * OFX dates look like 20250131, 20250131120000 or 20250131120000.000[-5:EST]
+ */
+function parseOFXDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * QIF dates are US-style: 1/31/2025, 1/31/25, 1/31'25 or 01-31-2025
+ */
+function parseQIFDate(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{1,2})[\/\-.](\s?\d{1,2})(?:['\/\-.])\s?(\d{2,4})$/);
+  if (!match) return null;
+  const month = parseInt(match[1], 10);
+  const day = parseInt(match[2], 10);
+  let year = parseInt(match[3], 10);
+  if (match[3].length === 2) {
+    // An apostrophe marks 2000s in Quicken; two-digit years otherwise pivot at 70
+    year += value!.includes("'") || year < 70 ? 2000 : 1900;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function normalizeISODate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Deterministic ids for formats without a bank-assigned transaction id. An
+ * id hashes the transaction's date, amount, payee and memo, not its place in
+ * the file, so it is the same in every statement the transaction shows up
+ * in; identical transactions are numbered in the order they appear.
+ */
+function syntheticIds(prefix: string) {
+  const seen = new Map<string, number>();
+  return (date: string | null, amount: number, payee: string | null | undefined, memo: string | null | undefined): string => {
+    const key = `${date}|${amount}|${payee || ''}|${memo || ''}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return `${prefix}-${fnv1a(occurrence === 1 ? key : `${key}|${occurrence}`)}`;
+  };
+}
+
+// 32-bit FNV-1a, as 8 hex digits
+function fnv1a(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,305 @@
+import { getTool, runTool } from './toolRegistry';
+import { renderEmailHTML } from './llm-tools';
+import { CLOSED_STATUSES, OVERDUE_STATUS_PATTERN, formatAmount } from './suggestions';
+import type { ActionDefinition } from './actionRegistry';
+import type { ToolContext } from './toolRegistry';
+
+// Days past due at the top of each aging bucket
+const AGING_BUCKETS: Array<{ label: string; upTo: number }> = [
+  { label: 'Current', upTo: 0 },
+  { label: '1-30 days', upTo: 30 },
+  { label: '31-60 days', upTo: 60 },
+  { label: '61-90 days', upTo: 90 }
+];
+const OLDEST_BUCKET = 'Over 90 days';
+
+const REPORT_FORMAT = {
+  type: 'string',
+  enum: ['pdf', 'excel', 'html'],
+  description: 'Output format for the report'
+};
+const SOURCE_SQL = {
+  type: 'string',
+  description: 'Query of the result the action was suggested for; the action reads its rows from it'
+};
+
+interface ReminderParams {
+  sql: string;
+  recipient: string;
+  name?: string;
+  emailColumn: string;
+  amountColumn: string;
+  dueDateColumn?: string;
+  statusColumn?: string;
+}
+
+interface AgingParams {
+  sql: string;
+  amountColumn: string;
+  dueDateColumn: string;
+  statusColumn?: string;
+  format?: 'pdf' | 'excel' | 'html';
+}
+
+interface StatementParams {
+  sql: string;
+  counterpartyColumn: string;
+  counterparty: string;
+  format?: 'pdf' | 'excel' | 'html';
+}
+
+/**
+ * Actions that ship with the app. Each ends in one of the registered tools,
+ * so tool config, input checks and approval rules apply to chips as well.
+ */
+export const BUILTIN_ACTIONS: ActionDefinition[] = [
+  {
+    id: 'payment_reminder',
+    label: 'Email a payment reminder',
+    description: 'Email one recipient their overdue items from a result, with the items as a table',
+    category: 'invoice',
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        sql: SOURCE_SQL,
+        recipient: { type: 'string', description: 'Email address the reminder goes to' },
+        name: { type: 'string', description: 'Name to greet the recipient by' },
+        emailColumn: { type: 'string' },
+        amountColumn: { type: 'string' },
+        dueDateColumn: { type: 'string' },
+        statusColumn: { type: 'string' }
+      },
+      required: ['sql', 'recipient', 'emailColumn', 'amountColumn']
+    },
+    sideEffect: 'irreversible',
+    query: (params: ReminderParams) => {
+      const overdue = params.dueDateColumn
+        ? `TRY_CAST(${quote(params.dueDateColumn)} AS DATE) < ${today()}`
+        : params.statusColumn
+          ? `regexp_matches(lower(CAST(${quote(params.statusColumn)} AS VARCHAR)), ${literal(OVERDUE_STATUS_PATTERN)})`
+          : 'false';
+      return [
+        `SELECT * FROM (\n${source(params.sql)}\n) AS result`,
+        `WHERE lower(trim(CAST(${quote(params.emailColumn)} AS VARCHAR))) = ${literal(params.recipient.trim().toLowerCase())}`,
+        `AND TRY_CAST(${quote(params.amountColumn)} AS DOUBLE) > 0`,
+        `AND ${overdue}`,
+        openFilter(params.statusColumn)
+      ].filter(Boolean).join('\n');
+    },
+    preview: (params: ReminderParams, rows) => getTool('send_email')!.preview!(reminderEmail(params, rows)),
+    run: async (params: ReminderParams, rows, context) => {
+      if (rows.length === 0) {
+        throw new Error(`${params.recipient} has nothing overdue any more`);
+      }
+      const email = reminderEmail(params, rows);
+      const content = await toolContent('send_email', email, context);
+      return {
+        summary: `Sent a payment reminder to ${params.recipient} (${rows.length} item${rows.length !== 1 ? 's' : ''}, ${formatAmount(total(rows, params.amountColumn))} overdue)`,
+        content,
+        // The email as sent, for the record
+        files: [{
+          data: renderEmailHTML(email.message, email.data),
+          filename: `reminder_${slug(params.recipient)}.html`,
+          mimetype: 'text/html'
+        }]
+      };
+    }
+  },
+  {
+    id: 'aging_report',
+    label: 'Generate an aging report',
+    description: 'Report open amounts from a result by days past due, in 30-day buckets',
+    category: 'analysis',
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        sql: SOURCE_SQL,
+        amountColumn: { type: 'string' },
+        dueDateColumn: { type: 'string' },
+        statusColumn: { type: 'string' },
+        format: REPORT_FORMAT
+      },
+      required: ['sql', 'amountColumn', 'dueDateColumn']
+    },
+    sideEffect: 'reversible',
+    query: (params: AgingParams) => {
+      const days = `greatest(0, date_diff('day', TRY_CAST(${quote(params.dueDateColumn)} AS DATE), ${today()}))`;
+      const buckets = AGING_BUCKETS.map(bucket => `WHEN ${days} <= ${bucket.upTo} THEN ${literal(bucket.label)}`).join(' ');
+      return [
+        `SELECT *, ${days} AS days_past_due, CASE ${buckets} ELSE ${literal(OLDEST_BUCKET)} END AS aging_bucket`,
+        `FROM (\n${source(params.sql)}\n) AS result`,
+        `WHERE TRY_CAST(${quote(params.amountColumn)} AS DOUBLE) > 0`,
+        `AND TRY_CAST(${quote(params.dueDateColumn)} AS DATE) IS NOT NULL`,
+        openFilter(params.statusColumn),
+        'ORDER BY days_past_due DESC'
+      ].filter(Boolean).join('\n');
+    },
+    run: async (params: AgingParams, rows, context) => {
+      if (rows.length === 0) {
+        throw new Error('There are no open items to age');
+      }
+      const report = await toolFile('generate_report', {
+        title: 'Aging report',
+        format: params.format ?? 'pdf',
+        data: rows,
+        userQuery: `Open ${params.amountColumn} by days past ${params.dueDateColumn}`
+      }, context);
+      return {
+        summary: `Generated an aging report of ${rows.length} open item${rows.length !== 1 ? 's' : ''} (${formatAmount(total(rows, params.amountColumn))})`,
+        files: [report]
+      };
+    }
+  },
+  {
+    id: 'account_statement',
+    label: 'Create an account statement',
+    description: "Report one counterparty's rows from a result as a statement of account",
+    category: 'invoice',
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        sql: SOURCE_SQL,
+        counterpartyColumn: { type: 'string' },
+        counterparty: { type: 'string', description: 'Customer, vendor or other party the statement is for' },
+        format: REPORT_FORMAT
+      },
+      required: ['sql', 'counterpartyColumn', 'counterparty']
+    },
+    sideEffect: 'reversible',
+    query: (params: StatementParams) => [
+      `SELECT * FROM (\n${source(params.sql)}\n) AS result`,
+      `WHERE trim(CAST(${quote(params.counterpartyColumn)} AS VARCHAR)) = ${literal(params.counterparty.trim())}`
+    ].join('\n'),
+    run: async (params: StatementParams, rows, context) => {
+      if (rows.length === 0) {
+        throw new Error(`${params.counterparty} has no rows in this result any more`);
+      }
+      const statement = await toolFile('generate_report', {
+        title: `Account statement: ${params.counterparty}`,
+        format: params.format ?? 'pdf',
+        data: rows,
+        userQuery: `Statement of account for ${params.counterparty}`
+      }, context);
+      return {
+        summary: `Created an account statement for ${params.counterparty} (${rows.length} row${rows.length !== 1 ? 's' : ''})`,
+        files: [statement]
+      };
+    }
+  },
+  {
+    id: 'reorder_product',
+    label: 'Order a product',
+    description: 'Order a low-stock item from its product page',
+    category: 'approval',
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        productUrl: { type: 'string', description: 'The URL of the product to purchase' },
+        item: { type: 'string', description: 'Name of the item, for the audit log' },
+        recipientEmail: { type: 'string' }
+      },
+      required: ['productUrl']
+    },
+    sideEffect: 'irreversible',
+    preview: params => getTool('purchase_product')!.preview!(params),
+    run: async (params, _rows, context) => {
+      const content = await toolContent('purchase_product', {
+        productUrl: params.productUrl,
+        recipientEmail: params.recipientEmail
+      }, context);
+      return { summary: `Ordered ${params.item || params.productUrl}`, content, files: [] };
+    }
+  },
+  {
+    id: 'export_results',
+    label: 'Export to CSV',
+    description: 'Export every row of a result as a CSV file',
+    category: 'export',
+    paramsSchema: {
+      type: 'object',
+      properties: {
+        sql: SOURCE_SQL,
+        filename: { type: 'string' }
+      },
+      required: ['sql']
+    },
+    sideEffect: 'reversible',
+    query: params => `SELECT * FROM (\n${source(params.sql)}\n) AS result`,
+    run: async (params, rows, context) => {
+      const file = await toolFile('export_data', { data: rows, filename: params.filename }, context);
+      return { summary: `Exported ${rows.length} row${rows.length !== 1 ? 's' : ''} to ${file.filename}`, files: [file] };
+    }
+  }
+];
+
+function reminderEmail(params: ReminderParams, rows: Record<string, any>[]) {
+  const amount = formatAmount(total(rows, params.amountColumn));
+  const oldest = params.dueDateColumn
+    ? rows.map(row => toDate(row[params.dueDateColumn!])).filter((date): date is Date => !!date).sort((a, b) => a.getTime() - b.getTime())[0]
+    : undefined;
+  return {
+    to: [params.recipient],
+    subject: `Payment reminder: ${amount} overdue`,
+    message: [
+      `Hello${params.name ? ` ${params.name}` : ''},`,
+      `Our records show ${rows.length} item${rows.length !== 1 ? 's' : ''} totalling ${amount} past due${oldest ? `, the oldest since ${oldest.toISOString().slice(0, 10)}` : ''}. The details are below.`,
+      'Please arrange payment, or let us know if it has already been sent.',
+      'Thank you.'
+    ].join('\n\n'),
+    data: rows
+  };
+}
+
+// Run a tool for an action; its failure fails the action
+async function toolContent(name: string, input: any, context: ToolContext): Promise<string | undefined> {
+  const result = await runTool(name, input, context);
+  if (!result.success) {
+    throw new Error(result.error || `${name} failed`);
+  }
+  return result.content;
+}
+
+async function toolFile(name: string, input: any, context: ToolContext) {
+  const result = await runTool(name, input, context);
+  if (!result.success || !result.file) {
+    throw new Error(result.error || `${name} produced no file`);
+  }
+  return result.file;
+}
+
+function openFilter(statusColumn: string | undefined): string | null {
+  if (!statusColumn) return null;
+  const closed = CLOSED_STATUSES.map(literal).join(', ');
+  return `AND lower(trim(coalesce(CAST(${quote(statusColumn)} AS VARCHAR), ''))) NOT IN (${closed})`;
+}
+
+// As a literal, so the query in the audit log says which day it ran for; current_date also needs DuckDB's ICU extension
+function today(): string {
+  return `DATE '${new Date().toISOString().slice(0, 10)}'`;
+}
+
+function source(sql: string): string {
+  return sql.trim().replace(/;\s*$/, '');
+}
+
+function total(rows: Record<string, any>[], column: string): number {
+  return rows.reduce((sum, row) => sum + (Number(row[column]) || 0), 0);
+}
+
+function toDate(value: any): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,236 @@
+import {
+  sendEmail,
+  purchaseProduct,
+  generateReport,
+  generateEmail,
+  generateInvoice,
+  exportCSV,
+  renderEmailHTML
+} from './llm-tools';
+import type { ToolDefinition } from './toolRegistry';
+
+// Shipping address used for every Crossmint order (see purchaseProduct)
+const SHIPPING_ADDRESS = '123 ABC Street, New York City, NY 10007, US';
+const DEFAULT_ORDER_RECIPIENT = 'russell@vancuren.net';
+
+/**
+ * Tools that ship with the app
+ */
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'execute_sql',
+    description: 'Execute a SQL query against the database',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'SQL query to execute'
+        },
+        explanation: {
+          type: 'string',
+          description: 'Explanation of what the query does'
+        }
+      },
+      required: ['query']
+    },
+    // Writes go through the data edit confirmation in the chat
+    sideEffect: 'read_only'
+  },
+  {
+    name: 'send_email',
+    description: 'Send an email to one or more recipients with invoice reminders, payment notifications, or reports',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses of recipients'
+        },
+        subject: {
+          type: 'string',
+          description: 'Email subject line'
+        },
+        message: {
+          type: 'string',
+          description: 'Email body message'
+        },
+        data: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Optional data to include in the email as a table'
+        }
+      },
+      required: ['to', 'subject', 'message']
+    },
+    sideEffect: 'irreversible',
+    requiredConfig: ['MAILGUN_API_KEY', 'MAILGUN_DOMAIN'],
+    progress: () => 'Sending email…',
+    preview: input => {
+      const to: string[] = Array.isArray(input.to) ? input.to : input.to ? [String(input.to)] : [];
+      const rows: any[] = Array.isArray(input.data) ? input.data : [];
+      const fields = [
+        { label: 'Recipients', value: to.length > 0 ? to.join(', ') : 'None' },
+        { label: 'Subject', value: String(input.subject ?? '') }
+      ];
+      if (rows.length > 0) {
+        fields.push({ label: 'Attached rows', value: String(rows.length) });
+        fields.push(...amountTotals(rows));
+      }
+      return {
+        title: `Send email to ${to.length} recipient${to.length !== 1 ? 's' : ''}`,
+        fields,
+        html: renderEmailHTML(String(input.message ?? ''), rows)
+      };
+    },
+    handler: input => sendEmail({
+      to: input.to,
+      subject: input.subject,
+      message: input.message,
+      data: input.data
+    })
+  },
+  {
+    name: 'generate_report',
+    description: 'Generate a formatted report (PDF, Excel, or HTML) from data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: 'Report title'
+        },
+        format: {
+          type: 'string',
+          enum: ['pdf', 'excel', 'html'],
+          description: 'Output format for the report'
+        },
+        data: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Data to include in the report'
+        },
+        userQuery: {
+          type: 'string',
+          description: 'The question the report answers'
+        }
+      },
+      required: ['title', 'format', 'data']
+    },
+    sideEffect: 'reversible',
+    progress: input => `Generating ${input.format === 'excel' ? 'Excel' : String(input.format ?? '').toUpperCase()} report…`,
+    handler: (input, { privacy }) => generateReport({
+      title: input.title,
+      format: input.format,
+      data: input.data,
+      analysis: '',
+      userQuery: input.userQuery ?? '',
+      privacy
+    })
+  },
+  {
+    name: 'purchase_product',
+    description: 'Purchase a product when user asks to order items that are low in stock or under reorder point or when user asks to order a specific item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productUrl: {
+          type: 'string',
+          description: 'The URL of the product to purchase'
+        },
+        recipientEmail: {
+          type: 'string',
+          description: 'Email address of the recipient (optional, defaults to russell@vancuren.net)'
+        }
+      },
+      required: ['productUrl']
+    },
+    sideEffect: 'irreversible',
+    progress: () => 'Placing order…',
+    preview: input => ({
+      title: 'Place a product order',
+      fields: [
+        { label: 'Product', value: String(input.productUrl ?? '') },
+        { label: 'Receipt to', value: input.recipientEmail || DEFAULT_ORDER_RECIPIENT },
+        { label: 'Ship to', value: SHIPPING_ADDRESS },
+        { label: 'Price', value: 'Quoted by Crossmint when the order is placed; payment is collected at checkout' }
+      ]
+    }),
+    handler: input => purchaseProduct({
+      productUrl: input.productUrl,
+      recipientEmail: input.recipientEmail || DEFAULT_ORDER_RECIPIENT
+    })
+  },
+  {
+    name: 'generate_email',
+    description: 'Draft an invoice, report, reminder or statement email for a recipient',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['invoice', 'report', 'reminder', 'statement']
+        },
+        recipient: { type: 'string' },
+        data: { type: 'array', items: { type: 'object' } },
+        context: { type: 'string' }
+      },
+      required: ['type', 'recipient', 'data']
+    },
+    sideEffect: 'read_only',
+    exposeToModel: false,
+    handler: (input, { privacy }) => generateEmail({
+      type: input.type,
+      recipient: input.recipient,
+      data: input.data,
+      context: input.context ?? '',
+      privacy
+    })
+  },
+  {
+    name: 'generate_invoice',
+    description: 'Generate a PDF invoice from rows',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        data: { type: 'array', items: { type: 'object' } },
+        context: { type: 'string' }
+      },
+      required: ['data']
+    },
+    sideEffect: 'reversible',
+    exposeToModel: false,
+    handler: (input, { privacy }) => generateInvoice(input.data, input.context ?? '', privacy)
+  },
+  {
+    name: 'export_data',
+    description: 'Export rows as a CSV file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        data: { type: 'array', items: { type: 'object' } },
+        filename: { type: 'string' }
+      },
+      required: ['data']
+    },
+    sideEffect: 'reversible',
+    exposeToModel: false,
+    handler: input => exportCSV(input.data, input.filename)
+  }
+];
+
+// Totals of money-like columns, so the user sees the amounts an email quotes
+function amountTotals(rows: any[]): Array<{ label: string; value: string }> {
+  const columns = Object.keys(rows[0] ?? {}).filter(key =>
+    /amount|balance|total|price|cost/i.test(key) &&
+    rows.some(row => typeof row[key] === 'number' || (typeof row[key] === 'string' && row[key].trim() !== '' && !isNaN(Number(row[key]))))
+  );
+  return columns.map(column => {
+    const total = rows.reduce((sum, row) => sum + (Number(row[column]) || 0), 0);
+    return {
+      label: `Total ${column}`,
+      value: total.toLocaleString('en-US', { maximumFractionDigits: 2 })
+    };
+  });
+}
@@ -0,0 +1,74 @@
+// Bulk loading for DuckDB-WASM: rows are written to an in-memory file that is
+// registered with the database and read back with read_csv/read_json, rather
+// than spliced into SQL as escaped literals. Kept free of browser imports so
+// scripts/benchmark-bulk-load.mjs can run it under Node.
+
+// Rows per registered file, so a million-row load never builds one giant buffer
+const BULK_BATCH_ROWS = 100000;
+
+let nextFileId = 0;
+
+/**
+ * Append rows to an existing table. Values are read as text and cast to the
+ * table's column types on insert, so the table's explicit schema still decides
+ * how each value is stored.
+ */
+export async function bulkInsertRows(db: any, conn: any, tableName: string, columns: string[], rows: any[]) {
+  for (let start = 0; start < rows.length; start += BULK_BATCH_ROWS) {
+    const batch = rows.slice(start, start + BULK_BATCH_ROWS);
+    const fileName = `bulk_${nextFileId++}.csv`;
+    await db.registerFileBuffer(fileName, new TextEncoder().encode(toCSV(columns, batch)));
+
+    try {
+      const csvColumns = columns.map((_, i) => `'c${i}': 'VARCHAR'`).join(', ');
+      await conn.query(
+        `INSERT INTO ${tableName} (${columns.map(quoteIdentifier).join(', ')}) ` +
+        `SELECT * FROM read_csv('${fileName}', columns={${csvColumns}}, header=false, auto_detect=false, ` +
+        `delim=',', quote='"', escape='"', new_line='\\n', allow_quoted_nulls=false)`
+      );
+    } finally {
+      await db.dropFile(fileName);
+    }
+  }
+}
+
+/**
+ * Create a table from rows with no known schema, letting DuckDB infer
+ * column types from every row
+ */
+export async function bulkCreateFromJSON(db: any, conn: any, tableName: string, rows: any[]) {
+  const fileName = `bulk_${nextFileId++}.json`;
+  await db.registerFileBuffer(fileName, new TextEncoder().encode(JSON.stringify(rows)));
+
+  try {
+    await conn.query(
+      `CREATE TABLE ${tableName} AS SELECT * FROM read_json_auto('${fileName}', format='array', sample_size=-1)`
+    );
+  } finally {
+    await db.dropFile(fileName);
+  }
+}
+
+function toCSV(columns: string[], rows: any[]): string {
+  const lines = new Array<string>(rows.length);
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    lines[i] = columns.map(col => toCSVField(row[col])).join(',');
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Unquoted empty fields load as NULL; strings are always quoted so '' stays ''
+function toCSVField(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  if (typeof value === 'boolean' || typeof value === 'bigint') return String(value);
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -2,14 +2,29 @@
 
 // Import the browser-only build to keep Node bundles out of the client
 import * as duckdb from '@duckdb/duckdb-wasm/dist/duckdb-browser.mjs';
-import { TablePreview, ColumnSchema } from '@/types';
+import { TablePreview, ColumnSchema, DatasetType } from '@/types';
+import { bulkInsertRows, bulkCreateFromJSON } from './bulkLoad';
+
+// Database file on the Origin Private File System, so tables survive reloads
+const PERSISTENT_DATABASE_PATH = 'opfs://sheetpilot.duckdb';
 
 let db: any | null = null;
 let conn: any | null = null;
+let initPromise: Promise<any> | null = null;
+let persistent = false;
+
+export function initClientDatabase() {
+  // Share one initialization between concurrent callers; the OPFS file can only be opened once
+  if (!initPromise) {
+    initPromise = openClientDatabase().catch(error => {
+      initPromise = null;
+      throw error;
+    });
+  }
+  return initPromise;
+}
 
-export async function initClientDatabase() {
-  if (db) return db;
-
+async function openClientDatabase() {
   const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
 
   const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
@@ -21,14 +36,64 @@ export async function initClientDatabase() {
 
   const worker = new Worker(worker_url);
   const logger = new duckdb.ConsoleLogger();
-  db = new duckdb.AsyncDuckDB(logger, worker);
-  await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+  const instance = new duckdb.AsyncDuckDB(logger, worker);
+  await instance.instantiate(bundle.mainModule, bundle.pthreadWorker);
+  
+  if (typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function') {
+    try {
+      await instance.open({
+        path: PERSISTENT_DATABASE_PATH,
+        accessMode: duckdb.DuckDBAccessMode.READ_WRITE
+      });
+      persistent = true;
+    } catch (error) {
+      // Typically another tab already holds the file
+      console.error('Failed to open persistent database, falling back to in-memory:', error);
+      await instance.open({});
+    }
+  }
   
-  conn = await db.connect();
+  conn = await instance.connect();
+  db = instance;
   
   return db;
 }
 
+/**
+ * Whether tables are stored on OPFS and will survive a reload
+ */
+export function isDatabasePersistent() {
+  return persistent;
+}
+
+/**
+ * Flush committed changes into the database file so a reload sees them
+ */
+export async function checkpointDatabase() {
+  if (!persistent) return;
+  const connection = await getClientConnection();
+  await connection.query('CHECKPOINT');
+}
+
+/**
+ * Column names mapped to their DuckDB types, in table order
+ */
+export async function getTableColumns(tableName: string): Promise<Record<string, string>> {
+  const connection = await getClientConnection();
+  const result = await connection.query(`DESCRIBE ${tableName}`);
+  const columns: Record<string, string> = {};
+  result.toArray().forEach((row: any) => {
+    columns[row.column_name] = String(row.column_type);
+  });
+  return columns;
+}
+
+export async function listTables(): Promise<string[]> {
+  const connection = await getClientConnection();
+  const result = await connection.query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'main'`);
+  return result.toArray().map((row: any) => String(row.table_name));
+}
+
 export async function getClientConnection() {
   if (!conn) {
     await initClientDatabase();
@@ -52,108 +117,63 @@ export async function createTableFromData(tableName: string, data: any[], dataTy
 
   // If dataTypes are provided, create table with explicit schema
   if (dataTypes && Object.keys(dataTypes).length > 0) {
-    const columns = Object.keys(dataTypes);
-    
-    // Create table with explicit column types
-    const columnDefs = columns.map(col => {
-      let type = dataTypes[col];
-      // Use DECIMAL(18,4) for better precision support
-      if (type === 'DECIMAL(18,2)') {
-        type = 'DECIMAL(18,4)';
-      }
-      return `"${col}" ${type}`;
-    }).join(', ');
-    
-    const createTableQuery = `CREATE TABLE ${tableName} (${columnDefs})`;
-    await connection.query(createTableQuery);
-    
-    // Insert data
-    if (data.length > 0) {
-      const values = data.map(row => {
-        const vals = columns.map(col => {
-          const val = row[col];
-          if (val === null || val === undefined) {
-            return 'NULL';
-          } else if (typeof val === 'string') {
-            return `'${val.replace(/'/g, "''")}'`;
-          } else if (typeof val === 'boolean') {
-            return val ? 'TRUE' : 'FALSE';
-          } else {
-            return val;
-          }
-        });
-        return `(${vals.join(', ')})`;
-      }).join(', ');
-      
-      await connection.query(`INSERT INTO ${tableName} VALUES ${values}`);
-    }
+    await createTable(tableName, dataTypes);
+    await insertRows(tableName, Object.keys(dataTypes), data);
   } else {
-    // Use DuckDB's ability to parse JSON directly from a string literal
-    // We'll escape the JSON and embed it directly in the query
-    const jsonString = JSON.stringify(data);
-    const escapedJson = jsonString.replace(/'/g, "''");
-    
-    // Create table from JSON using a simpler approach
-    const createQuery = `CREATE TABLE ${tableName} AS SELECT * FROM read_json_auto('${escapedJson}', sample_size=-1)`;
-    
-    try {
-      await connection.query(createQuery);
-    } catch (error) {
-      console.error('Failed to create table with read_json_auto, trying alternative method:', error);
-      
-      // Fallback: Create table structure first, then insert data
-      const firstRow = data[0];
-      const columns = Object.keys(firstRow);
-      
-      // Build INSERT statement with literal values
-      const values = data.map(row => {
-        const vals = columns.map(col => {
-          const val = row[col];
-          if (val === null || val === undefined) {
-            return 'NULL';
-          } else if (typeof val === 'string') {
-            return `'${val.replace(/'/g, "''")}'`;
-          } else if (typeof val === 'boolean') {
-            return val ? 'TRUE' : 'FALSE';
-          } else {
-            return val;
-          }
-        });
-        return `(${vals.join(', ')})`;
-      }).join(', ');
-      
-      // Create table with first row of values to infer types
-      const firstRowValues = `(${columns.map(col => {
-        const val = firstRow[col];
-        if (val === null || val === undefined) return 'NULL';
-        if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-        if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
-        return val;
-      }).join(', ')})`;
-      
-      await connection.query(`CREATE TABLE ${tableName} AS SELECT * FROM (VALUES ${firstRowValues}) AS t(${columns.map(c => `"${c}"`).join(', ')})`);
-      
-      // Insert remaining rows if any
-      if (data.length > 1) {
-        const remainingValues = data.slice(1).map(row => {
-          const vals = columns.map(col => {
-            const val = row[col];
-            if (val === null || val === undefined) return 'NULL';
-            if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-            if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
-            return val;
-          });
-          return `(${vals.join(', ')})`;
-        }).join(', ');
-        
-        await connection.query(`INSERT INTO ${tableName} VALUES ${remainingValues}`);
-      }
-    }
+    await bulkCreateFromJSON(await initClientDatabase(), connection, tableName, data);
   }
 
+  await checkpointDatabase();
   return tableName;
 }
 
+/**
+ * Create (or replace) an empty table with an explicit schema
+ */
+export async function createTable(tableName: string, dataTypes: Record<string, string>) {
+  const connection = await getClientConnection();
+  
+  await connection.query(`DROP TABLE IF EXISTS ${tableName}`);
+  
+  const columnDefs = Object.entries(dataTypes)
+    .map(([col, type]) => `"${col}" ${toStorageType(type)}`)
+    .join(', ');
+  await connection.query(`CREATE TABLE ${tableName} (${columnDefs})`);
+}
+
+/**
+ * Append rows to an existing table, in the given column order
+ */
+export async function insertRows(tableName: string, columns: string[], rows: any[]) {
+  if (rows.length === 0) return;
+  const connection = await getClientConnection();
+  await bulkInsertRows(await initClientDatabase(), connection, tableName, columns, rows);
+}
+
+/**
+ * Widen column types in place, e.g. when a later chunk of a streamed file
+ * holds values the first chunk's schema can't store
+ */
+export async function alterColumnTypes(tableName: string, changes: Record<string, string>) {
+  const connection = await getClientConnection();
+  for (const [col, type] of Object.entries(changes)) {
+    await connection.query(`ALTER TABLE ${tableName} ALTER "${col}" TYPE ${toStorageType(type)}`);
+  }
+}
+
+export async function dropTables(tableNames: string[]) {
+  const connection = await getClientConnection();
+  for (const tableName of tableNames) {
+    await connection.query(`DROP TABLE IF EXISTS ${tableName}`);
+  }
+  await checkpointDatabase();
+}
+
+// Use DECIMAL(18,4) for better precision support
+function toStorageType(type: string): string {
+  return type === 'DECIMAL(18,2)' ? 'DECIMAL(18,4)' : type;
+}
+
 export async function getTablePreview(tableName: string): Promise<TablePreview> {
   const connection = await getClientConnection();
 
@@ -359,7 +379,7 @@ export async function findPotentialJoins(tables: string[]): Promise<Array<{ left
   return joins;
 }
 
-function mapDuckDBType(duckdbType: string, columnName?: string): ColumnSchema['type'] {
+export function mapDuckDBType(duckdbType: string, columnName?: string): ColumnSchema['type'] {
   const type = duckdbType.toLowerCase();
   const colName = columnName?.toLowerCase() || '';
   
@@ -414,6 +434,8 @@ export async function closeDatabase() {
     await db.terminate();
     db = null;
   }
+  initPromise = null;
+  persistent = false;
 }
 
 export async function detectOverdueVendors(tableName: string) {
@@ -489,7 +511,7 @@ export async function detectOverdueVendors(tableName: string) {
 
 export async function generateDatasetSummary(
   tableNames: string[],
-  datasetType: 'financial' | 'inventory' | 'sales' | 'hr' | 'general'
+  datasetType: DatasetType
 ) {
   const tables = [];
   
@@ -0,0 +1,56 @@
+import type { ConversationTurn } from '@/types';
+
+// Turns kept per conversation in the store
+export const MAX_STORED_TURNS = 20;
+
+// Most recent turns summarized into a prompt
+const MAX_PROMPT_TURNS = 6;
+const MAX_ANSWER_LENGTH = 300;
+const MAX_COLUMNS_LISTED = 20;
+
+export function createSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function conversationKey(datasetId: string, sessionId: string): string {
+  return `${datasetId}:${sessionId}`;
+}
+
+/**
+ * Row count and column names of a query result, which is all a later turn
+ * needs to resolve "those", "that" or "group it by month"
+ */
+export function describeResult(rows: Record<string, any>[]): ConversationTurn['result'] {
+  return {
+    rowCount: rows.length,
+    columns: rows.length > 0 ? Object.keys(rows[0]) : []
+  };
+}
+
+/**
+ * Summarize the latest turns for a prompt, oldest first. History comes from
+ * the client, so every field is bounded here rather than trusted.
+ */
+export function formatConversation(turns: ConversationTurn[] | undefined): string {
+  if (!Array.isArray(turns) || turns.length === 0) return '';
+
+  return turns.slice(-MAX_PROMPT_TURNS).map((turn, i) => {
+    const lines = [`Turn ${i + 1}`, `User: ${truncate(String(turn.question ?? ''), MAX_ANSWER_LENGTH)}`];
+    if (turn.sql) {
+      lines.push(`SQL: ${truncate(String(turn.sql), 2000)}`);
+    }
+    if (turn.result) {
+      const columns = (turn.result.columns ?? []).slice(0, MAX_COLUMNS_LISTED).map(String);
+      lines.push(`Result: ${Number(turn.result.rowCount) || 0} rows; columns: ${columns.join(', ') || 'none'}`);
+    }
+    if (turn.answer) {
+      lines.push(`Assistant: ${truncate(String(turn.answer), MAX_ANSWER_LENGTH)}`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length)}…` : flat;
+}
@@ -1,9 +1,9 @@
 import { analyzeTable, findPotentialJoins, executeQuery } from './database';
-import { DatasetSummary } from '@/types';
+import { DatasetSummary, DatasetType } from '@/types';
 
 export async function generateDatasetSummary(
   tableNames: string[],
-  datasetType: 'financial' | 'inventory' | 'sales' | 'hr' | 'general'
+  datasetType: DatasetType
 ): Promise<DatasetSummary> {
   const tables = [];
   
@@ -0,0 +1,430 @@
+import {
+  inferColumnLocale,
+  parseLocaleNumber,
+  parseLocaleDate,
+  type ColumnLocale,
+  type DateOrder,
+  type LocalePreset
+} from './localeInference';
+
+type CellKind =
+  | 'string' | 'integer' | 'decimal' | 'date' | 'timestamp' | 'time'
+  | 'boolean' | 'json' | 'uuid' | 'email' | 'url' | 'null';
+
+export interface CleanedData {
+  cleanedData: any[];
+  dataTypes: Record<string, string>;
+  /** Separator, date order and currency decisions for columns holding numbers or dates */
+  columnLocales: Record<string, ColumnLocale>;
+}
+
+const DEFAULT_COLUMN_LOCALE: ColumnLocale = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  dateOrder: 'MDY',
+  currency: null,
+  confidence: 0,
+  source: 'default'
+};
+
+// SheetJS renders cell values with its own en-US formats (and our mm/dd/yyyy dateNF),
+// so the text it hands back is read that way whatever locale the workbook came from
+export const EXCEL_RENDERED_LOCALE: LocalePreset = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  dateOrder: 'MDY'
+};
+
+const INTEGER_MAX = 2147483647;
+
+export function cleanAndValidateData(
+  data: any[],
+  headers: string[],
+  locale?: LocalePreset
+): CleanedData {
+  const dataTypes: Record<string, string> = {};
+  const typeCounters: Record<string, Record<CellKind, number>> = {};
+  
+  // Extended type counters for better DuckDB mapping
+  headers.forEach(header => {
+    typeCounters[header] = { 
+      string: 0, 
+      integer: 0, 
+      decimal: 0, 
+      date: 0, 
+      timestamp: 0, 
+      time: 0,
+      boolean: 0, 
+      json: 0,
+      uuid: 0,
+      email: 0,
+      url: 0,
+      null: 0 
+    };
+  });
+  
+  // Decide separators and date order per column before any value is converted
+  const columnLocales: Record<string, ColumnLocale> = {};
+  headers.forEach(header => {
+    columnLocales[header] = inferColumnLocale(data.map(row => row?.[header]), locale);
+  });
+  
+  // Clean data and count types
+  const cleanedData = data.filter(row => {
+    // Filter out completely empty rows
+    if (!hasData(row, headers)) return false;
+    
+    // Clean and validate each cell
+    for (const header of headers) {
+      const cell = classifyCell(row[header], columnLocales[header]);
+      row[header] = cell.value;
+      typeCounters[header][cell.kind]++;
+    }
+    
+    return true;
+  });
+  
+  // Determine dominant type for each column with smarter logic
+  headers.forEach(header => {
+    dataTypes[header] = decideColumnType(header, typeCounters[header]);
+  });
+  
+  // Only columns that actually held numbers or dates carry locale decisions worth reporting
+  Object.keys(columnLocales).forEach(header => {
+    const counts = typeCounters[header];
+    if (counts.integer + counts.decimal + counts.date === 0) {
+      delete columnLocales[header];
+    }
+  });
+  
+  return { cleanedData, dataTypes, columnLocales };
+}
+
+/**
+ * Clean a later chunk of a streamed sheet against the schema decided from
+ * its first chunk. Columns whose new values no longer fit are widened
+ * (INTEGER to BIGINT or DECIMAL, anything else to VARCHAR) rather than
+ * dropping the values; the returned dataTypes reflect any widening.
+ */
+export function cleanChunkWithSchema(
+  data: any[],
+  headers: string[],
+  columnLocales: Record<string, ColumnLocale>,
+  dataTypes: Record<string, string>,
+  locale?: LocalePreset
+): { cleanedData: any[]; dataTypes: Record<string, string> } {
+  const widened = { ...dataTypes };
+  const fallbackLocale = inferColumnLocale([], locale);
+  
+  const cleanedData = data.filter(row => {
+    if (!hasData(row, headers)) return false;
+    
+    for (const header of headers) {
+      const cell = classifyCell(row[header], columnLocales[header] ?? fallbackLocale);
+      row[header] = cell.value;
+      const next = widenType(widened[header], cell);
+      if (next) widened[header] = next;
+    }
+    
+    return true;
+  });
+  
+  return { cleanedData, dataTypes: widened };
+}
+
+/**
+ * Find the record array in parsed JSON: a top-level array, a { data: [...] }
+ * wrapper, or a single object treated as one row
+ */
+export function extractJSONRecords(jsonData: any): { data: any[]; headers: string[] } {
+  if (Array.isArray(jsonData)) {
+    return { data: jsonData, headers: jsonData.length > 0 ? Object.keys(jsonData[0]) : [] };
+  }
+  if (jsonData && typeof jsonData === 'object') {
+    // Handle single object or nested structure
+    if (jsonData.data && Array.isArray(jsonData.data)) {
+      return { data: jsonData.data, headers: jsonData.data.length > 0 ? Object.keys(jsonData.data[0]) : [] };
+    }
+    // Convert single object to array
+    return { data: [jsonData], headers: Object.keys(jsonData) };
+  }
+  throw new Error('Invalid JSON structure for tabular data');
+}
+
+function hasData(row: any, headers: string[]): boolean {
+  return headers.some(header => row[header] !== null && row[header] !== undefined && row[header] !== '');
+}
+
+/**
+ * Normalize one raw cell and report what kind of value it holds
+ */
+function classifyCell(raw: any, columnLocale: ColumnLocale): { value: any; kind: CellKind } {
+  if (raw === undefined || raw === '' || raw === null) {
+    return { value: null, kind: 'null' };
+  }
+  if (typeof raw === 'boolean') {
+    return { value: raw, kind: 'boolean' };
+  }
+  if (typeof raw === 'number') {
+    // Validate number and distinguish integer vs decimal
+    if (!isFinite(raw)) return { value: null, kind: 'null' };
+    return { value: raw, kind: Number.isInteger(raw) ? 'integer' : 'decimal' };
+  }
+  if (raw instanceof Date) {
+    // Handle Date objects - same ISO form as parsed date strings
+    const iso = formatISODate(raw);
+    return { value: iso, kind: iso ? 'date' : 'null' };
+  }
+  if (typeof raw !== 'string') {
+    return { value: raw, kind: 'string' };
+  }
+  
+  const value = raw.trim();
+  
+  // Enhanced type detection - CHECK DATES FIRST before numeric
+  if (isTimestamp(value)) {
+    // Keep as string but mark as timestamp
+    return { value, kind: 'timestamp' };
+  }
+  const isoDate = normalizeDateString(value, columnLocale.dateOrder);
+  if (isoDate) {
+    // Store dates as ISO strings so DuckDB can cast them regardless of source locale
+    return { value: isoDate, kind: 'date' };
+  }
+  if (isTimeString(value)) return { value, kind: 'time' };
+  if (isUUID(value)) return { value, kind: 'uuid' };
+  if (isEmail(value)) return { value, kind: 'email' };
+  if (isURL(value)) return { value, kind: 'url' };
+  if (value.toLowerCase() === 'true' || value.toLowerCase() === 'false') {
+    return { value: value.toLowerCase() === 'true', kind: 'boolean' };
+  }
+  if (isJSONString(value)) return { value, kind: 'json' };
+  
+  // Check for numeric LAST after all other types
+  const numericValue = parseNumericValue(value, columnLocale);
+  if (numericValue !== null) {
+    return { value: numericValue, kind: Number.isInteger(numericValue) ? 'integer' : 'decimal' };
+  }
+  return { value, kind: 'string' };
+}
+
+/**
+ * Pick the DuckDB type for a column from its value counts and name hints
+ */
+function decideColumnType(header: string, counts: Record<CellKind, number>): string {
+  const totalNonNull = Object.entries(counts)
+    .filter(([key]) => key !== 'null')
+    .reduce((sum, [, count]) => sum + count, 0);
+  
+  if (totalNonNull === 0) {
+    return 'VARCHAR';
+  }
+  
+  // Determine DuckDB type based on dominant type and column name hints
+  const headerLower = header.toLowerCase();
+  
+  // Check for specific patterns in column names
+  if (counts.timestamp > totalNonNull * 0.5 || 
+      (counts.timestamp > 0 && (headerLower.includes('timestamp') || headerLower.includes('created') || headerLower.includes('updated')))) {
+    return 'TIMESTAMP';
+  } else if (counts.date > totalNonNull * 0.5 || 
+             (counts.date > 0 && (headerLower.includes('date') || headerLower.includes('due') || headerLower.includes('deadline')))) {
+    return 'DATE';
+  } else if (counts.time > totalNonNull * 0.5 || 
+             (counts.time > 0 && headerLower.includes('time'))) {
+    return 'TIME';
+  } else if (counts.boolean > totalNonNull * 0.5) {
+    return 'BOOLEAN';
+  } else if (counts.uuid > totalNonNull * 0.5 || 
+             (counts.uuid > 0 && headerLower.includes('id') && counts.uuid > counts.integer)) {
+    return 'UUID';
+  } else if (counts.integer > totalNonNull * 0.5) {
+    // Choose appropriate integer type based on column name
+    if (headerLower.includes('id') || headerLower.includes('count') || headerLower.includes('quantity')) {
+      return 'BIGINT';
+    }
+    return 'INTEGER';
+  } else if (counts.decimal > totalNonNull * 0.3 || 
+             (counts.decimal > 0 && (headerLower.includes('amount') || headerLower.includes('price') || 
+              headerLower.includes('cost') || headerLower.includes('balance') || headerLower.includes('total') ||
+              headerLower.includes('payment') || headerLower.includes('fee') || headerLower.includes('salary')))) {
+    return 'DECIMAL(18,2)';
+  } else if (counts.json > totalNonNull * 0.5) {
+    return 'JSON';
+  } else if (counts.email > totalNonNull * 0.5) {
+    return 'VARCHAR'; // Store emails as VARCHAR with validation
+  } else if (counts.url > totalNonNull * 0.5) {
+    return 'VARCHAR'; // Store URLs as VARCHAR
+  }
+  // Default to VARCHAR for mixed or string types
+  return 'VARCHAR';
+}
+
+/**
+ * The type a column must widen to for this cell to fit, or null if it fits
+ */
+function widenType(type: string, cell: { value: any; kind: CellKind }): string | null {
+  if (cell.kind === 'null' || type === 'VARCHAR') return null;
+  
+  switch (type) {
+    case 'INTEGER':
+      if (cell.kind === 'integer') return Math.abs(cell.value) > INTEGER_MAX ? 'BIGINT' : null;
+      return cell.kind === 'decimal' ? 'DECIMAL(18,2)' : 'VARCHAR';
+    case 'BIGINT':
+      if (cell.kind === 'integer') return null;
+      return cell.kind === 'decimal' ? 'DECIMAL(18,2)' : 'VARCHAR';
+    case 'DECIMAL(18,2)':
+      return cell.kind === 'integer' || cell.kind === 'decimal' ? null : 'VARCHAR';
+    case 'TIMESTAMP':
+      return cell.kind === 'timestamp' || cell.kind === 'date' ? null : 'VARCHAR';
+    case 'DATE':
+      return cell.kind === 'date' ? null : 'VARCHAR';
+    case 'TIME':
+      return cell.kind === 'time' ? null : 'VARCHAR';
+    case 'BOOLEAN':
+      return cell.kind === 'boolean' ? null : 'VARCHAR';
+    case 'UUID':
+      return cell.kind === 'uuid' ? null : 'VARCHAR';
+    case 'JSON':
+      return cell.kind === 'json' ? null : 'VARCHAR';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Header names as detected, with blanks named column_N by position and
+ * repeats numbered: Amount, Amount_2, Amount_3
+ */
+export function dedupeHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((value, i) => {
+    const base = value || `column_${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+/**
+ * Warn about columns whose values contradicted the pinned locale, since those
+ * were read with the inferred format instead
+ */
+export function describeLocaleConflicts(
+  sheetName: string,
+  columnLocales: Record<string, ColumnLocale>,
+  locale?: LocalePreset
+): string[] {
+  if (!locale) return [];
+  const warnings: string[] = [];
+  Object.entries(columnLocales).forEach(([header, columnLocale]) => {
+    if (columnLocale.decimalSeparator !== locale.decimalSeparator) {
+      warnings.push(`${sheetName}: column "${header}" uses "${columnLocale.decimalSeparator}" as the decimal separator, which differs from the selected locale`);
+    }
+    if (columnLocale.dateOrder && columnLocale.dateOrder !== 'YMD' && locale.dateOrder !== 'YMD' && columnLocale.dateOrder !== locale.dateOrder) {
+      warnings.push(`${sheetName}: column "${header}" has ${columnLocale.dateOrder === 'DMY' ? 'day-first' : 'month-first'} dates, which differs from the selected locale`);
+    }
+  });
+  return warnings;
+}
+
+function parseNumericValue(str: string, locale: ColumnLocale = DEFAULT_COLUMN_LOCALE): number | null {
+  return parseLocaleNumber(str, locale);
+}
+
+/**
+ * Normalize a date string to ISO yyyy-mm-dd, reading numeric dates in the
+ * column's day/month order. Returns null when the value is not a date.
+ */
+function normalizeDateString(str: string, dateOrder: DateOrder | null): string | null {
+  const trimmed = str.trim();
+  
+  const numericDate = parseLocaleDate(trimmed, dateOrder);
+  if (numericDate) return numericDate;
+  
+  // Month-name formats are unambiguous, so Date.parse can read them
+  const namedPatterns = [
+    /^\w{3,9}\s+\d{1,2},?\s+\d{4}$/,  // Jan 1, 2024
+    /^\d{1,2}\s+\w{3,9}\s+\d{4}$/,    // 1 Jan 2024
+  ];
+  if (!namedPatterns.some(pattern => pattern.test(trimmed))) return null;
+  
+  const parsed = Date.parse(trimmed);
+  if (isNaN(parsed)) return null;
+  
+  // Check if the date is reasonable (between 1900 and 2100)
+  return formatISODate(new Date(parsed));
+}
+
+function formatISODate(date: Date): string | null {
+  const year = date.getFullYear();
+  if (year < 1900 || year > 2100) return null;
+  return `${year}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+function isTimestamp(str: string): boolean {
+  const trimmed = str.trim();
+  
+  // Check for timestamp formats (date with time)
+  const timestampPatterns = [
+    /^\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/,  // ISO 8601
+    /^\d{1,2}\/\d{1,2}\/\d{4}\s+\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)?$/i,  // MM/dd/yyyy HH:mm:ss AM/PM
+    /^\d{4}-\d{1,2}-\d{1,2}\s+\d{1,2}:\d{2}(:\d{2})?$/,  // yyyy-MM-dd HH:mm:ss
+    /^\w{3}\s+\d{1,2},?\s+\d{4}\s+\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)?$/i,  // Jan 1, 2024 12:00:00 PM
+  ];
+  
+  const matchesPattern = timestampPatterns.some(pattern => pattern.test(trimmed));
+  if (!matchesPattern) return false;
+  
+  const parsed = Date.parse(trimmed);
+  if (isNaN(parsed)) return false;
+  
+  const date = new Date(parsed);
+  const year = date.getFullYear();
+  return year >= 1900 && year <= 2100;
+}
+
+function isTimeString(str: string): boolean {
+  const trimmed = str.trim();
+  
+  // Check for time-only formats
+  const timePatterns = [
+    /^\d{1,2}:\d{2}(:\d{2})?$/,  // HH:mm:ss or HH:mm
+    /^\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)$/i,  // HH:mm:ss AM/PM
+  ];
+  
+  return timePatterns.some(pattern => pattern.test(trimmed));
+}
+
+function isUUID(str: string): boolean {
+  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidPattern.test(str.trim());
+}
+
+export function isEmail(str: string): boolean {
+  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailPattern.test(str.trim());
+}
+
+export function isURL(str: string): boolean {
+  try {
+    new URL(str.trim());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isJSONString(str: string): boolean {
+  const trimmed = str.trim();
+  if ((!trimmed.startsWith('{') || !trimmed.endsWith('}')) && 
+      (!trimmed.startsWith('[') || !trimmed.endsWith(']'))) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,136 @@
+import * as XLSX from 'xlsx';
+import { detectSheetRegion } from './sheetRegionDetector';
+import type { SheetRegionMetadata } from './fileParser';
+
+const REGION_PREVIEW_ROWS = 15;
+const REGION_PREVIEW_COLUMNS = 12;
+// SheetJS holds the whole workbook in memory, several times the file's size, so larger files are refused
+export const MAX_WORKBOOK_BYTES = 50 * 1024 * 1024;
+
+export interface ExcelSheetRows {
+  name: string;
+  headers: string[];
+  /** Uncleaned rows keyed by header, as rendered text */
+  rows: Record<string, any>[];
+  hasFormulas: boolean;
+  hasMergedCells: boolean;
+  region?: SheetRegionMetadata;
+  warnings: string[];
+}
+
+/**
+ * Throw for workbooks too large to load. Unlike CSV, Excel files are not
+ * read row by row, so a large one would run the tab out of memory.
+ */
+export function checkWorkbookSize(bytes: number) {
+  if (bytes > MAX_WORKBOOK_BYTES) {
+    throw new Error(`Excel files over ${MAX_WORKBOOK_BYTES / (1024 * 1024)} MB can't be loaded; save the sheet as CSV, which is read row by row, and upload that`);
+  }
+}
+
+export function readWorkbook(data: Uint8Array): XLSX.WorkBook {
+  checkWorkbookSize(data.byteLength);
+  return XLSX.read(data, {
+    type: 'array',
+    cellFormula: true,
+    cellHTML: false,
+    cellDates: true,
+    dateNF: 'mm/dd/yyyy',  // Ensure consistent date format
+    sheetStubs: true,
+    raw: false  // Process values instead of raw data
+  });
+}
+
+/**
+ * Locate the table in one worksheet and return its rows, expanding merged
+ * cells and skipping title blocks, subtotals and footers around it
+ */
+export function readExcelSheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  headerRowIndex?: number
+): ExcelSheetRows {
+  const worksheet = workbook.Sheets[sheetName];
+  const warnings: string[] = [];
+
+  // Check for merged cells
+  const hasMergedCells = !!worksheet['!merges'] && worksheet['!merges'].length > 0;
+  if (hasMergedCells) {
+    warnings.push(`Sheet "${sheetName}" contains merged cells which have been expanded`);
+    // Handle merged cells by expanding them
+    worksheet['!merges']!.forEach((merge: any) => {
+      const startCell = XLSX.utils.encode_cell(merge.s);
+      const value = worksheet[startCell]?.v;
+      for (let r = merge.s.r; r <= merge.e.r; r++) {
+        for (let c = merge.s.c; c <= merge.e.c; c++) {
+          const cell = XLSX.utils.encode_cell({ r, c });
+          if (!worksheet[cell]) {
+            worksheet[cell] = { t: 's', v: value || '' };
+          }
+        }
+      }
+    });
+  }
+
+  // Check for formulas
+  const hasFormulas = Object.keys(worksheet).some(key =>
+    key[0] !== '!' && worksheet[key]?.f
+  );
+
+  // Read the sheet as a grid so the header row and data block can be located,
+  // rather than assuming row 1 holds the headers
+  // Anchor the grid at A1 so row indexes line up with the row numbers Excel shows
+  const usedRange = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null;
+  if (usedRange) {
+    usedRange.s = { r: 0, c: 0 };
+  }
+  const grid = XLSX.utils.sheet_to_json<any[]>(worksheet, {
+    header: 1,
+    range: usedRange ? XLSX.utils.encode_range(usedRange) : undefined,
+    defval: null,
+    raw: false,
+    dateNF: 'mm/dd/yyyy',  // Use more common date format to preserve full dates
+    blankrows: true
+  });
+
+  if (grid.every(row => !row || row.every(cell => cell === null || cell === ''))) {
+    return { name: sheetName, headers: [], rows: [], hasFormulas, hasMergedCells, warnings };
+  }
+
+  const region = detectSheetRegion(grid, { headerRowIndex });
+  const regionMetadata: SheetRegionMetadata = {
+    headerRow: region.headerRowIndex + 1,
+    firstDataRow: region.firstDataRowIndex + 1,
+    lastDataRow: region.lastDataRowIndex + 1,
+    skippedRows: region.skippedRows,
+    confidence: region.confidence,
+    headerCandidates: region.headerCandidates.map(c => ({ row: c.rowIndex + 1, score: c.score })),
+    overridden: region.overridden,
+    previewRows: grid.slice(0, REGION_PREVIEW_ROWS).map(row =>
+      (row || []).slice(0, REGION_PREVIEW_COLUMNS).map(cell => cell === null || cell === undefined ? '' : String(cell))
+    )
+  };
+
+  if (region.headerRowIndex > 0) {
+    warnings.push(`Sheet "${sheetName}": using row ${region.headerRowIndex + 1} as the header row`);
+  }
+  const droppedSummaries = region.skippedRows.filter(r => r.reason === 'total' || r.reason === 'subtotal').length;
+  if (droppedSummaries > 0) {
+    warnings.push(`Sheet "${sheetName}": ${droppedSummaries} total/subtotal row${droppedSummaries === 1 ? '' : 's'} excluded`);
+  }
+
+  const headers = region.headers;
+  if (region.rows.length === 0) {
+    warnings.push(`Sheet "${sheetName}" has headers but no data`);
+  }
+
+  const rows = region.rows.map(row => {
+    const obj: Record<string, any> = {};
+    headers.forEach((header, i) => {
+      obj[header] = row[i] ?? null;
+    });
+    return obj;
+  });
+
+  return { name: sheetName, headers, rows, hasFormulas, hasMergedCells, region: regionMetadata, warnings };
+}
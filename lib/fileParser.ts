@@ -1,6 +1,25 @@
-import * as XLSX from 'xlsx';
 import * as Papa from 'papaparse';
-import Anthropic from '@anthropic-ai/sdk';
+import { extractPDFTables } from './pdfParser';
+import {
+  parseBankStatementText,
+  bankFeedSheetNames,
+  BANK_FEED_HEADERS,
+  BANK_FEED_DATA_TYPES,
+  type BankStatementFormat
+} from './bankStatementParser';
+import type { SkippedRow } from './sheetRegionDetector';
+import { getLocalePreset, type ColumnLocale, type LocalePreset } from './localeInference';
+import {
+  cleanAndValidateData,
+  describeLocaleConflicts,
+  extractJSONRecords,
+  EXCEL_RENDERED_LOCALE,
+  type CleanedData
+} from './dataCleaning';
+import { readWorkbook, readExcelSheet } from './excelReader';
+import { getLLMProvider } from './llmProvider';
+import { Redactor } from './redaction';
+import type { DatasetType, PrivacyPolicy } from '@/types';
 
 export interface ParsedFile {
   name: string;
@@ -23,9 +42,46 @@ export interface ParsedSheet {
     hasMergedCells?: boolean;
     hasEmptyRows?: boolean;
     dataTypes?: Record<string, string>;
+    /** Set when the sheet was normalized from a bank statement format */
+    bankFeed?: {
+      format: BankStatementFormat;
+      accountId?: string;
+      currency?: string;
+    };
+    /** Where the table was found in a sheet with title blocks, subtotals or footers */
+    region?: SheetRegionMetadata;
+    /** How numbers and dates were read, per column */
+    columnLocales?: Record<string, ColumnLocale>;
+    /** Extraction confidence (0-1) for tables recovered from PDFs */
+    confidence?: number;
+    sourcePage?: number;
+    warnings?: string[];
   };
 }
 
+export interface ParseOptions {
+  /** Per-sheet header row overrides (0-based row index), keyed by sheet name */
+  headerRows?: Record<string, number>;
+  /**
+   * Pin a locale (e.g. 'de-DE') for text formats. It settles ambiguous values
+   * like "1.234" or "03/04/2025"; unambiguous values still win.
+   */
+  locale?: string;
+}
+
+export interface SheetRegionMetadata {
+  /** 1-based row numbers, as shown in Excel */
+  headerRow: number;
+  firstDataRow: number;
+  lastDataRow: number;
+  skippedRows: SkippedRow[];
+  confidence: number;
+  headerCandidates: Array<{ row: number; score: number }>;
+  overridden: boolean;
+  /** Top of the raw sheet, so the user can pick a different header row */
+  previewRows: string[][];
+}
+
 export interface ParseProgress {
   loaded: number;
   total: number;
@@ -35,7 +91,8 @@ export interface ParseProgress {
 
 export async function parseFile(
   file: File, 
-  onProgress?: (progress: ParseProgress) => void
+  onProgress?: (progress: ParseProgress) => void,
+  options: ParseOptions = {}
 ): Promise<ParsedFile> {
   const startTime = Date.now();
   const extension = file.name.split('.').pop()?.toLowerCase();
@@ -43,24 +100,31 @@ export async function parseFile(
   onProgress?.({ loaded: 0, total: file.size, percentage: 0, phase: 'reading' });
   
   let result: ParsedFile;
+  const locale = getLocalePreset(options.locale);
   
   switch (extension) {
     case 'csv':
-      result = await parseCSV(file, onProgress);
+      result = await parseCSV(file, onProgress, locale);
       break;
     case 'tsv':
-      result = await parseTSV(file, onProgress);
+      result = await parseTSV(file, onProgress, locale);
       break;
     case 'xlsx':
     case 'xls':
     case 'xlsm':
-      result = await parseExcel(file, onProgress);
+      result = await parseExcel(file, onProgress, options.headerRows);
       break;
     case 'json':
-      result = await parseJSON(file, onProgress);
+      result = await parseJSON(file, onProgress, locale);
       break;
     case 'pdf':
-      result = await parsePDF(file, onProgress);
+      result = await parsePDF(file, onProgress, locale);
+      break;
+    case 'ofx':
+    case 'qfx':
+    case 'qif':
+    case 'xml':
+      result = await parseBankStatement(file, extension, onProgress);
       break;
     default:
       throw new Error(`Unsupported file type: ${extension}`);
@@ -83,7 +147,8 @@ export async function parseFile(
 
 async function parseCSV(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
+  onProgress?: (progress: ParseProgress) => void,
+  locale?: LocalePreset
 ): Promise<ParsedFile> {
   const text = await file.text();
   onProgress?.({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
@@ -92,7 +157,8 @@ async function parseCSV(
     Papa.parse(text, {
       header: true,
       skipEmptyLines: true,
-      dynamicTyping: true,
+      // Typing happens in cleanAndValidateData, where separators are known per column
+      dynamicTyping: false,
       complete: (results) => {
         onProgress?.({ loaded: file.size * 0.6, total: file.size, percentage: 60, phase: 'validating' });
         
@@ -103,7 +169,8 @@ async function parseCSV(
         }
         
         const headers = results.meta.fields || [];
-        const { cleanedData, dataTypes } = cleanAndValidateData(results.data, headers);
+        const { cleanedData, dataTypes, columnLocales } = cleanAndValidateData(results.data, headers, locale);
+        warnings.push(...describeLocaleConflicts('Sheet1', columnLocales, locale));
         
         const hasEmptyRows = results.data.length !== cleanedData.length;
         
@@ -115,7 +182,8 @@ async function parseCSV(
             headers,
             metadata: {
               hasEmptyRows,
-              dataTypes
+              dataTypes,
+              columnLocales
             }
           }],
           metadata: { warnings, totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
@@ -130,7 +198,8 @@ async function parseCSV(
 
 async function parseTSV(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
+  onProgress?: (progress: ParseProgress) => void,
+  locale?: LocalePreset
 ): Promise<ParsedFile> {
   const text = await file.text();
   onProgress?.({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
@@ -139,7 +208,8 @@ async function parseTSV(
     Papa.parse(text, {
       header: true,
       skipEmptyLines: true,
-      dynamicTyping: true,
+      // Typing happens in cleanAndValidateData, where separators are known per column
+      dynamicTyping: false,
       delimiter: '\t',
       complete: (results) => {
         onProgress?.({ loaded: file.size * 0.6, total: file.size, percentage: 60, phase: 'validating' });
@@ -150,7 +220,8 @@ async function parseTSV(
         }
         
         const headers = results.meta.fields || [];
-        const { cleanedData, dataTypes } = cleanAndValidateData(results.data, headers);
+        const { cleanedData, dataTypes, columnLocales } = cleanAndValidateData(results.data, headers, locale);
+        warnings.push(...describeLocaleConflicts('Sheet1', columnLocales, locale));
         
         resolve({
           name: file.name,
@@ -158,7 +229,7 @@ async function parseTSV(
             name: 'Sheet1',
             data: cleanedData,
             headers,
-            metadata: { dataTypes }
+            metadata: { dataTypes, columnLocales }
           }],
           metadata: { warnings, totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
         });
@@ -172,7 +243,8 @@ async function parseTSV(
 
 async function parseJSON(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
+  onProgress?: (progress: ParseProgress) => void,
+  locale?: LocalePreset
 ): Promise<ParsedFile> {
   try {
     const text = await file.text();
@@ -181,27 +253,10 @@ async function parseJSON(
     const jsonData = JSON.parse(text);
     onProgress?.({ loaded: file.size * 0.6, total: file.size, percentage: 60, phase: 'validating' });
     
-    let data: any[];
-    let headers: string[];
-    
-    if (Array.isArray(jsonData)) {
-      data = jsonData;
-      headers = data.length > 0 ? Object.keys(data[0]) : [];
-    } else if (jsonData && typeof jsonData === 'object') {
-      // Handle single object or nested structure
-      if (jsonData.data && Array.isArray(jsonData.data)) {
-        data = jsonData.data;
-        headers = data.length > 0 ? Object.keys(data[0]) : [];
-      } else {
-        // Convert single object to array
-        data = [jsonData];
-        headers = Object.keys(jsonData);
-      }
-    } else {
-      throw new Error('Invalid JSON structure for tabular data');
-    }
+    const { data, headers } = extractJSONRecords(jsonData);
     
-    const { cleanedData, dataTypes } = cleanAndValidateData(data, headers);
+    const { cleanedData, dataTypes, columnLocales } = cleanAndValidateData(data, headers, locale);
+    const warnings = describeLocaleConflicts('Sheet1', columnLocales, locale);
     
     return {
       name: file.name,
@@ -209,33 +264,58 @@ async function parseJSON(
         name: 'Sheet1',
         data: cleanedData,
         headers,
-        metadata: { dataTypes }
+        metadata: { dataTypes, columnLocales }
       }],
-      metadata: { totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
+      metadata: { warnings, totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
     };
   } catch (error) {
     throw new Error(`JSON parsing failed: ${error}`);
   }
 }
 
-async function parseExcel(
+async function parseBankStatement(
   file: File,
+  extension: string,
   onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedFile> {
+  const text = await file.text();
+  onProgress?.({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
+  
+  const statements = parseBankStatementText(text, extension);
+  const names = bankFeedSheetNames(statements);
+  
+  onProgress?.({ loaded: file.size * 0.6, total: file.size, percentage: 60, phase: 'validating' });
+  
+  return {
+    name: file.name,
+    sheets: statements.map((statement, index) => ({
+      name: names[index],
+      data: statement.transactions,
+      headers: [...BANK_FEED_HEADERS],
+      metadata: {
+        dataTypes: { ...BANK_FEED_DATA_TYPES },
+        bankFeed: {
+          format: statement.format,
+          accountId: statement.accountId,
+          currency: statement.currency
+        }
+      }
+    })),
+    metadata: { warnings: statements.flatMap(statement => statement.warnings), totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
+  };
+}
+
+async function parseExcel(
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  headerRows?: Record<string, number>
 ): Promise<ParsedFile> {
   try {
     const buffer = await file.arrayBuffer();
     const data = new Uint8Array(buffer);
     onProgress?.({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
     
-    const workbook = XLSX.read(data, { 
-      type: 'array',
-      cellFormula: true,
-      cellHTML: false,
-      cellDates: true,
-      dateNF: 'mm/dd/yyyy',  // Ensure consistent date format
-      sheetStubs: true,
-      raw: false  // Process values instead of raw data
-    });
+    const workbook = readWorkbook(data);
     
     const sheets: ParsedSheet[] = [];
     const warnings: string[] = [];
@@ -248,79 +328,31 @@ async function parseExcel(
         phase: 'parsing'
       });
       
-      const worksheet = workbook.Sheets[sheetName];
-      
-      // Check for merged cells
-      const hasMergedCells = worksheet['!merges'] && worksheet['!merges'].length > 0;
-      if (hasMergedCells) {
-        warnings.push(`Sheet "${sheetName}" contains merged cells which have been expanded`);
-        // Handle merged cells by expanding them
-        if (worksheet['!merges']) {
-          worksheet['!merges'].forEach((merge: any) => {
-            const startCell = XLSX.utils.encode_cell(merge.s);
-            const value = worksheet[startCell]?.v;
-            for (let r = merge.s.r; r <= merge.e.r; r++) {
-              for (let c = merge.s.c; c <= merge.e.c; c++) {
-                const cell = XLSX.utils.encode_cell({ r, c });
-                if (!worksheet[cell]) {
-                  worksheet[cell] = { t: 's', v: value || '' };
-                }
-              }
-            }
-          });
-        }
-      }
+      const sheet = readExcelSheet(workbook, sheetName, headerRows?.[sheetName]);
+      warnings.push(...sheet.warnings);
       
-      // Check for formulas
-      const hasFormulas = Object.keys(worksheet).some(key => 
-        key[0] !== '!' && worksheet[key]?.f
-      );
-      
-      // Convert to JSON with better options
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-        defval: null,
-        raw: false,
-        dateNF: 'mm/dd/yyyy',  // Use more common date format to preserve full dates
-        blankrows: false
-      });
-      
-      if (jsonData.length === 0) {
-        // Check if it's truly empty or just has headers
-        const range = worksheet['!ref'];
-        if (range) {
-          const headers = extractHeaders(worksheet, range);
-          if (headers.length > 0) {
-            sheets.push({
-              name: sheetName,
-              data: [],
-              headers,
-              metadata: { hasFormulas, hasMergedCells }
-            });
-            warnings.push(`Sheet "${sheetName}" has headers but no data`);
-            return;
-          }
-        }
-        
+      if (sheet.rows.length === 0) {
         sheets.push({
           name: sheetName,
           data: [],
-          headers: [],
-          metadata: { hasFormulas, hasMergedCells }
+          headers: sheet.headers,
+          metadata: { hasFormulas: sheet.hasFormulas, hasMergedCells: sheet.hasMergedCells, region: sheet.region }
         });
         return;
       }
       
-      const headers = Object.keys(jsonData[0] as any);
-      const { cleanedData, dataTypes } = cleanAndValidateData(jsonData, headers);
+      const { cleanedData, dataTypes, columnLocales } = cleanAndValidateData(sheet.rows, sheet.headers, EXCEL_RENDERED_LOCALE);
       
       sheets.push({
         name: sheetName,
         data: cleanedData,
-        headers,
+        headers: sheet.headers,
         metadata: {
-          hasFormulas,
-          hasMergedCells,
-          dataTypes
+          hasFormulas: sheet.hasFormulas,
+          hasMergedCells: sheet.hasMergedCells,
+          dataTypes,
+          columnLocales,
+          region: sheet.region
         }
       });
     });
@@ -338,51 +370,49 @@ async function parseExcel(
   }
 }
 
-function extractHeaders(worksheet: any, range: string): string[] {
-  const decoded = XLSX.utils.decode_range(range);
-  const headers: string[] = [];
-  
-  for (let c = decoded.s.c; c <= decoded.e.c; c++) {
-    const cell = worksheet[XLSX.utils.encode_cell({ r: decoded.s.r, c })];
-    if (cell && cell.v) {
-      headers.push(String(cell.v));
-    }
-  }
-  
-  return headers;
-}
-
 async function parsePDF(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
+  onProgress?: (progress: ParseProgress) => void,
+  locale?: LocalePreset
 ): Promise<ParsedFile> {
-  // Note: For production, you'd want to use a library like pdf.js or pdf-parse
-  // This is a simplified implementation that extracts text and attempts to identify tables
-  
   try {
+    const buffer = await file.arrayBuffer();
     onProgress?.({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
     
-    // For now, we'll do basic text extraction
-    // In a real implementation, you'd use pdf.js or similar to extract structured data
-    const text = await file.text();
-    const warnings: string[] = ['PDF table extraction is simplified. For better results, consider converting to Excel first.'];
+    const extraction = await extractPDFTables(new Uint8Array(buffer));
+    const warnings: string[] = [];
     
     onProgress?.({ loaded: file.size * 0.6, total: file.size, percentage: 60, phase: 'validating' });
     
-    // Try to identify table-like structures
-    const lines = text.split('\n').filter(line => line.trim() !== '');
-    const tables = extractTablesFromText(lines);
+    if (!extraction.hasTextLayer) {
+      warnings.push('PDF has no text layer (it is probably a scanned image). Run it through OCR or export the source data to Excel first.');
+    }
     
-    if (tables.length > 0) {
-      const sheets = tables.map((table, index) => ({
-        name: `Table_${index + 1}`,
-        data: table.data,
+    // One sheet per detected table, named after the page it starts on
+    const sheets: ParsedSheet[] = extraction.tables.map(table => {
+      const { cleanedData, dataTypes, columnLocales } = processTableData(table.headers, table.rows, locale);
+      const sheetName = `Page${table.page}_Table${table.index}`;
+      const tableWarnings = [
+        ...table.warnings.map(w => `${sheetName}: ${w}`),
+        ...describeLocaleConflicts(sheetName, columnLocales, locale)
+      ];
+      warnings.push(...tableWarnings);
+      
+      return {
+        name: sheetName,
+        data: cleanedData,
         headers: table.headers,
         metadata: {
-          dataTypes: table.dataTypes
+          dataTypes,
+          columnLocales,
+          confidence: table.confidence,
+          sourcePage: table.page,
+          warnings: tableWarnings
         }
-      }));
-      
+      };
+    });
+    
+    if (sheets.length > 0) {
       return {
         name: file.name,
         sheets,
@@ -390,10 +420,13 @@ async function parsePDF(
       };
     }
     
-    // Fallback: Create a simple line-by-line extraction
-    const data = lines.map((line, index) => ({
+    // Fallback: no tables found, keep the text lines so nothing is silently dropped
+    if (extraction.hasTextLayer) {
+      warnings.push('No tables were detected in the PDF; text lines were imported instead.');
+    }
+    const data = extraction.looseLines.map((line, index) => ({
       line_number: index + 1,
-      content: line.trim()
+      content: line
     }));
     
     return {
@@ -403,7 +436,8 @@ async function parsePDF(
         data,
         headers: ['line_number', 'content'],
         metadata: {
-          dataTypes: { line_number: 'number', content: 'string' }
+          dataTypes: { line_number: 'INTEGER', content: 'VARCHAR' },
+          warnings
         }
       }],
       metadata: { warnings, totalRows: 0, totalSheets: 0, fileSize: 0, parseTime: 0 }
@@ -430,396 +464,40 @@ async function parsePDF(
   }
 }
 
-function extractTablesFromText(lines: string[]): Array<{
-  headers: string[];
-  data: any[];
-  dataTypes: Record<string, string>;
-}> {
-  const tables: Array<{ headers: string[]; data: any[]; dataTypes: Record<string, string> }> = [];
-  
-  // Look for table-like patterns (lines with consistent delimiters)
-  let currentTable: { headers: string[]; rows: string[][] } | null = null;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // Check if line looks like a table row (has multiple columns separated by spaces/tabs)
-    const columns = line.split(/\s{2,}|\t/).filter(col => col.trim() !== '');
-    
-    if (columns.length >= 2) {
-      if (!currentTable) {
-        // Start new table with this as headers
-        currentTable = {
-          headers: columns.map(col => col.trim()),
-          rows: []
-        };
-      } else if (currentTable.rows.length < 100) {
-        // Add as data row (limit to prevent huge tables)
-        currentTable.rows.push(columns.map(col => col.trim()));
-      }
-    } else if (currentTable && currentTable.rows.length > 0) {
-      // End of table, process it
-      const { cleanedData, dataTypes } = processTableData(
-        currentTable.headers,
-        currentTable.rows
-      );
-      
-      if (cleanedData.length > 0) {
-        tables.push({
-          headers: currentTable.headers,
-          data: cleanedData,
-          dataTypes
-        });
-      }
-      
-      currentTable = null;
-    }
-  }
-  
-  // Process last table if exists
-  if (currentTable && currentTable.rows.length > 0) {
-    const { cleanedData, dataTypes } = processTableData(
-      currentTable.headers,
-      currentTable.rows
-    );
-    
-    if (cleanedData.length > 0) {
-      tables.push({
-        headers: currentTable.headers,
-        data: cleanedData,
-        dataTypes
-      });
-    }
-  }
-  
-  return tables;
-}
-
 function processTableData(
   headers: string[],
-  rows: string[][]
-): { cleanedData: any[]; dataTypes: Record<string, string> } {
+  rows: string[][],
+  locale?: LocalePreset
+): CleanedData {
+  // Values stay as text here so number and date formats are inferred per column
   const data = rows.map(row => {
     const obj: any = {};
     headers.forEach((header, index) => {
-      const value = row[index] || null;
-      if (value) {
-        // Try to parse as number
-        const numValue = parseNumericValue(value);
-        if (numValue !== null) {
-          obj[header] = numValue;
-        } else if (isDateString(value)) {
-          obj[header] = value;
-        } else {
-          obj[header] = value;
-        }
-      } else {
-        obj[header] = null;
-      }
+      obj[header] = row[index] || null;
     });
     return obj;
   });
   
-  return cleanAndValidateData(data, headers);
+  return cleanAndValidateData(data, headers, locale);
 }
 
-function cleanAndValidateData(
-  data: any[],
-  headers: string[]
-): { cleanedData: any[], dataTypes: Record<string, string> } {
-  const dataTypes: Record<string, string> = {};
-  const typeCounters: Record<string, Record<string, number>> = {};
-  
-  // Extended type counters for better DuckDB mapping
-  headers.forEach(header => {
-    typeCounters[header] = { 
-      string: 0, 
-      integer: 0, 
-      decimal: 0, 
-      date: 0, 
-      timestamp: 0, 
-      time: 0,
-      boolean: 0, 
-      json: 0,
-      uuid: 0,
-      email: 0,
-      url: 0,
-      null: 0 
-    };
-  });
-  
-  // Clean data and count types
-  const cleanedData = data.filter(row => {
-    // Filter out completely empty rows
-    const hasData = headers.some(header => row[header] !== null && row[header] !== undefined && row[header] !== '');
-    if (!hasData) return false;
-    
-    // Clean and validate each cell
-    for (const header of headers) {
-      let value = row[header];
-      
-      // Clean and detect type
-      if (value === undefined || value === '' || value === null) {
-        row[header] = null;
-        typeCounters[header].null++;
-      } else if (typeof value === 'boolean') {
-        typeCounters[header].boolean++;
-      } else if (typeof value === 'number') {
-        // Validate number and distinguish integer vs decimal
-        if (!isFinite(value)) {
-          row[header] = null;
-          typeCounters[header].null++;
-        } else if (Number.isInteger(value)) {
-          typeCounters[header].integer++;
-        } else {
-          typeCounters[header].decimal++;
-        }
-      } else if (typeof value === 'string') {
-        value = value.trim();
-        
-        // Enhanced type detection - CHECK DATES FIRST before numeric
-        if (isTimestamp(value)) {
-          // Keep as string but mark as timestamp
-          row[header] = value;
-          typeCounters[header].timestamp++;
-        } else if (isDateString(value)) {
-          // Keep as string but mark as date
-          row[header] = value;
-          typeCounters[header].date++;
-        } else if (isTimeString(value)) {
-          // Keep as string but mark as time
-          row[header] = value;
-          typeCounters[header].time++;
-        } else if (isUUID(value)) {
-          row[header] = value;
-          typeCounters[header].uuid++;
-        } else if (isEmail(value)) {
-          row[header] = value;
-          typeCounters[header].email++;
-        } else if (isURL(value)) {
-          row[header] = value;
-          typeCounters[header].url++;
-        } else if (value.toLowerCase() === 'true' || value.toLowerCase() === 'false') {
-          row[header] = value.toLowerCase() === 'true';
-          typeCounters[header].boolean++;
-        } else if (isJSONString(value)) {
-          row[header] = value;
-          typeCounters[header].json++;
-        } else {
-          // Check for numeric LAST after all other types
-          const numericValue = parseNumericValue(value);
-          if (numericValue !== null) {
-            row[header] = numericValue;
-            if (Number.isInteger(numericValue)) {
-              typeCounters[header].integer++;
-            } else {
-              typeCounters[header].decimal++;
-            }
-          } else {
-            row[header] = value;
-            typeCounters[header].string++;
-          }
-        }
-      } else if (value instanceof Date) {
-        // Handle Date objects - preserve as formatted date string for better compatibility
-        const dateStr = `${(value.getMonth() + 1).toString().padStart(2, '0')}/${value.getDate().toString().padStart(2, '0')}/${value.getFullYear()}`;
-        row[header] = dateStr;
-        typeCounters[header].date++;
-      }
-    }
-    
-    return true;
-  });
-  
-  // Determine dominant type for each column with smarter logic
-  headers.forEach(header => {
-    const counts = typeCounters[header];
-    const totalNonNull = Object.entries(counts)
-      .filter(([key]) => key !== 'null')
-      .reduce((sum, [, count]) => sum + count, 0);
-    
-    if (totalNonNull === 0) {
-      dataTypes[header] = 'VARCHAR';
-    } else {
-      // Determine DuckDB type based on dominant type and column name hints
-      const headerLower = header.toLowerCase();
-      
-      // Check for specific patterns in column names
-      if (counts.timestamp > totalNonNull * 0.5 || 
-          (counts.timestamp > 0 && (headerLower.includes('timestamp') || headerLower.includes('created') || headerLower.includes('updated')))) {
-        dataTypes[header] = 'TIMESTAMP';
-      } else if (counts.date > totalNonNull * 0.5 || 
-                 (counts.date > 0 && (headerLower.includes('date') || headerLower.includes('due') || headerLower.includes('deadline')))) {
-        dataTypes[header] = 'DATE';
-      } else if (counts.time > totalNonNull * 0.5 || 
-                 (counts.time > 0 && headerLower.includes('time'))) {
-        dataTypes[header] = 'TIME';
-      } else if (counts.boolean > totalNonNull * 0.5) {
-        dataTypes[header] = 'BOOLEAN';
-      } else if (counts.uuid > totalNonNull * 0.5 || 
-                 (counts.uuid > 0 && headerLower.includes('id') && counts.uuid > counts.integer)) {
-        dataTypes[header] = 'UUID';
-      } else if (counts.integer > totalNonNull * 0.5) {
-        // Choose appropriate integer type based on column name
-        if (headerLower.includes('id') || headerLower.includes('count') || headerLower.includes('quantity')) {
-          dataTypes[header] = 'BIGINT';
-        } else {
-          dataTypes[header] = 'INTEGER';
-        }
-      } else if (counts.decimal > totalNonNull * 0.3 || 
-                 (counts.decimal > 0 && (headerLower.includes('amount') || headerLower.includes('price') || 
-                  headerLower.includes('cost') || headerLower.includes('balance') || headerLower.includes('total') ||
-                  headerLower.includes('payment') || headerLower.includes('fee') || headerLower.includes('salary')))) {
-        dataTypes[header] = 'DECIMAL(18,2)';
-      } else if (counts.json > totalNonNull * 0.5) {
-        dataTypes[header] = 'JSON';
-      } else if (counts.email > totalNonNull * 0.5) {
-        dataTypes[header] = 'VARCHAR'; // Store emails as VARCHAR with validation
-      } else if (counts.url > totalNonNull * 0.5) {
-        dataTypes[header] = 'VARCHAR'; // Store URLs as VARCHAR
-      } else {
-        // Default to VARCHAR for mixed or string types
-        dataTypes[header] = 'VARCHAR';
-      }
-    }
-  });
-  
-  return { cleanedData, dataTypes };
-}
 
-function parseNumericValue(str: string): number | null {
-  // Remove common currency symbols and formatting
-  const cleaned = str.replace(/[$,€£¥₹\s]/g, '').trim();
-  
-  // Handle parentheses as negative (accounting format)
-  const isNegative = cleaned.startsWith('(') && cleaned.endsWith(')');
-  const numStr = isNegative ? cleaned.slice(1, -1) : cleaned;
-  
-  // Handle percentage
-  const isPercentage = numStr.endsWith('%');
-  const baseStr = isPercentage ? numStr.slice(0, -1) : numStr;
-  
-  // Try to parse as number
-  const num = parseFloat(baseStr);
-  
-  if (!isNaN(num) && isFinite(num)) {
-    let result = isNegative ? -num : num;
-    if (isPercentage) result = result / 100;
-    return result;
+/**
+ * Categorize a dataset, by the model when one is configured. PII in the
+ * sample rows is pseudonymized and blocked columns are left out.
+ */
+export async function detectDatasetType(sheets: ParsedSheet[], privacy?: PrivacyPolicy): Promise<DatasetType> {
+  // Bank statement imports are tagged by the parser, no need to guess from headers
+  if (sheets.length > 0 && sheets.every(sheet => sheet.metadata?.bankFeed)) {
+    return 'bank_feed';
   }
   
-  return null;
-}
-
-function isDateString(str: string): boolean {
-  const trimmed = str.trim();
-  
-  // Check for common date formats (without time)
-  const datePatterns = [
-    /^\d{1,2}\/\d{1,2}\/\d{4}$/,     // MM/dd/yyyy
-    /^\d{1,2}-\d{1,2}-\d{4}$/,      // MM-dd-yyyy
-    /^\d{4}-\d{1,2}-\d{1,2}$/,      // yyyy-MM-dd (ISO date)
-    /^\d{1,2}\/\d{1,2}\/\d{2}$/,    // MM/dd/yy
-    /^\d{1,2}\.\d{1,2}\.\d{4}$/,    // dd.MM.yyyy
-    /^\d{4}\/\d{1,2}\/\d{1,2}$/,    // yyyy/MM/dd
-    /^\w{3}\s+\d{1,2},?\s+\d{4}$/,  // Jan 1, 2024
-    /^\d{1,2}\s+\w{3}\s+\d{4}$/,    // 1 Jan 2024
-  ];
-  
-  // First check pattern
-  const matchesPattern = datePatterns.some(pattern => pattern.test(trimmed));
-  if (!matchesPattern) return false;
-  
-  // Then validate it's a real date
-  const parsed = Date.parse(trimmed);
-  if (isNaN(parsed)) return false;
-  
-  // Check if the date is reasonable (between 1900 and 2100)
-  const date = new Date(parsed);
-  const year = date.getFullYear();
-  return year >= 1900 && year <= 2100;
-}
-
-function isTimestamp(str: string): boolean {
-  const trimmed = str.trim();
-  
-  // Check for timestamp formats (date with time)
-  const timestampPatterns = [
-    /^\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/,  // ISO 8601
-    /^\d{1,2}\/\d{1,2}\/\d{4}\s+\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)?$/i,  // MM/dd/yyyy HH:mm:ss AM/PM
-    /^\d{4}-\d{1,2}-\d{1,2}\s+\d{1,2}:\d{2}(:\d{2})?$/,  // yyyy-MM-dd HH:mm:ss
-    /^\w{3}\s+\d{1,2},?\s+\d{4}\s+\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)?$/i,  // Jan 1, 2024 12:00:00 PM
-  ];
-  
-  const matchesPattern = timestampPatterns.some(pattern => pattern.test(trimmed));
-  if (!matchesPattern) return false;
-  
-  const parsed = Date.parse(trimmed);
-  if (isNaN(parsed)) return false;
-  
-  const date = new Date(parsed);
-  const year = date.getFullYear();
-  return year >= 1900 && year <= 2100;
-}
-
-function isTimeString(str: string): boolean {
-  const trimmed = str.trim();
-  
-  // Check for time-only formats
-  const timePatterns = [
-    /^\d{1,2}:\d{2}(:\d{2})?$/,  // HH:mm:ss or HH:mm
-    /^\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)$/i,  // HH:mm:ss AM/PM
-  ];
-  
-  return timePatterns.some(pattern => pattern.test(trimmed));
-}
-
-function isUUID(str: string): boolean {
-  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidPattern.test(str.trim());
-}
-
-function isEmail(str: string): boolean {
-  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailPattern.test(str.trim());
-}
-
-function isURL(str: string): boolean {
-  try {
-    new URL(str.trim());
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-function isJSONString(str: string): boolean {
-  const trimmed = str.trim();
-  if ((!trimmed.startsWith('{') || !trimmed.endsWith('}')) && 
-      (!trimmed.startsWith('[') || !trimmed.endsWith(']'))) {
-    return false;
-  }
-  try {
-    JSON.parse(trimmed);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Initialize Anthropic client for dataset detection
-const anthropic = process.env.ANTHROPIC_API_KEY 
-  ? new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
-  : null;
-
-export async function detectDatasetType(sheets: ParsedSheet[]): Promise<'financial' | 'inventory' | 'sales' | 'hr' | 'general'> {
   // Try LLM-based detection first if available
-  if (anthropic) {
+  const llm = getLLMProvider();
+  if (llm) {
     try {
       const allHeaders = sheets.flatMap(sheet => sheet.headers);
-      const sampleData = sheets[0]?.data.slice(0, 3) || [];
+      const sampleData = new Redactor(privacy).redactRows(sheets[0]?.data.slice(0, 3) || []);
       
       const prompt = `Analyze the following dataset and categorize it into one of these types: financial, inventory, sales, hr, or general.
 
@@ -840,9 +518,9 @@ Consider:
 - HR: employee data, salaries, departments, positions, attendance
 - General: if it doesn't clearly fit the above categories`;
 
-      const response = await anthropic.messages.create({
-        model: 'claude-3-5-haiku-20241022',
-        max_tokens: 10,
+      const response = await llm.complete({
+        task: 'classify',
+        maxTokens: 10,
         temperature: 0,
         messages: [
           {
@@ -852,11 +530,10 @@ Consider:
         ]
       });
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const category = content.text.trim().toLowerCase();
+      if (response.text) {
+        const category = response.text.trim().toLowerCase();
         if (['financial', 'inventory', 'sales', 'hr', 'general'].includes(category)) {
-          return category as 'financial' | 'inventory' | 'sales' | 'hr' | 'general';
+          return category as DatasetType;
         }
       }
     } catch (error) {
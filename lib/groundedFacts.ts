@@ -0,0 +1,169 @@
+import type { ComputedFact } from '@/types';
+
+/**
+ * Computed facts keep the numbers in an answer honest. The browser runs
+ * aggregates over the whole query result in DuckDB and sends them with the
+ * rows; the model is told to cite only those, and its answer is checked for
+ * numbers that trace to nothing it was given.
+ */
+
+// Columns summarized per result, so the facts stay a readable list
+const MAX_FACT_COLUMNS = 12;
+
+// Whole numbers up to this are ranks, list positions and "top 5"s, not claims
+const MAX_UNCHECKED_INTEGER = 10;
+
+// Relative slack for rounded figures such as "about 18%" or "$1.2M"
+const RELATIVE_TOLERANCE = 0.005;
+
+const NUMBER_IN_TEXT = /(?<![\w./:-])(\d[\d,]*(?:\.\d+)?)(%|\s?(?:k|K|M|bn|million|billion|thousand)\b)?(?![\w/:]|[.,-]\d)/g;
+const NUMBER_IN_DATA = /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/gi;
+
+const SCALES: Record<string, number> = {
+  k: 1e3, K: 1e3, thousand: 1e3,
+  M: 1e6, million: 1e6,
+  bn: 1e9, billion: 1e9
+};
+
+/**
+ * Aggregate query over a result: its row count, and sum, average, min and
+ * max of numeric columns or the distinct count of the others. Null when the
+ * rows have no columns.
+ */
+export function factsQuery(sql: string, rows: Record<string, any>[]): string | null {
+  const columns = Object.keys(rows[0] ?? {}).slice(0, MAX_FACT_COLUMNS);
+  if (columns.length === 0) return null;
+
+  const selects = ['COUNT(*) AS "row_count"'];
+  for (const column of columns) {
+    const name = factName(column);
+    const ref = quote(column);
+    if (isNumericColumn(rows, column)) {
+      selects.push(
+        `SUM(${ref}) AS "total_${name}"`,
+        `AVG(${ref}) AS "average_${name}"`,
+        `MIN(${ref}) AS "min_${name}"`,
+        `MAX(${ref}) AS "max_${name}"`
+      );
+    } else {
+      selects.push(`COUNT(DISTINCT ${ref}) AS "distinct_${name}"`);
+    }
+  }
+  return `SELECT ${selects.join(', ')} FROM (\n${sql}\n) AS result`;
+}
+
+/**
+ * Run factsQuery through `run` (the browser's DuckDB) and name each value.
+ * Returns no facts when the aggregate fails, since the rows still stand.
+ */
+export async function computeResultFacts(
+  sql: string,
+  rows: Record<string, any>[],
+  run: (sql: string) => Promise<Record<string, any>[]>
+): Promise<ComputedFact[]> {
+  const query = factsQuery(sql, rows);
+  if (!query) return [];
+  try {
+    const [aggregates] = await run(query);
+    const rowCount = Number(aggregates?.row_count ?? rows.length);
+    const columns = Object.keys(rows[0] ?? {}).slice(0, MAX_FACT_COLUMNS);
+    const facts: ComputedFact[] = [{ name: 'row_count', value: rowCount, description: 'rows in the result' }];
+    for (const [name, raw] of Object.entries(aggregates ?? {})) {
+      if (name === 'row_count' || raw === null || raw === undefined) continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value)) continue;
+      const [kind] = name.split('_');
+      const column = columns.find(col => name === `${kind}_${factName(col)}`) ?? name;
+      facts.push({ name, value: roundValue(value), description: `${describeKind(kind)} of "${column}" over ${rowCount} rows` });
+    }
+    return facts;
+  } catch (error) {
+    console.error('Computing result facts failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Rows in the whole result by its row_count fact, or `fallback` when the
+ * facts have none. Results are fetched with a row limit, so the rows at hand
+ * can be fewer.
+ */
+export function totalRows(facts: ComputedFact[] | undefined, fallback: number): number {
+  const count = facts?.find(fact => fact.name === 'row_count')?.value;
+  return typeof count === 'number' && Number.isFinite(count) ? count : fallback;
+}
+
+/**
+ * Facts as prompt lines, e.g. `total_amount = 18170.5 (sum of "amount" over 4 rows)`
+ */
+export function formatFacts(facts: ComputedFact[] | undefined): string {
+  return (facts ?? []).map(fact => `- ${fact.name} = ${fact.value} (${fact.description})`).join('\n');
+}
+
+/**
+ * Every number in data the model was given, such as tool results as JSON
+ */
+export function numbersIn(text: string): number[] {
+  return (text.match(NUMBER_IN_DATA) ?? []).map(Number).filter(Number.isFinite);
+}
+
+/**
+ * Numbers cited in `text` that match none of the `known` values, as written.
+ * A cited number matches when it equals a known value to the precision it
+ * was written with, as a percentage of it, or within half a percent. Years
+ * and small whole numbers are not checked.
+ */
+export function findUngroundedNumbers(text: string, known: number[]): string[] {
+  const values = known.map(Math.abs);
+  const ungrounded = new Set<string>();
+
+  for (const match of Array.from(text.matchAll(NUMBER_IN_TEXT))) {
+    const [cited, digits, suffix = ''] = match;
+    const number = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(number)) continue;
+    const isInteger = !digits.includes('.') && !suffix;
+    if (isInteger && (number <= MAX_UNCHECKED_INTEGER || (!digits.includes(',') && number >= 1900 && number <= 2100))) {
+      continue;
+    }
+
+    // What the number may stand for, each with the rounding it was written to
+    const precision = 0.5 * 10 ** -(digits.split('.')[1]?.length ?? 0);
+    const scale = SCALES[suffix.trim()] ?? 1;
+    const candidates = suffix === '%'
+      ? [{ value: number, precision }, { value: number / 100, precision: precision / 100 }]
+      : [{ value: number * scale, precision: precision * scale }];
+    const grounded = candidates.some(candidate => values.some(value =>
+      Math.abs(candidate.value - value) <= Math.max(candidate.precision, value * RELATIVE_TOLERANCE)
+    ));
+    if (!grounded) ungrounded.add(cited.trim());
+  }
+  return Array.from(ungrounded);
+}
+
+function isNumericColumn(rows: Record<string, any>[], column: string): boolean {
+  const value = rows.find(row => row[column] !== null && row[column] !== undefined)?.[column];
+  return typeof value === 'number' || typeof value === 'bigint';
+}
+
+function factName(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+}
+
+function describeKind(kind: string): string {
+  switch (kind) {
+    case 'total': return 'sum';
+    case 'average': return 'average';
+    case 'min': return 'minimum';
+    case 'max': return 'maximum';
+    case 'distinct': return 'distinct values';
+    default: return kind;
+  }
+}
+
+function roundValue(value: number): number {
+  return Number.isInteger(value) ? value : Number(value.toFixed(4));
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
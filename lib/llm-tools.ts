@@ -1,18 +1,14 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import ExcelJS from 'exceljs';
-
-// Initialize Anthropic client
-const anthropic = process.env.ANTHROPIC_API_KEY 
-  ? new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
-  : null;
+import { getLLMProvider } from './llmProvider';
+import { Redactor } from './redaction';
+import type { PrivacyPolicy } from '@/types';
 
 export interface ToolExecutionResult {
   success: boolean;
-  type: 'report' | 'email' | 'invoice' | 'export';
+  /** 'tool' for failures reported by the tool registry before a handler runs */
+  type: 'report' | 'email' | 'invoice' | 'export' | 'tool';
   content?: string;
   file?: {
     data: Buffer | Blob | string;
@@ -29,6 +25,8 @@ export interface ReportGenerationParams {
   analysis?: string;
   format: 'pdf' | 'excel' | 'html';
   userQuery: string;
+  /** Columns to pseudonymize or leave out of the prompt */
+  privacy?: PrivacyPolicy;
 }
 
 export interface EmailGenerationParams {
@@ -36,6 +34,8 @@ export interface EmailGenerationParams {
   recipient: string;
   data: any[];
   context: string;
+  /** Columns to pseudonymize or leave out of the prompt */
+  privacy?: PrivacyPolicy;
 }
 
 export interface EmailSendParams {
@@ -87,7 +87,8 @@ export async function generateReport(params: ReportGenerationParams): Promise<To
  * Generate report content using LLM
  */
 async function generateReportContent(params: ReportGenerationParams): Promise<any> {
-  if (!anthropic) {
+  const llm = getLLMProvider();
+  if (!llm) {
     // Fallback content without LLM
     return {
       title: params.title,
@@ -104,11 +105,14 @@ async function generateReportContent(params: ReportGenerationParams): Promise<an
     };
   }
 
+  // PII goes to the model as tokens that are restored in the report
+  const redactor = new Redactor(params.privacy);
+  const sample = redactor.redactRows(params.data.slice(0, 10));
   const prompt = `You are creating a professional financial report. Analyze the following data and create a structured report.
 
-User Query: ${params.userQuery}
-Report Title: ${params.title}
-Data Sample (first 10 rows): ${JSON.stringify(params.data.slice(0, 10), null, 2)}
+User Query: ${redactor.redactText(params.userQuery)}
+Report Title: ${redactor.redactText(params.title)}
+Data Sample (first 10 rows): ${JSON.stringify(sample, null, 2)}
 Total Records: ${params.data.length}
 
 Generate a comprehensive report with the following structure:
@@ -134,9 +138,10 @@ Format your response as JSON with this structure:
 }`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+    const response = await llm.complete({
+      task: 'report',
+      maxTokens: 2000,
+      json: true,
       temperature: 0.3,
       system: 'You are a financial analyst creating professional reports. Always respond with valid JSON.',
       messages: [
@@ -147,15 +152,14 @@ Format your response as JSON with this structure:
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
+    if (response.text) {
       try {
-        return JSON.parse(content.text);
+        return redactor.rehydrate(JSON.parse(response.text));
       } catch {
         // Try to extract JSON from the response
-        const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+        const jsonMatch = response.text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
+          return redactor.rehydrate(JSON.parse(jsonMatch[0]));
         }
       }
     }
@@ -511,7 +515,8 @@ export async function generateEmail(params: EmailGenerationParams): Promise<Tool
  * Generate email content using LLM
  */
 async function generateEmailContent(params: EmailGenerationParams): Promise<any> {
-  if (!anthropic) {
+  const llm = getLLMProvider();
+  if (!llm) {
     // Fallback content
     return {
       subject: `${params.type.charAt(0).toUpperCase() + params.type.slice(1)} - ${new Date().toLocaleDateString()}`,
@@ -523,11 +528,12 @@ async function generateEmailContent(params: EmailGenerationParams): Promise<any>
     };
   }
 
+  const redactor = new Redactor(params.privacy);
   const prompt = `You are creating a professional email for a financial context. Generate email content based on the following:
 
 Type: ${params.type}
-Recipient: ${params.recipient}
-Context: ${params.context}
+Recipient: ${redactor.redactText(params.recipient)}
+Context: ${redactor.redactText(params.context)}
 Data Summary: ${params.data.length} records
 
 Generate professional email content appropriate for the type. Return JSON with this structure:
@@ -547,9 +553,10 @@ For reminders: Include urgency and specific action items
 For statements: Include account summary and period covered`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1000,
+    const response = await llm.complete({
+      task: 'email',
+      maxTokens: 1000,
+      json: true,
       temperature: 0.3,
       system: 'You are a professional business communication expert. Always respond with valid JSON.',
       messages: [
@@ -560,14 +567,13 @@ For statements: Include account summary and period covered`;
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
+    if (response.text) {
       try {
-        return JSON.parse(content.text);
+        return redactor.rehydrate(JSON.parse(response.text));
       } catch {
-        const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+        const jsonMatch = response.text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
+          return redactor.rehydrate(JSON.parse(jsonMatch[0]));
         }
       }
     }
@@ -663,37 +669,44 @@ async function createEmailHTML(content: any, params: EmailGenerationParams): Pro
   return html;
 }
 
+/**
+ * HTML body of an email sent with sendEmail, also shown when the user reviews it
+ */
+export function renderEmailHTML(message: string, data?: any[]): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="white-space: pre-wrap;">${message}</div>
+      ${data && data.length > 0 ? `
+        <table style="width: 100%; border-collapse: collapse; margin-top: 20px;">
+          <thead>
+            <tr style="background-color: #f5f5f5;">
+              ${Object.keys(data[0]).map(key => 
+                `<th style="padding: 10px; text-align: left; border: 1px solid #ddd;">${key}</th>`
+              ).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${data.map(row => `
+              <tr>
+                ${Object.values(row).map(value => 
+                  `<td style="padding: 10px; border: 1px solid #ddd;">${value ?? ''}</td>`
+                ).join('')}
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      ` : ''}
+    </div>
+  `;
+}
+
 /**
  * Send email with optional data
  */
 export async function sendEmail(params: EmailSendParams): Promise<ToolExecutionResult> {
   try {
     // Prepare the email content
-    const emailHtml = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <div style="white-space: pre-wrap;">${params.message}</div>
-        ${params.data && params.data.length > 0 ? `
-          <table style="width: 100%; border-collapse: collapse; margin-top: 20px;">
-            <thead>
-              <tr style="background-color: #f5f5f5;">
-                ${Object.keys(params.data[0]).map(key => 
-                  `<th style="padding: 10px; text-align: left; border: 1px solid #ddd;">${key}</th>`
-                ).join('')}
-              </tr>
-            </thead>
-            <tbody>
-              ${params.data.map(row => `
-                <tr>
-                  ${Object.values(row).map(value => 
-                    `<td style="padding: 10px; border: 1px solid #ddd;">${value ?? ''}</td>`
-                  ).join('')}
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        ` : ''}
-      </div>
-    `;
+    const emailHtml = renderEmailHTML(params.message, params.data);
 
     // Send via API - use absolute URL for server-side fetch
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
@@ -737,16 +750,17 @@ export async function sendEmail(params: EmailSendParams): Promise<ToolExecutionR
 /**
  * Generate invoice using LLM
  */
-export async function generateInvoice(data: any[], context: string): Promise<ToolExecutionResult> {
-  const invoiceData = await generateInvoiceContent(data, context);
+export async function generateInvoice(data: any[], context: string, privacy?: PrivacyPolicy): Promise<ToolExecutionResult> {
+  const invoiceData = await generateInvoiceContent(data, context, privacy);
   return await createInvoicePDF(invoiceData);
 }
 
 /**
  * Generate invoice content using LLM
  */
-async function generateInvoiceContent(data: any[], context: string): Promise<any> {
-  if (!anthropic) {
+async function generateInvoiceContent(data: any[], context: string, privacy?: PrivacyPolicy): Promise<any> {
+  const llm = getLLMProvider();
+  if (!llm) {
     return {
       invoiceNumber: `INV-${Date.now()}`,
       date: new Date().toLocaleDateString(),
@@ -758,9 +772,11 @@ async function generateInvoiceContent(data: any[], context: string): Promise<any
     };
   }
 
+  const redactor = new Redactor(privacy);
+  const sample = redactor.redactRows(data.slice(0, 10));
   const prompt = `Generate a professional invoice based on this data:
-Context: ${context}
-Data: ${JSON.stringify(data.slice(0, 10), null, 2)}
+Context: ${redactor.redactText(context)}
+Data: ${JSON.stringify(sample, null, 2)}
 
 Return JSON with invoice details including:
 - Invoice number
@@ -770,9 +786,10 @@ Return JSON with invoice details including:
 - Payment terms`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1500,
+    const response = await llm.complete({
+      task: 'invoice',
+      maxTokens: 1500,
+      json: true,
       temperature: 0,
       messages: [
         {
@@ -782,15 +799,14 @@ Return JSON with invoice details including:
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
+    if (response.text) {
       try {
-        return JSON.parse(content.text);
+        return redactor.rehydrate(JSON.parse(response.text));
       } catch {
         // Extract JSON if wrapped in text
-        const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+        const jsonMatch = response.text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
+          return redactor.rehydrate(JSON.parse(jsonMatch[0]));
         }
       }
     }
@@ -957,4 +973,46 @@ Status: ${result.order.payment?.status || 'awaiting-payment'}${paymentInfo}`,
       error: error instanceof Error ? error.message : 'Failed to purchase product'
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Export rows as a CSV file
+ */
+export async function exportCSV(data: any[], filename: string = 'export.csv'): Promise<ToolExecutionResult> {
+  if (!data || data.length === 0) {
+    return {
+      success: false,
+      type: 'export',
+      error: 'No data to export'
+    };
+  }
+  
+  // Get headers from first row
+  const headers = Object.keys(data[0]);
+  
+  // Create CSV content
+  const csvContent = [
+    headers.join(','),
+    ...data.map(row => 
+      headers.map(header => {
+        const value = row[header];
+        // Escape values containing commas or quotes
+        if (value === null || value === undefined) return '';
+        const stringValue = String(value);
+        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+          return `"${stringValue.replace(/"/g, '""')}"`;
+        }
+        return stringValue;
+      }).join(',')
+    )
+  ].join('\n');
+  
+  return {
+    success: true,
+    type: 'export',
+    file: {
+      data: csvContent,
+      filename: filename.endsWith('.csv') ? filename : `${filename}.csv`,
+      mimetype: 'text/csv'
+    }
+  };
+}
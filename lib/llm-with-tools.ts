@@ -1,299 +1,560 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { sendEmail, purchaseProduct } from './llm-tools';
-
-// Initialize Anthropic client
-const anthropic = process.env.ANTHROPIC_API_KEY 
-  ? new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
-  : null;
-
-// Define available tools for the LLM
-const tools: Anthropic.Tool[] = [
-  {
-    name: 'send_email',
-    description: 'Send an email to one or more recipients with invoice reminders, payment notifications, or reports',
-    input_schema: {
-      type: 'object',
-      properties: {
-        to: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Email addresses of recipients'
-        },
-        subject: {
-          type: 'string',
-          description: 'Email subject line'
-        },
-        message: {
-          type: 'string',
-          description: 'Email body message'
-        },
-        data: {
-          type: 'array',
-          items: { type: 'object' },
-          description: 'Optional data to include in the email as a table'
-        }
-      },
-      required: ['to', 'subject', 'message']
-    }
-  },
-  {
-    name: 'execute_sql',
-    description: 'Execute a SQL query against the database',
-    input_schema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'SQL query to execute'
-        },
-        explanation: {
-          type: 'string',
-          description: 'Explanation of what the query does'
-        }
-      },
-      required: ['query']
+import { getLLMProvider, type LLMContentBlock, type LLMMessage } from './llmProvider';
+import { sqlRequirements } from './llm';
+import { formatConversation } from './conversation';
+import { formatSemanticLayer } from './semanticLayer';
+import { previewToolCall, requiresApproval } from './toolPolicy';
+import { getTool, llmToolDefinitions, runTool } from './toolRegistry';
+import { Redactor, historyPseudonyms } from './redaction';
+import { findUngroundedNumbers, formatFacts, numbersIn } from './groundedFacts';
+import { saveArtifact } from './artifactStore';
+import { readToken, redeemToken, signToken } from './signedToken';
+import type {
+  ActionDecision,
+  AgentStep,
+  Artifact,
+  ComputedFact,
+  ConversationTurn,
+  PendingAction,
+  PrivacyPolicy,
+  SemanticLayer
+} from '@/types';
+
+/** Model calls allowed per request before the agent stops and reports what it has */
+export const MAX_AGENT_STEPS = Number(process.env.AGENT_MAX_STEPS) || 8;
+
+/** Input plus output tokens the agent may spend on one request */
+export const AGENT_TOKEN_BUDGET = Number(process.env.AGENT_TOKEN_BUDGET) || 60000;
+
+// Rows and characters of a tool result that are sent back to the model
+const MAX_RESULT_ROWS = 50;
+const MAX_TOOL_RESULT_CHARS = 8000;
+// How long a run can wait on the client's queries and the user's approvals
+const AGENT_STATE_TTL_MS = 60 * 60 * 1000;
+const AGENT_STATE_TOKEN = 'agent_state';
+const INVALID_STATE = 'The agent run could not be resumed: its state was changed, was not issued by this server or has expired. Ask again.';
+const RESUMED_STATE = 'This agent run was already resumed, so its actions are not run again. Ask again to start a new run.';
+
+/** A query the model asked for; the client runs it in DuckDB and sends back the rows */
+export interface PendingQuery {
+  toolUseId: string;
+  query: string;
+  explanation?: string;
+}
+
+/** Result of a client-executed tool call */
+export interface ClientToolResult {
+  toolUseId: string;
+  rows?: any[];
+  rowCount?: number;
+  /** Aggregates over every row of the result, computed in DuckDB */
+  facts?: ComputedFact[];
+  /** Outcome of a statement that returns no rows, such as a confirmed write */
+  content?: string;
+  error?: string;
+}
+
+/**
+ * Everything needed to continue a run. It round-trips through the client
+ * while queries are executed in the browser, sealed by sealAgentState.
+ */
+export interface AgentState {
+  messages: LLMMessage[];
+  steps: AgentStep[];
+  modelCalls: number;
+  tokens: number;
+  pending?: PendingQuery[];
+  /** Irreversible calls waiting for the user's decision */
+  approvals?: PendingAction[];
+  /** Server tool results from the same turn as the pending queries and approvals */
+  heldResults?: LLMContentBlock[];
+  /** Files from approved calls run while resuming */
+  files?: Artifact[];
+  /** Token to real value for the PII the model has only seen as tokens */
+  pseudonyms?: Record<string, string>;
+}
+
+export interface AgentContext {
+  tableSchemas: any[];
+  history?: ConversationTurn[];
+  semanticLayer?: SemanticLayer;
+  allowWrites?: boolean;
+  /** Which columns reach the model, and which as tokens */
+  privacy?: PrivacyPolicy;
+}
+
+/** Progress of a run as it happens, for streaming it to the client */
+export interface AgentEvents {
+  /** Reply text as the model writes it */
+  onText?: (delta: string) => void;
+  /** What the agent is doing right now, e.g. "Generating PDF report…" */
+  onStatus?: (status: string) => void;
+  /** Each step once it finishes */
+  onStep?: (step: AgentStep) => void;
+  signal?: AbortSignal;
+}
+
+export type AgentOutcome =
+  | {
+      status: 'done';
+      content: string;
+      steps: AgentStep[];
+      files: Artifact[];
+      /** Numbers in the answer that appear in no tool result or message */
+      ungroundedNumbers?: string[];
     }
-  },
-  {
-    name: 'generate_report',
-    description: 'Generate a formatted report (PDF, Excel, or HTML) from data',
-    input_schema: {
-      type: 'object',
-      properties: {
-        title: {
-          type: 'string',
-          description: 'Report title'
-        },
-        format: {
-          type: 'string',
-          enum: ['pdf', 'excel', 'html'],
-          description: 'Output format for the report'
-        },
-        data: {
-          type: 'array',
-          items: { type: 'object' },
-          description: 'Data to include in the report'
-        }
-      },
-      required: ['title', 'format', 'data']
+  | {
+      status: 'needs_client';
+      queries: PendingQuery[];
+      approvals: PendingAction[];
+      /** The run's state, signed; send it back unchanged to resume */
+      state: string;
+      steps: AgentStep[];
+      files: Artifact[];
     }
-  },
-  {
-    name: 'purchase_product',
-    description: 'Purchase a product when user asks to order items that are low in stock or under reorder point or when user asks to order a specific item',
-    input_schema: {
-      type: 'object',
-      properties: {
-        productUrl: {
-          type: 'string',
-          description: 'The URL of the product to purchase'
-        },
-        recipientEmail: {
-          type: 'string',
-          description: 'Email address of the recipient (optional, defaults to russell@vancuren.net)'
-        }
-      },
-      required: ['productUrl']
+  | {
+      status: 'stopped';
+      reason: 'step_limit' | 'budget' | 'cancelled';
+      content: string;
+      steps: AgentStep[];
+      files: Artifact[];
+    };
+
+/**
+ * Start a run for a new user message. Email addresses in it reach the model
+ * as tokens like the ones in query results, and so does PII from earlier
+ * turns, which the history carries the tokens of.
+ */
+export function startAgent(message: string, privacy?: PrivacyPolicy, history?: ConversationTurn[]): AgentState {
+  const redactor = new Redactor(privacy, historyPseudonyms(history));
+  return {
+    messages: [{ role: 'user', content: redactor.redactText(message) }],
+    steps: [],
+    modelCalls: 0,
+    tokens: 0,
+    pseudonyms: redactor.pseudonyms
+  };
+}
+
+/**
+ * Sign a run's state so the client can hold it while it runs queries and
+ * the user decides on actions, without being able to change it. The run
+ * can be resumed from it once.
+ */
+export function sealAgentState(state: AgentState): string {
+  return signToken(AGENT_STATE_TOKEN, state, AGENT_STATE_TTL_MS);
+}
+
+/**
+ * The state sealed by sealAgentState, or null when the signature doesn't
+ * match or the run has waited too long. Says nothing about whether the run
+ * was already resumed from it.
+ */
+export function openAgentState(sealed: unknown): AgentState | null {
+  return readToken<AgentState>(AGENT_STATE_TOKEN, sealed)?.payload ?? null;
+}
+
+/**
+ * Why the client's results can't resume the run, or null when they answer
+ * exactly the queries and approvals it is waiting on
+ */
+export function checkClientResults(
+  state: AgentState,
+  { toolResults = [], decisions = [] }: { toolResults?: ClientToolResult[]; decisions?: ActionDecision[] }
+): string | null {
+  const answered = (ids: string[], given: string[]) =>
+    ids.length === given.length && ids.every(id => given.includes(id));
+  const pending = (state.pending ?? []).map(p => p.toolUseId);
+  const approvals = (state.approvals ?? []).map(a => a.toolUseId);
+  if (pending.length + approvals.length === 0) {
+    return 'The agent is not waiting on any results';
+  }
+  if (!answered(pending, toolResults.map(r => r.toolUseId)) || !answered(approvals, decisions.map(d => d.toolUseId))) {
+    return 'Tool results do not match what the agent is waiting on';
+  }
+  return null;
+}
+
+/**
+ * Continue a sealed run with the client's query results and the user's
+ * decisions on held actions. Approved actions run here; rejected ones are
+ * reported to the model as refused. Rows are redacted by the context's
+ * privacy policy. Throws when the state was not sealed by this server, has
+ * expired or was already resumed, and when the client doesn't answer
+ * exactly what the run is waiting on. Steps added here are passed to `events.onStep`.
+ */
+export async function resumeAgent(
+  sealed: string,
+  { toolResults = [], decisions = [] }: { toolResults?: ClientToolResult[]; decisions?: ActionDecision[] },
+  context: Pick<AgentContext, 'privacy'> = {},
+  events: AgentEvents = {}
+): Promise<AgentState> {
+  const token = readToken<AgentState>(AGENT_STATE_TOKEN, sealed);
+  if (!token) throw new Error(INVALID_STATE);
+  const state = token.payload;
+
+  const problem = checkClientResults(state, { toolResults, decisions });
+  if (problem) throw new Error(problem);
+
+  // Approved actions send email and place orders; a retried or replayed resume must not run them again
+  if (!(await redeemToken(token))) throw new Error(RESUMED_STATE);
+
+  const pending = state.pending ?? [];
+  const approvals = state.approvals ?? [];
+  const resultsById = new Map(toolResults.map(r => [r.toolUseId, r]));
+  const decisionsById = new Map(decisions.map(d => [d.toolUseId, d]));
+
+  const steps = [...state.steps];
+  const record = (step: AgentStep) => {
+    steps.push(step);
+    events.onStep?.(step);
+  };
+  const files: Artifact[] = [];
+  const blocks: LLMContentBlock[] = [...(state.heldResults ?? [])];
+  const redactor = new Redactor(context.privacy, state.pseudonyms);
+  for (const query of pending) {
+    const result = resultsById.get(query.toolUseId)!;
+    const rowCount = result.rowCount ?? result.rows?.length ?? 0;
+    record({
+      kind: 'tool',
+      name: 'execute_sql',
+      summary: result.error
+        ? 'Query failed'
+        : result.content ?? `Query returned ${rowCount} row${rowCount === 1 ? '' : 's'}`,
+      status: result.error ? 'error' : 'ok',
+      detail: result.error ? `${query.query}\n\n${result.error}` : query.query
+    });
+    blocks.push({
+      type: 'tool_result',
+      toolUseId: query.toolUseId,
+      content: result.error
+        ? redactor.redactText(`Query failed: ${result.error}`)
+        : result.content ?? formatRows(redactor.redactRows(result.rows ?? []), rowCount, result.facts),
+      isError: !!result.error
+    });
+  }
+
+  for (const action of approvals) {
+    if (!decisionsById.get(action.toolUseId)!.approved) {
+      record({ kind: 'tool', name: action.tool, summary: `Rejected by the user: ${action.title}`, status: 'error' });
+      blocks.push({
+        type: 'tool_result',
+        toolUseId: action.toolUseId,
+        content: 'The user rejected this action, so it was not carried out. Do not retry it unless they ask.',
+        isError: true
+      });
+      continue;
     }
+    blocks.push(await runServerTool(
+      { id: action.toolUseId, name: action.tool, input: action.input },
+      { record, files, redactor, events },
+      true
+    ));
   }
-];
-
-export interface LLMResponse {
-  content: string;
-  toolCalls?: Array<{
-    name: string;
-    input: any;
-  }>;
-  shouldExecuteTools: boolean;
+
+  return {
+    messages: [...state.messages, { role: 'user', content: blocks }],
+    steps,
+    modelCalls: state.modelCalls,
+    tokens: state.tokens,
+    files,
+    pseudonyms: redactor.pseudonyms
+  };
 }
 
 /**
- * Process user message with tool-enabled LLM
+ * Run the tool loop: call the model, execute the tools it asks for, feed the
+ * results back and repeat until it answers. Returns early with the queries
+ * the client has to run when the model calls execute_sql, and with the
+ * actions the user has to approve. The model works with PII tokens; its text
+ * and tool inputs are rehydrated before anything else sees them.
  */
-export async function processWithTools(
-  message: string,
-  tableSchemas: any[],
-  queryResults?: any[]
-): Promise<LLMResponse> {
-  if (!anthropic) {
+export async function runToolAgent(
+  state: AgentState,
+  context: AgentContext,
+  events: AgentEvents = {}
+): Promise<AgentOutcome> {
+  const llm = getLLMProvider();
+  if (!llm) {
     return {
-      content: 'LLM is not configured. Please add your Anthropic API key.',
-      shouldExecuteTools: false
+      status: 'done',
+      content: 'LLM is not configured. Please add an Anthropic or OpenAI API key, or set LLM_PROVIDER=replay.',
+      steps: state.steps,
+      files: []
     };
   }
 
-  try {
-    // Build context about available data
-    const schemaContext = tableSchemas.map(s => 
-      `Table: ${s.tableName}\nColumns: ${s.columns.map((c: any) => `${c.name} (${c.type})`).join(', ')}`
-    ).join('\n\n');
+  const redactor = new Redactor(context.privacy, state.pseudonyms);
+  const system = buildAgentPrompt(context, redactor);
+  const tools = llmToolDefinitions();
+  const messages = [...state.messages];
+  const steps = [...state.steps];
+  const files: Artifact[] = [...(state.files ?? [])];
+  let { modelCalls, tokens } = state;
+  let lastText = '';
+  const record = (step: AgentStep) => {
+    steps.push(step);
+    events.onStep?.(step);
+  };
+
+  while (true) {
+    if (events.signal?.aborted) {
+      return { status: 'stopped', reason: 'cancelled', content: lastText, steps, files };
+    }
+    if (modelCalls >= MAX_AGENT_STEPS || tokens >= AGENT_TOKEN_BUDGET) {
+      const reason = modelCalls >= MAX_AGENT_STEPS ? 'step_limit' : 'budget';
+      const limit = reason === 'step_limit' ? `${MAX_AGENT_STEPS} steps` : `the ${AGENT_TOKEN_BUDGET.toLocaleString()} token budget`;
+      return {
+        status: 'stopped',
+        reason,
+        content: `I stopped after ${limit} without finishing.${lastText ? `\n\n${lastText}` : ''}`,
+        steps,
+        files
+      };
+    }
+
+    let response;
+    events.onStatus?.('Thinking…');
+    const stream = events.onText ? redactor.rehydrateStream(events.onText) : undefined;
+    try {
+      response = await llm.complete(
+        { task: 'tools', maxTokens: 2000, temperature: 0.3, system, messages, tools },
+        { onText: stream?.push, signal: events.signal }
+      );
+      stream?.flush();
+    } catch (error) {
+      if (events.signal?.aborted) {
+        return { status: 'stopped', reason: 'cancelled', content: lastText, steps, files };
+      }
+      console.error('LLM with tools error:', error);
+      record({ kind: 'model', summary: 'Model call failed', status: 'error', detail: errorMessage(error) });
+      return { status: 'done', content: 'Failed to process your request. Please try again.', steps, files };
+    }
+
+    modelCalls++;
+    const used = response.usage ? response.usage.inputTokens + response.usage.outputTokens : undefined;
+    tokens += used ?? 0;
+    const text = redactor.rehydrate(response.text);
+    lastText = text.trim() || lastText;
+
+    const content: LLMContentBlock[] = [];
+    if (response.text) content.push({ type: 'text', text: response.text });
+    for (const call of response.toolCalls) {
+      content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input });
+    }
+    messages.push({ role: 'assistant', content });
+    record({
+      kind: 'model',
+      summary: response.toolCalls.length > 0
+        ? `Called ${response.toolCalls.map(c => c.name).join(', ')}`
+        : 'Answered',
+      status: 'ok',
+      detail: text.trim() || undefined,
+      tokens: used
+    });
+
+    if (response.toolCalls.length === 0) {
+      return {
+        status: 'done',
+        content: text,
+        steps,
+        files,
+        // Checked before rehydration, so digits of restored PII aren't taken for figures
+        ungroundedNumbers: findUngroundedNumbers(response.text, groundedValues(messages))
+      };
+    }
+
+    const queries: PendingQuery[] = [];
+    const approvals: PendingAction[] = [];
+    const results: LLMContentBlock[] = [];
+    for (const call of response.toolCalls) {
+      // Tools get the real values the model only knows by their tokens
+      const input = redactor.rehydrate(call.input);
+      if (call.name === 'execute_sql') {
+        queries.push({
+          toolUseId: call.id,
+          query: String(input?.query ?? '').trim().replace(/;+$/, ''),
+          explanation: input?.explanation
+        });
+      } else if (requiresApproval(call.name)) {
+        approvals.push(previewToolCall(call.id, call.name, input));
+      } else {
+        results.push(await runServerTool({ ...call, input }, { record, files, redactor, events }));
+      }
+    }
+
+    if (queries.length > 0 || approvals.length > 0) {
+      const next: AgentState = {
+        messages,
+        steps,
+        modelCalls,
+        tokens,
+        pending: queries,
+        approvals,
+        heldResults: results,
+        pseudonyms: redactor.pseudonyms
+      };
+      return { status: 'needs_client', queries, approvals, state: sealAgentState(next), steps, files };
+    }
+    messages.push({ role: 'user', content: results });
+  }
+}
+
+interface ServerToolRun {
+  record: (step: AgentStep) => void;
+  files: Artifact[];
+  redactor: Redactor;
+  events?: AgentEvents;
+}
 
-    const dataContext = queryResults && queryResults.length > 0
-      ? `\nCurrent query results: ${queryResults.length} rows\nSample: ${JSON.stringify(queryResults[0], null, 2)}`
-      : '';
+// Run a tool on the server, recording its step and any file it produced
+async function runServerTool(
+  call: { id: string; name: string; input: any },
+  { record, files, redactor, events = {} }: ServerToolRun,
+  approved = false
+): Promise<LLMContentBlock> {
+  events.onStatus?.(getTool(call.name)?.progress?.(call.input ?? {}) ?? `Running ${call.name}…`);
+  const [{ result }] = await executeToolCalls([{ name: call.name, input: call.input }], { approved, privacy: redactor.policy });
+  if (result.file) {
+    try {
+      files.push(await saveArtifact(result.file));
+    } catch (error) {
+      console.error(`Storing the file from ${call.name} failed:`, error);
+    }
+  }
+  record({
+    kind: 'tool',
+    name: call.name,
+    summary: result.success ? result.content || `${call.name} succeeded` : result.error || `${call.name} failed`,
+    status: result.success ? 'ok' : 'error',
+    detail: truncate(JSON.stringify(call.input, null, 2), 2000)
+  });
+  return {
+    type: 'tool_result',
+    toolUseId: call.id,
+    content: redactor.redactText(describeToolResult(result)),
+    isError: !result.success
+  };
+}
 
-    const systemPrompt = `You are an AI assistant helping users analyze financial data and perform actions like sending emails, generating reports, purchasing products, and executing SQL queries.
+function buildAgentPrompt(context: AgentContext, redactor: Redactor): string {
+  const schemaContext = context.tableSchemas.map(s =>
+    `Table: ${s.tableName}\nColumns: ${s.columns.map((c: any) => `${c.name} (${c.type})`).join(', ')}`
+  ).join('\n\n');
+
+  const glossary = formatSemanticLayer(context.semanticLayer);
+  const glossaryContext = glossary ? `\n${glossary}\n` : '';
+
+  const conversation = redactor.redactText(formatConversation(context.history));
+  const conversationContext = conversation
+    ? `\nConversation so far (oldest first); the message may refer back to these turns:\n${conversation}\n`
+    : '';
+
+  return `You are an AI assistant helping users analyze financial data and perform actions like sending emails, generating reports, purchasing products, and executing SQL queries.
 
 Available database schema:
 ${schemaContext}
-${dataContext}
+${glossaryContext}${conversationContext}
+Work in steps. Each tool result comes back to you before your next step, so look at the data before acting on it:
+- Query data: Use the execute_sql tool. You receive the rows (at most ${MAX_RESULT_ROWS}) or the DuckDB error; fix the query and try again if it fails
+- Send emails/invoices/reminders: First query the recipients and amounts, then use the send_email tool with the addresses and figures from the rows
+- Generate reports: Use the generate_report tool with rows you have queried
+- Order items that are low in stock or under reorder point: Query the items first, then use the purchase_product tool with the product URL from the data
 
-When users ask to:
-- Send emails/invoices/reminders: Use the send_email tool
-- Query data: Use the execute_sql tool
-- Generate reports: Use the generate_report tool
-- Order items that are low in stock or under reorder point: Use the purchase_product tool with the product URL from the data
+SQL for execute_sql:
+${sqlRequirements({ allowWrites: context.allowWrites })}
 
 For purchasing products:
 - Look for product URLs in the data (could be in fields like 'product_url', 'url', 'link', etc.)
-- Use the purchase_product tool to create orders for items that need restocking
 - The tool will create a Crossmint order for the specified product
 
-Analyze the user's intent and use the appropriate tools to help them.`;
-
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
-      temperature: 0.3,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: message
-        }
-      ],
-      tools: tools,
-      tool_choice: { type: 'auto' }
-    });
+Sending emails and purchasing products are held for the user to review. The tool result tells you whether they approved it; if they rejected it, don't try again unless they ask.
 
-    // Process the response
-    let finalContent = '';
-    const toolCalls: Array<{ name: string; input: any }> = [];
-    
-    for (const block of response.content) {
-      if (block.type === 'text') {
-        finalContent += block.text;
-      } else if (block.type === 'tool_use') {
-        toolCalls.push({
-          name: block.name,
-          input: block.input
-        });
-      }
-    }
+Personal data such as names and email addresses appears as tokens like EMAIL_1f3a9c0b5d27e468 or NAME_04b2e1aa93c6f107. Use the tokens exactly as they appear, in SQL, tool inputs and your answer; they are replaced with the real values before anything runs or is shown.
 
-    return {
-      content: finalContent,
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      shouldExecuteTools: toolCalls.length > 0
-    };
+Never invent email addresses, URLs or amounts; take them from query results. Query results come with values computed over every row; state totals, averages, counts and extremes only from those, never by adding up the rows you were shown. When you are done, answer the user in a few sentences of markdown without calling a tool.`;
+}
 
-  } catch (error) {
-    console.error('LLM with tools error:', error);
-    return {
-      content: 'Failed to process your request. Please try again.',
-      shouldExecuteTools: false
-    };
+function formatRows(rows: any[], rowCount: number, facts?: ComputedFact[]): string {
+  const shown = rows.slice(0, MAX_RESULT_ROWS);
+  let text = JSON.stringify(shown, (_key, value) => (typeof value === 'bigint' ? Number(value) : value));
+  while (text.length > MAX_TOOL_RESULT_CHARS && shown.length > 1) {
+    shown.splice(Math.ceil(shown.length / 2));
+    text = JSON.stringify(shown, (_key, value) => (typeof value === 'bigint' ? Number(value) : value));
   }
+  const note = shown.length < rowCount ? ` (showing the first ${shown.length})` : '';
+  const header = `${rowCount} row${rowCount === 1 ? '' : 's'}${note}`;
+  // Facts come before the rows so truncating a long result never drops them
+  if (facts && facts.length > 0) {
+    return truncate(
+      `${header}.\nComputed over all ${rowCount} rows; cite these for totals, averages, counts and extremes:\n${formatFacts(facts)}\n\nRows:\n${text}`,
+      MAX_TOOL_RESULT_CHARS
+    );
+  }
+  return truncate(`${header}:\n${text}`, MAX_TOOL_RESULT_CHARS);
+}
+
+// Numbers the model was given: the user's messages and every tool result
+function groundedValues(messages: LLMMessage[]): number[] {
+  return messages.flatMap(message => {
+    if (typeof message.content === 'string') return message.role === 'user' ? numbersIn(message.content) : [];
+    return message.content.flatMap(block => block.type === 'tool_result' ? numbersIn(block.content) : []);
+  });
+}
+
+// The model gets a description of the result; file contents go to the client only
+function describeToolResult(result: any): string {
+  const { file, html, ...rest } = result ?? {};
+  return truncate(JSON.stringify(file ? { ...rest, file: file.filename } : rest), MAX_TOOL_RESULT_CHARS);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 /**
- * Execute tool calls made by the LLM
+ * Execute tool calls made by the LLM through the tool registry. Irreversible
+ * tools are refused unless the user approved the calls (see toolPolicy.ts)
  */
 export async function executeToolCalls(
-  toolCalls: Array<{ name: string; input: any }>
+  toolCalls: Array<{ name: string; input: any }>,
+  { approved = false, privacy }: { approved?: boolean; privacy?: PrivacyPolicy } = {}
 ): Promise<Array<{ tool: string; result: any }>> {
   const results = [];
 
   for (const call of toolCalls) {
-    try {
-      let result;
-      
-      // Check if the tool input has an error
-      if (call.input?.error) {
-        results.push({
-          tool: call.name,
-          result: {
-            success: false,
-            error: call.input.error
-          }
-        });
-        continue;
-      }
-      
-      switch (call.name) {
-        case 'send_email':
-          // Check if we have email configuration
-          const hasMailgunConfig = process.env.MAILGUN_API_KEY && process.env.MAILGUN_DOMAIN;
-          
-          if (!hasMailgunConfig) {
-            result = {
-              success: false,
-              error: 'Email service not configured. Please add Mailgun credentials to your environment variables.'
-            };
-          } else {
-            result = await sendEmail({
-              to: call.input.to,
-              subject: call.input.subject,
-              message: call.input.message,
-              data: call.input.data
-            });
-          }
-          break;
-
-        case 'execute_sql':
-          // Return SQL for client-side execution
-          result = {
-            success: true,
-            type: 'sql_query',
-            query: call.input.query,
-            explanation: call.input.explanation || 'Executing SQL query',
-            shouldExecuteClient: true
-          };
-          break;
-
-        case 'generate_report':
-          // Use the existing generate report functionality
-          const { generateReport } = await import('./llm-tools');
-          result = await generateReport({
-            title: call.input.title,
-            format: call.input.format,
-            data: call.input.data,
-            analysis: '',
-            userQuery: ''
-          });
-          break;
-
-        case 'purchase_product':
-          // Use the purchase product functionality
-          result = await purchaseProduct({
-            productUrl: call.input.productUrl,
-            recipientEmail: call.input.recipientEmail || 'russell@vancuren.net'
-          });
-          break;
-
-        default:
-          result = {
-            success: false,
-            error: `Unknown tool: ${call.name}`
-          };
-      }
-
+    // Check if the tool input has an error
+    if (call.input?.error) {
       results.push({
         tool: call.name,
-        result
+        result: {
+          success: false,
+          error: call.input.error
+        }
       });
-    } catch (error) {
+      continue;
+    }
+
+    // Irreversible tools only run once the user has approved the call
+    if (requiresApproval(call.name) && !approved) {
       results.push({
         tool: call.name,
         result: {
           success: false,
-          error: error instanceof Error ? error.message : 'Tool execution failed'
+          error: `${call.name} needs the user's approval before it can run`
         }
       });
+      continue;
     }
+
+    results.push({
+      tool: call.name,
+      result: await runTool(call.name, call.input, { privacy })
+    });
   }
 
   return results;
-}
\ No newline at end of file
+}
@@ -1,13 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { analyzeTable, executeQuery } from './database';
-
-// Initialize Anthropic client
-// Note: In production, use environment variables
-const anthropic = process.env.ANTHROPIC_API_KEY 
-  ? new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
-  : null;
+import { getLLMProvider } from './llmProvider';
+import type { QueryAttempt, ConversationTurn, SemanticLayer, PrivacyPolicy, ComputedFact, ActionSuggestion } from '@/types';
+import { formatConversation } from './conversation';
+import { formatSemanticLayer } from './semanticLayer';
+import { Redactor, historyPseudonyms } from './redaction';
+import { findUngroundedNumbers, formatFacts, numbersIn, totalRows } from './groundedFacts';
+import { suggestActions } from './suggestions';
 
 export interface TableSchema {
   tableName: string;
@@ -26,16 +24,79 @@ export interface SQLQueryResult {
   error?: string;
 }
 
+export interface SQLGenerationOptions {
+  /** Data edit mode: the user may ask for INSERT, UPDATE or DELETE statements */
+  allowWrites?: boolean;
+  /** Earlier turns of the conversation, so follow-up questions can be resolved */
+  history?: ConversationTurn[];
+  /** The dataset's column roles and metric definitions */
+  semanticLayer?: SemanticLayer;
+  /** How PII in the question, history and earlier attempts reaches the model */
+  privacy?: PrivacyPolicy;
+}
+
+// Prompt line for questions, history and queries that may hold PII tokens
+const TOKEN_NOTE = 'Personal data such as names and email addresses appears as tokens like EMAIL_1f3a9c0b5d27e468 or NAME_04b2e1aa93c6f107. Use the tokens exactly as they appear, e.g. in WHERE clauses; they are replaced with the real values before the query runs.';
+
+/**
+ * Prompt section with the dataset's business glossary, or '' when it has none
+ */
+function glossarySection(layer?: SemanticLayer): string {
+  const glossary = formatSemanticLayer(layer);
+  return glossary ? `${glossary}\n\n` : '';
+}
+
+/**
+ * Prompt section describing the conversation so far, or '' for a first question
+ */
+function conversationSection(history?: ConversationTurn[]): string {
+  const summary = formatConversation(history);
+  if (!summary) return '';
+  return `Conversation so far (oldest first):
+${summary}
+
+The question may follow up on these turns ("those", "that", "now only...", "group it by month"). Resolve such references against the earlier SQL, usually by refining the most recent query.
+
+`;
+}
+
+/**
+ * Rules every generated query must follow, as a prompt bullet list
+ */
+export function sqlRequirements(options: SQLGenerationOptions = {}): string {
+  return `- Use DuckDB SQL syntax
+- Use double quotes for column names with spaces or special characters
+- For date comparisons, use CURRENT_DATE
+- For currency/amount columns, handle them as DOUBLE or DECIMAL
+- Include appropriate JOINs if the question spans multiple tables
+- Always include ORDER BY and LIMIT clauses when appropriate
+- Do NOT include semicolons at the end of the query
+- Write exactly one statement and only reference the tables and columns listed above
+${options.allowWrites
+  ? '- If the question asks to change data, write a single INSERT, UPDATE or DELETE; never CREATE, ALTER or DROP'
+  : '- Write a read-only SELECT query; never modify data'}`;
+}
+
+const READ_STATEMENT = /^\s*(SELECT|WITH|FROM)\b/i;
+const WRITE_STATEMENT = /^\s*(INSERT|UPDATE|DELETE)\b/i;
+
+/**
+ * First-pass check of generated SQL on the server. The client parses and
+ * validates the statement again before running it.
+ */
+export function isAllowedStatement(query: string, options: SQLGenerationOptions = {}): boolean {
+  return READ_STATEMENT.test(query) || (!!options.allowWrites && WRITE_STATEMENT.test(query));
+}
+
 export interface AnalysisResult {
   content: string;
   query?: string;
   data?: any[];
   insights?: string[];
-  suggestions?: Array<{
-    id: string;
-    label: string;
-    category: 'invoice' | 'voucher' | 'approval' | 'export' | 'analysis';
-  }>;
+  /** Chips for the result, from the roles of its columns */
+  suggestions?: ActionSuggestion[];
+  /** Numbers in the analysis that match no computed value or sample row */
+  ungroundedNumbers?: string[];
 }
 
 /**
@@ -43,24 +104,28 @@ export interface AnalysisResult {
  */
 export async function naturalLanguageToSQL(
   question: string,
-  schemas: TableSchema[]
+  schemas: TableSchema[],
+  options: SQLGenerationOptions = {}
 ): Promise<SQLQueryResult> {
-  if (!anthropic) {
-    // Fallback to pattern matching if no API key
+  const llm = getLLMProvider();
+  if (!llm) {
+    // Fallback to pattern matching if no provider is configured
     return fallbackNLToSQL(question, schemas);
   }
 
   try {
-    const schemaDescription = schemas.map(s => 
-      `Table: ${s.tableName}\nColumns: ${s.columns.map(c => `${c.name} (${c.type})`).join(', ')}\nRows: ${s.rowCount || 'unknown'}`
-    ).join('\n\n');
+    const schemaDescription = describeSchemas(schemas);
+    // Earlier answers hold real values again; the history's tokens turn them back
+    const redactor = new Redactor(options.privacy, historyPseudonyms(options.history));
 
     const prompt = `You are a SQL expert helping to analyze financial data in DuckDB. Convert the following natural language question to a SQL query.
 
 Database Schema:
 ${schemaDescription}
 
-Question: ${question}
+${glossarySection(options.semanticLayer)}${redactor.redactText(conversationSection(options.history))}Question: ${redactor.redactText(question)}
+
+${TOKEN_NOTE}
 
 Generate a SQL query that answers this question. 
 
@@ -73,18 +138,13 @@ Return your response in this EXACT format:
 }
 
 SQL Requirements:
-- Use DuckDB SQL syntax
-- Use double quotes for column names with spaces or special characters
-- For date comparisons, use CURRENT_DATE
-- For currency/amount columns, handle them as DOUBLE or DECIMAL
-- Include appropriate JOINs if the question spans multiple tables
-- Always include ORDER BY and LIMIT clauses when appropriate
-- Do NOT include semicolons at the end of the query`;
+${sqlRequirements(options)}`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1000,
+    const response = await llm.complete({
+      task: 'sql',
+      maxTokens: 1000,
       temperature: 0,
+      json: true,
       system: 'You are a SQL expert. Always respond with valid JSON.',
       messages: [
         {
@@ -94,100 +154,209 @@ SQL Requirements:
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
-      // Clean the response text - remove markdown code blocks if present
-      let cleanedText = content.text.trim();
-      
-      // Remove markdown JSON code blocks
-      cleanedText = cleanedText.replace(/^```json?\s*/i, '').replace(/\s*```$/i, '');
+    const parsed = parseSQLResponse(response.text, options);
+    if (parsed) return redactor.rehydrate(parsed);
+
+    return fallbackNLToSQL(question, schemas);
+  } catch (error) {
+    console.error('Error in naturalLanguageToSQL:', error);
+    return fallbackNLToSQL(question, schemas);
+  }
+}
+
+/**
+ * Revise a query that failed in DuckDB. Every earlier attempt is sent with
+ * its error (and plan, when the query got that far) so the model doesn't
+ * repeat a fix that already failed.
+ */
+export async function repairSQL(
+  question: string,
+  schemas: TableSchema[],
+  attempts: QueryAttempt[],
+  options: SQLGenerationOptions = {}
+): Promise<SQLQueryResult> {
+  const llm = getLLMProvider();
+  if (!llm) {
+    return { query: '', explanation: '', error: 'Query repair needs an LLM. Set ANTHROPIC_API_KEY, OPENAI_API_KEY or LLM_PROVIDER to enable it.' };
+  }
+
+  try {
+    // Attempts ran with real values, and errors and plans can quote them
+    const redactor = new Redactor(options.privacy, historyPseudonyms(options.history));
+    const history = redactor.redactText(attempts.map((attempt, i) =>
+      `Attempt ${i + 1}:\n${attempt.query}\nError: ${attempt.error || 'none'}` +
+      (attempt.plan ? `\nEXPLAIN output:\n${attempt.plan}` : '')
+    ).join('\n\n'));
+
+    const prompt = `A SQL query written for DuckDB to answer a question failed. Fix it.
+
+Database Schema:
+${describeSchemas(schemas)}
+
+${glossarySection(options.semanticLayer)}${redactor.redactText(conversationSection(options.history))}Question: ${redactor.redactText(question)}
+
+Previous attempts, oldest first:
+${history}
+
+${TOKEN_NOTE}
+
+Return ONLY a JSON object in this EXACT format:
+{
+  "query": "SELECT ...",
+  "explanation": "Brief explanation of what the query does and what was fixed"
+}
+
+Requirements:
+- Address the error of the last attempt and do not repeat an earlier failed query
+- Use only the tables and columns in the schema, quoting names with spaces or special characters
+- Write exactly one statement without a trailing semicolon
+${options.allowWrites
+  ? '- Keep the statement kind of the original query; never CREATE, ALTER or DROP'
+  : '- Write a read-only SELECT query; never modify data'}`;
+
+    const response = await llm.complete({
+      task: 'sql',
+      maxTokens: 1000,
+      temperature: 0,
+      json: true,
+      system: 'You are a SQL expert fixing DuckDB queries. Always respond with valid JSON.',
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    });
+
+    const parsed = parseSQLResponse(response.text, options);
+    return parsed ? redactor.rehydrate(parsed) : { query: '', explanation: '', error: 'The model did not return a revised query' };
+  } catch (error) {
+    console.error('Error in repairSQL:', error);
+    return { query: '', explanation: '', error: 'Query repair failed' };
+  }
+}
+
+function describeSchemas(schemas: TableSchema[]): string {
+  return schemas.map(s => 
+    `Table: ${s.tableName}\nColumns: ${s.columns.map(c => `${c.name} (${c.type})`).join(', ')}\nRows: ${s.rowCount || 'unknown'}`
+  ).join('\n\n');
+}
+
+/**
+ * Pull the query out of a model response: the requested JSON object, or
+ * failing that a bare SQL statement or code block
+ */
+function parseSQLResponse(text: string, options: SQLGenerationOptions): SQLQueryResult | null {
+  // Clean the response text - remove markdown code blocks if present
+  let cleanedText = text.trim();
+  
+  // Remove markdown JSON code blocks
+  cleanedText = cleanedText.replace(/^```json?\s*/i, '').replace(/\s*```$/i, '');
+  
+  // Try to find JSON object in the response
+  const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const result = JSON.parse(jsonMatch[0]);
       
-      // Try to find JSON object in the response
-      const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          const result = JSON.parse(jsonMatch[0]);
-          
-          // Validate the response structure
-          if (result.query && typeof result.query === 'string') {
-            // Clean up the SQL query
-            let query = result.query.trim();
-            
-            // Remove any trailing semicolons (DuckDB doesn't need them)
-            query = query.replace(/;\s*$/, '');
-            
-            // Validate basic SQL syntax
-            if (!query.match(/^\s*(SELECT|WITH|INSERT|UPDATE|DELETE|CREATE|DROP|ALTER)/i)) {
-              throw new Error('Invalid SQL query structure');
-            }
-            
-            return {
-              query: query,
-              explanation: result.explanation || 'Generated SQL query',
-              suggestions: Array.isArray(result.suggestions) ? result.suggestions : []
-            };
-          }
-        } catch (parseError) {
-          console.warn('Failed to parse JSON response:', parseError);
+      // Validate the response structure
+      if (result.query && typeof result.query === 'string') {
+        // Clean up the SQL query
+        let query = result.query.trim();
+        
+        // Remove any trailing semicolons (DuckDB doesn't need them)
+        query = query.replace(/;\s*$/, '');
+        
+        // Validate basic SQL syntax
+        if (!isAllowedStatement(query, options)) {
+          throw new Error('Invalid SQL query structure');
         }
+        
+        return {
+          query: query,
+          explanation: result.explanation || 'Generated SQL query',
+          suggestions: Array.isArray(result.suggestions) ? result.suggestions : []
+        };
       }
+    } catch (parseError) {
+      console.warn('Failed to parse JSON response:', parseError);
+    }
+  }
+  
+  // Fallback: Try to extract SQL directly from the response
+  const sqlPatterns = [
+    /```sql?\s*([\s\S]+?)\s*```/i,  // SQL in markdown code block
+    /SELECT[\s\S]+?(?:FROM[\s\S]+?)(?:;|\s*$)/i,  // Direct SELECT statement
+    /WITH[\s\S]+?SELECT[\s\S]+?(?:;|\s*$)/i,  // CTE query
+  ];
+  
+  for (const pattern of sqlPatterns) {
+    const match = cleanedText.match(pattern);
+    if (match) {
+      let query = (match[1] || match[0]).trim();
+      query = query.replace(/;\s*$/, '');
       
-      // Fallback: Try to extract SQL directly from the response
-      const sqlPatterns = [
-        /```sql?\s*([\s\S]+?)\s*```/i,  // SQL in markdown code block
-        /SELECT[\s\S]+?(?:FROM[\s\S]+?)(?:;|\s*$)/i,  // Direct SELECT statement
-        /WITH[\s\S]+?SELECT[\s\S]+?(?:;|\s*$)/i,  // CTE query
-      ];
-      
-      for (const pattern of sqlPatterns) {
-        const match = cleanedText.match(pattern);
-        if (match) {
-          let query = (match[1] || match[0]).trim();
-          query = query.replace(/;\s*$/, '');
-          
-          // Basic validation
-          if (query.match(/^\s*(SELECT|WITH)/i)) {
-            return {
-              query: query,
-              explanation: 'Extracted SQL query from response',
-              suggestions: []
-            };
-          }
-        }
+      // Basic validation
+      if (query.match(/^\s*(SELECT|WITH)/i)) {
+        return {
+          query: query,
+          explanation: 'Extracted SQL query from response',
+          suggestions: []
+        };
       }
     }
-
-    return fallbackNLToSQL(question, schemas);
-  } catch (error) {
-    console.error('Error in naturalLanguageToSQL:', error);
-    return fallbackNLToSQL(question, schemas);
   }
+
+  return null;
 }
 
 /**
- * Analyze data and provide insights
+ * Analyze data and provide insights. The model sees a sample of the rows and
+ * the facts computed over all of them, and may only state aggregates from
+ * the facts; numbers that trace to neither are returned as ungrounded. PII
+ * in the rows is pseudonymized for the prompt and restored in the analysis.
  */
 export async function analyzeDataWithLLM(
   question: string,
   queryResult: any[],
-  schemas: TableSchema[]
+  schemas: TableSchema[],
+  options: {
+    history?: ConversationTurn[];
+    privacy?: PrivacyPolicy;
+    facts?: ComputedFact[];
+    semanticLayer?: SemanticLayer;
+    /** Query that produced the rows, for actions that read them again */
+    sql?: string;
+  } = {}
 ): Promise<AnalysisResult> {
-  if (!anthropic) {
+  const { history, privacy, facts = [], semanticLayer, sql } = options;
+  // Actions that fit the shape of the result, whatever the wording of the question
+  const suggestions = suggestActions(queryResult, { sql, semanticLayer });
+  const llm = getLLMProvider();
+  if (!llm) {
     return {
       content: formatQueryResults(queryResult),
-      data: queryResult
+      data: queryResult,
+      suggestions
     };
   }
 
   try {
+    const redactor = new Redactor(privacy, historyPseudonyms(history));
+    const sample = redactor.redactRows(queryResult.slice(0, 10));
+    // The rows sent are capped by the row limit; the facts count the whole result
+    const rowCount = totalRows(facts, queryResult.length);
     const prompt = `You are a financial data analyst. Analyze the following query results and provide insights.
 
-Question: ${question}
+${redactor.redactText(conversationSection(history))}Question: ${redactor.redactText(question)}
+
+Total rows in the result: ${rowCount}
 
-Query Results (first 10 rows):
-${JSON.stringify(queryResult.slice(0, 10), null, 2)}
+${facts.length > 0 ? `Computed values over all ${rowCount} rows, calculated in the database:
+${formatFacts(facts)}
 
-Total rows returned: ${queryResult.length}
+` : ''}Sample rows (first ${sample.length} of ${rowCount}):
+${JSON.stringify(sample, null, 2)}
 
 Provide:
 1. A clear summary of the findings
@@ -195,11 +364,13 @@ Provide:
 3. Any patterns or anomalies you notice
 4. Suggestions for follow-up analysis
 
+Every number you state must be one of the computed values or a value from a sample row. The sample is not the whole result: never add up, average or count the sample rows yourself. If a figure you need isn't computed, say so instead of estimating it.
+
 Format your response in markdown with clear headings.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1500,
+    const response = await llm.complete({
+      task: 'analysis',
+      maxTokens: 1500,
       temperature: 0.3,
       messages: [
         {
@@ -209,27 +380,36 @@ Format your response in markdown with clear headings.`;
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
-      // Generate suggestions based on the analysis
-      const suggestions = generateSuggestions(question, queryResult);
+    if (response.text) {
+      // Numbers the model could have taken from what it was given
+      const known = [
+        ...facts.map(fact => fact.value),
+        queryResult.length,
+        rowCount,
+        ...numbersIn(JSON.stringify(sample)),
+        ...numbersIn(question)
+      ];
       
       return {
-        content: content.text,
+        content: redactor.rehydrate(response.text),
         data: queryResult,
-        suggestions
+        suggestions,
+        // Checked before rehydration, so digits of restored PII aren't taken for figures
+        ungroundedNumbers: findUngroundedNumbers(response.text, known)
       };
     }
 
     return {
       content: formatQueryResults(queryResult),
-      data: queryResult
+      data: queryResult,
+      suggestions
     };
   } catch (error) {
     console.error('Error in analyzeDataWithLLM:', error);
     return {
       content: formatQueryResults(queryResult),
-      data: queryResult
+      data: queryResult,
+      suggestions
     };
   }
 }
@@ -241,7 +421,8 @@ export async function generateFinancialInsights(
   tableName: string,
   analysis: any
 ): Promise<string> {
-  if (!anthropic) {
+  const llm = getLLMProvider();
+  if (!llm) {
     return formatTableAnalysis(analysis);
   }
 
@@ -259,9 +440,9 @@ Provide:
 
 Keep your response concise and focused on actionable insights.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 800,
+    const response = await llm.complete({
+      task: 'analysis',
+      maxTokens: 800,
       temperature: 0.3,
       messages: [
         {
@@ -271,9 +452,8 @@ Keep your response concise and focused on actionable insights.`;
       ]
     });
 
-    const content = response.content[0];
-    if (content.type === 'text') {
-      return content.text;
+    if (response.text) {
+      return response.text;
     }
 
     return formatTableAnalysis(analysis);
@@ -484,50 +664,6 @@ function formatValue(value: any): string {
   return String(value);
 }
 
-/**
- * Generate action suggestions based on query results
- */
-function generateSuggestions(question: string, results: any[]): AnalysisResult['suggestions'] {
-  const suggestions: AnalysisResult['suggestions'] = [];
-  const lowerQuestion = question.toLowerCase();
-  
-  if (lowerQuestion.includes('overdue') && results.length > 0) {
-    suggestions.push({
-      id: 'draft_reminders',
-      label: 'Draft payment reminder emails',
-      category: 'invoice'
-    });
-    suggestions.push({
-      id: 'export_overdue',
-      label: 'Export overdue list to Excel',
-      category: 'export'
-    });
-    suggestions.push({
-      id: 'aging_report',
-      label: 'Generate aging report',
-      category: 'analysis'
-    });
-  }
-  
-  if (results.length > 0) {
-    suggestions.push({
-      id: 'export_results',
-      label: 'Export results to CSV',
-      category: 'export'
-    });
-  }
-  
-  if (lowerQuestion.includes('vendor') || lowerQuestion.includes('customer')) {
-    suggestions.push({
-      id: 'create_statement',
-      label: 'Create account statement',
-      category: 'invoice'
-    });
-  }
-  
-  return suggestions;
-}
-
 /**
  * Analyze user intent for email actions
  */
@@ -626,5 +762,5 @@ export async function analyzeEmailIntent(
  * Check if LLM is available
  */
 export function isLLMAvailable(): boolean {
-  return anthropic !== null;
+  return getLLMProvider() !== null;
 }
\ No newline at end of file
@@ -0,0 +1,450 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+
+/**
+ * What a request is for. Each task can run on its own model, set with
+ * LLM_MODEL_<TASK> (e.g. LLM_MODEL_CLASSIFY=claude-3-5-haiku-20241022).
+ */
+export type LLMTask = 'sql' | 'analysis' | 'tools' | 'report' | 'email' | 'invoice' | 'classify';
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema of the tool input */
+  inputSchema: Record<string, any>;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  tools?: LLMToolDefinition[];
+  /** Ask for a single JSON object as the reply */
+  json?: boolean;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface LLMCompletion {
+  text: string;
+  toolCalls: LLMToolCall[];
+  stopReason: 'end' | 'tool_use' | 'max_tokens';
+  model: string;
+  /** Tokens billed for the call, when the provider reports them */
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/** Streaming and cancellation for a single call */
+export interface LLMCallOptions {
+  /** Receives reply text as it is generated; the completion still carries all of it */
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest, options?: LLMCallOptions): Promise<LLMCompletion>;
+}
+
+const DEFAULT_MODELS: Record<'anthropic' | 'openai', Record<LLMTask, string>> = {
+  anthropic: {
+    sql: 'claude-sonnet-4-20250514',
+    analysis: 'claude-sonnet-4-20250514',
+    tools: 'claude-sonnet-4-20250514',
+    report: 'claude-sonnet-4-20250514',
+    email: 'claude-sonnet-4-20250514',
+    invoice: 'claude-sonnet-4-20250514',
+    classify: 'claude-3-5-haiku-20241022'
+  },
+  openai: {
+    sql: 'gpt-4o',
+    analysis: 'gpt-4o',
+    tools: 'gpt-4o',
+    report: 'gpt-4o',
+    email: 'gpt-4o',
+    invoice: 'gpt-4o',
+    classify: 'gpt-4o-mini'
+  }
+};
+
+/**
+ * Model for a task: LLM_MODEL_<TASK>, then LLM_MODEL, then the provider default
+ */
+export function modelForTask(provider: 'anthropic' | 'openai', task: LLMTask): string {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL || DEFAULT_MODELS[provider][task];
+}
+
+/**
+ * Text of the last user message, used to describe and match requests
+ */
+export function lastUserText(request: LLMRequest): string {
+  const message = [...request.messages].reverse().find(m => m.role === 'user');
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(block => block.type === 'text' ? block.text : block.type === 'tool_result' ? block.content : '')
+    .join('\n');
+}
+
+class AnthropicProvider implements LLMProvider {
+  name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMCompletion> {
+    const model = modelForTask('anthropic', request.task);
+    const messages: Anthropic.MessageParam[] = request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? message.content
+        : message.content.map((block): Anthropic.ContentBlockParam => {
+            switch (block.type) {
+              case 'text':
+                return { type: 'text', text: block.text };
+              case 'tool_use':
+                return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+              case 'tool_result':
+                return { type: 'tool_result', tool_use_id: block.toolUseId, content: block.content, is_error: block.isError };
+            }
+          })
+    }));
+
+    // No native JSON mode: prefill the reply with the opening brace
+    const prefill = request.json && !request.tools?.length && messages[messages.length - 1]?.role === 'user';
+    if (prefill) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0,
+      ...(request.system ? { system: request.system } : {}),
+      messages,
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema as Anthropic.Tool.InputSchema
+            })),
+            tool_choice: { type: 'auto' as const }
+          }
+        : {})
+    };
+
+    let response: Anthropic.Message;
+    if (options.onText) {
+      const stream = this.client.messages.stream(params, { signal: options.signal });
+      stream.on('text', options.onText);
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params, { signal: options.signal });
+    }
+
+    let text = '';
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, input: block.input });
+      }
+    }
+
+    return {
+      text: prefill ? `{${text}` : text,
+      toolCalls,
+      stopReason: response.stop_reason === 'tool_use' ? 'tool_use' : response.stop_reason === 'max_tokens' ? 'max_tokens' : 'end',
+      model,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+    };
+  }
+}
+
+class OpenAIProvider implements LLMProvider {
+  name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMCompletion> {
+    const model = modelForTask('openai', request.task);
+    const messages: OpenAI.ChatCompletionMessageParam[] = request.system
+      ? [{ role: 'system', content: request.system }]
+      : [];
+
+    for (const message of request.messages) {
+      if (typeof message.content === 'string') {
+        messages.push({ role: message.role, content: message.content });
+        continue;
+      }
+      const text = message.content.filter(block => block.type === 'text').map(block => (block as { text: string }).text).join('\n');
+      if (message.role === 'assistant') {
+        const calls = message.content.filter((block): block is Extract<LLMContentBlock, { type: 'tool_use' }> => block.type === 'tool_use');
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(calls.length
+            ? { tool_calls: calls.map(call => ({ id: call.id, type: 'function' as const, function: { name: call.name, arguments: JSON.stringify(call.input) } })) }
+            : {})
+        });
+        continue;
+      }
+      // Tool results are separate messages in the chat completions API
+      for (const block of message.content) {
+        if (block.type === 'tool_result') {
+          messages.push({ role: 'tool', tool_call_id: block.toolUseId, content: block.content });
+        }
+      }
+      if (text) messages.push({ role: 'user', content: text });
+    }
+
+    const params = {
+      model,
+      max_completion_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0,
+      messages,
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: 'function' as const,
+              function: { name: tool.name, description: tool.description, parameters: tool.inputSchema }
+            }))
+          }
+        : {}),
+      ...(request.json && !request.tools?.length ? { response_format: { type: 'json_object' as const } } : {})
+    };
+
+    let response: OpenAI.ChatCompletion;
+    if (options.onText) {
+      const stream = this.client.chat.completions.stream(
+        { ...params, stream_options: { include_usage: true } },
+        { signal: options.signal }
+      );
+      const onText = options.onText;
+      stream.on('content.delta', ({ delta }) => onText(delta));
+      response = await stream.finalChatCompletion();
+    } else {
+      response = await this.client.chat.completions.create(params, { signal: options.signal });
+    }
+
+    const choice = response.choices[0];
+    const toolCalls: LLMToolCall[] = (choice?.message.tool_calls ?? []).flatMap(call => {
+      if (call.type !== 'function') return [];
+      try {
+        return [{ id: call.id, name: call.function.name, input: JSON.parse(call.function.arguments || '{}') }];
+      } catch {
+        return [{ id: call.id, name: call.function.name, input: { error: 'The tool arguments were not valid JSON' } }];
+      }
+    });
+
+    return {
+      text: choice?.message.content ?? '',
+      toolCalls,
+      stopReason: choice?.finish_reason === 'tool_calls' ? 'tool_use' : choice?.finish_reason === 'length' ? 'max_tokens' : 'end',
+      model,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined
+    };
+  }
+}
+
+/**
+ * One entry of a replay file. Recorded entries match a request exactly by
+ * `key`; scripted entries (`match`) are written by hand so prompts can change
+ * without breaking them. `contains` is looked for in the last user message and
+ * `pattern` is a regex over the whole request; its groups fill `{{1}}`, `{{2}}`...
+ * in the response text and tool inputs.
+ */
+export interface ReplayEntry {
+  key?: string;
+  match?: { task?: LLMTask; contains?: string; pattern?: string };
+  /** Last user message, kept to make recordings readable */
+  prompt?: string;
+  response: Partial<LLMCompletion>;
+}
+
+export interface ReplayFile {
+  entries: ReplayEntry[];
+}
+
+/**
+ * Deterministic stand-in that answers from a replay file instead of the
+ * network. With a `recorder`, requests that miss are sent to it and the
+ * answer is appended to the file, so a session with a real model can be
+ * captured once and replayed offline.
+ */
+export class ReplayProvider implements LLMProvider {
+  name = 'replay';
+  private file: ReplayFile | null = null;
+
+  constructor(private path: string, private recorder?: LLMProvider) {}
+
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMCompletion> {
+    const file = await this.load();
+    const key = await requestKey(request);
+    const prompt = lastUserText(request);
+
+    const recorded = file.entries.find(e => e.key === key);
+    const scripted = recorded ? null : findScripted(file.entries, request, prompt);
+    const entry = recorded ?? scripted?.entry;
+
+    if (entry) {
+      const fill = (value: string) => value.replace(/\{\{(\d+)\}\}/g, (_, group) => scripted?.groups[Number(group)] ?? '');
+      const toolCalls = (entry.response.toolCalls ?? []).map((call, i) => ({
+        id: call.id || `replay_${i}`,
+        name: call.name,
+        input: fillJSON(call.input, fill)
+      }));
+      const text = fill(entry.response.text ?? '');
+      if (text) options.onText?.(text);
+      return {
+        text,
+        toolCalls,
+        stopReason: entry.response.stopReason ?? (toolCalls.length > 0 ? 'tool_use' : 'end'),
+        model: entry.response.model ?? 'replay',
+        usage: entry.response.usage
+      };
+    }
+
+    if (!this.recorder) {
+      throw new Error(`No replay entry for ${request.task} request: ${prompt.slice(0, 120)}`);
+    }
+
+    const completion = await this.recorder.complete(request, options);
+    file.entries.push({ key, prompt: prompt.slice(0, 500), response: completion });
+    await this.save(file);
+    return completion;
+  }
+
+  private async load(): Promise<ReplayFile> {
+    if (this.file) return this.file;
+    const { readFile } = await import('fs/promises');
+    try {
+      const parsed = JSON.parse(await readFile(this.path, 'utf8'));
+      this.file = { entries: Array.isArray(parsed.entries) ? parsed.entries : [] };
+    } catch (error) {
+      if (!this.recorder) throw new Error(`Could not read replay file ${this.path}: ${error instanceof Error ? error.message : error}`);
+      this.file = { entries: [] };
+    }
+    return this.file;
+  }
+
+  private async save(file: ReplayFile) {
+    const { writeFile } = await import('fs/promises');
+    await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
+
+function findScripted(entries: ReplayEntry[], request: LLMRequest, prompt: string) {
+  const fullText = [request.system ?? '', ...request.messages.map(message =>
+    typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+  )].join('\n');
+
+  for (const entry of entries) {
+    const match = entry.match;
+    if (!match) continue;
+    if (match.task && match.task !== request.task) continue;
+    if (match.contains && !prompt.toLowerCase().includes(match.contains.toLowerCase())) continue;
+    if (!match.pattern) return { entry, groups: [] as string[] };
+    const groups = fullText.match(new RegExp(match.pattern, 'i'));
+    if (groups) return { entry, groups: Array.from(groups) };
+  }
+  return null;
+}
+
+function fillJSON(value: any, fill: (text: string) => string): any {
+  if (typeof value === 'string') return fill(value);
+  if (Array.isArray(value)) return value.map(item => fillJSON(item, fill));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillJSON(v, fill)]));
+  }
+  return value;
+}
+
+/**
+ * Stable hash of everything that affects the reply
+ */
+async function requestKey(request: LLMRequest): Promise<string> {
+  const { createHash } = await import('crypto');
+  const payload = JSON.stringify({
+    task: request.task,
+    system: request.system ?? '',
+    messages: request.messages,
+    tools: (request.tools ?? []).map(tool => tool.name),
+    json: !!request.json
+  });
+  return createHash('sha256').update(payload).digest('hex').slice(0, 32);
+}
+
+let provider: LLMProvider | null | undefined;
+
+function createNetworkProvider(name?: string): LLMProvider | null {
+  if (name === 'anthropic' || (!name && process.env.ANTHROPIC_API_KEY)) {
+    return process.env.ANTHROPIC_API_KEY ? new AnthropicProvider(process.env.ANTHROPIC_API_KEY) : null;
+  }
+  if (name === 'openai' || (!name && process.env.OPENAI_API_KEY)) {
+    return process.env.OPENAI_API_KEY ? new OpenAIProvider(process.env.OPENAI_API_KEY) : null;
+  }
+  return null;
+}
+
+/**
+ * Provider chosen by LLM_PROVIDER (anthropic, openai, replay or record),
+ * falling back to whichever API key is set. Returns null when none is
+ * configured so callers can use their non-LLM fallbacks.
+ *
+ * replay answers from LLM_REPLAY_FILE only; record answers from it when it
+ * can and records misses from the network provider (LLM_RECORD_PROVIDER).
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.LLM_PROVIDER?.toLowerCase();
+  const replayFile = process.env.LLM_REPLAY_FILE || 'scripts/fixtures/llm-demo.json';
+
+  if (name === 'replay') {
+    provider = new ReplayProvider(replayFile);
+  } else if (name === 'record') {
+    const recorder = createNetworkProvider(process.env.LLM_RECORD_PROVIDER?.toLowerCase());
+    provider = recorder ? new ReplayProvider(replayFile, recorder) : null;
+  } else {
+    provider = createNetworkProvider(name);
+  }
+
+  if (name && !provider) {
+    console.error(`LLM_PROVIDER=${name} is set but its API key is missing; LLM features are disabled`);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider, e.g. with a ReplayProvider in scripts. Pass
+ * undefined to pick it from the environment again.
+ */
+export function setLLMProvider(next: LLMProvider | null | undefined) {
+  provider = next;
+}
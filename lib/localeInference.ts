@@ -0,0 +1,315 @@
+export type DecimalSeparator = '.' | ',';
+export type ThousandsSeparator = ',' | '.' | ' ' | "'" | null;
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+export interface LocalePreset {
+  decimalSeparator: DecimalSeparator;
+  thousandsSeparator: ThousandsSeparator;
+  dateOrder: DateOrder;
+  currency?: string;
+}
+
+/**
+ * Locale decisions for a single column, stored in the sheet metadata so
+ * users can see how ambiguous values were read
+ */
+export interface ColumnLocale {
+  decimalSeparator: DecimalSeparator;
+  thousandsSeparator: ThousandsSeparator;
+  dateOrder: DateOrder | null;
+  currency: string | null;
+  /** 0-1, how strongly the values supported these decisions */
+  confidence: number;
+  source: 'inferred' | 'pinned' | 'default';
+}
+
+export const LOCALE_PRESETS: Record<string, LocalePreset> = {
+  'en-US': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'MDY', currency: 'USD' },
+  'en-GB': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'DMY', currency: 'GBP' },
+  'en-CA': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'YMD', currency: 'CAD' },
+  'en-AU': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'DMY', currency: 'AUD' },
+  'de-DE': { decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY', currency: 'EUR' },
+  'fr-FR': { decimalSeparator: ',', thousandsSeparator: ' ', dateOrder: 'DMY', currency: 'EUR' },
+  'es-ES': { decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY', currency: 'EUR' },
+  'it-IT': { decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY', currency: 'EUR' },
+  'nl-NL': { decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY', currency: 'EUR' },
+  'de-CH': { decimalSeparator: '.', thousandsSeparator: "'", dateOrder: 'DMY', currency: 'CHF' },
+  'ja-JP': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'YMD', currency: 'JPY' },
+  'en-IN': { decimalSeparator: '.', thousandsSeparator: ',', dateOrder: 'DMY', currency: 'INR' }
+};
+
+// '$' is assumed to be USD unless an explicit code says otherwise
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+
+const CURRENCY_CODE_PATTERN = /\b(USD|EUR|GBP|JPY|INR|CHF|CAD|AUD|NZD|SEK|NOK|DKK|PLN|CZK|MXN|BRL|ZAR|SGD|HKD|CNY)\b/;
+const CURRENCY_STRIP_PATTERN = /[$€£¥₹]|\b(USD|EUR|GBP|JPY|INR|CHF|CAD|AUD|NZD|SEK|NOK|DKK|PLN|CZK|MXN|BRL|ZAR|SGD|HKD|CNY|kr)\b/g;
+const NUMERIC_SHAPE = /^[+\-(]?\s*[\d.,'\s  ]+\s*[)\-]?%?$/;
+const SLASH_DATE = /^(\d{1,2})([\/.\-])(\d{1,2})\2(\d{2}|\d{4})$/;
+const ISO_DATE = /^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/;
+
+// Columns are sampled rather than scanned in full; this is plenty to settle the votes
+const SAMPLE_SIZE = 1000;
+
+export function getLocalePreset(locale?: string | null): LocalePreset | undefined {
+  return locale ? LOCALE_PRESETS[locale] : undefined;
+}
+
+/**
+ * Infer separators, date order and currency from a column's raw string
+ * values. Unambiguous evidence (e.g. "1.234,56" or "31/12/2024") wins over
+ * a pinned locale; the pin settles everything that could be read either way.
+ */
+export function inferColumnLocale(values: any[], pinned?: LocalePreset): ColumnLocale {
+  const strings = values
+    .filter((v): v is string => typeof v === 'string' && v.trim() !== '')
+    .slice(0, SAMPLE_SIZE)
+    .map(v => v.trim());
+
+  const decimalVotes = { '.': 0, ',': 0 };
+  const strongDecimal = { '.': 0, ',': 0 };
+  const thousandsVotes: Record<string, number> = {};
+  const dateVotes = { MDY: 0, DMY: 0, YMD: 0 };
+  const strongDate = { MDY: 0, DMY: 0 };
+  const currencyVotes: Record<string, number> = {};
+  let numericCount = 0;
+  let dateCount = 0;
+
+  for (const raw of strings) {
+    const currency = detectCurrency(raw);
+    if (currency) currencyVotes[currency] = (currencyVotes[currency] || 0) + 1;
+
+    const date = classifyDate(raw);
+    if (date) {
+      dateCount++;
+      if (date.strong) strongDate[date.order as 'MDY' | 'DMY']++;
+      dateVotes[date.order]++;
+      continue;
+    }
+
+    const body = stripNumberDecorations(raw);
+    if (!body || !NUMERIC_SHAPE.test(body) || !/\d/.test(body)) continue;
+    numericCount++;
+
+    const evidence = classifySeparators(body);
+    if (evidence.decimal) {
+      decimalVotes[evidence.decimal]++;
+      if (evidence.strong) strongDecimal[evidence.decimal]++;
+    }
+    if (evidence.thousands) {
+      thousandsVotes[evidence.thousands] = (thousandsVotes[evidence.thousands] || 0) + 1;
+    }
+  }
+
+  // Separators: strong evidence first, then the pin, then weak votes, then '.'
+  let decimalSeparator: DecimalSeparator;
+  let source: ColumnLocale['source'] = 'inferred';
+  if (strongDecimal['.'] !== strongDecimal[',']) {
+    decimalSeparator = strongDecimal[','] > strongDecimal['.'] ? ',' : '.';
+  } else if (pinned) {
+    decimalSeparator = pinned.decimalSeparator;
+    source = 'pinned';
+  } else if (decimalVotes['.'] !== decimalVotes[',']) {
+    decimalSeparator = decimalVotes[','] > decimalVotes['.'] ? ',' : '.';
+  } else {
+    decimalSeparator = '.';
+    source = 'default';
+  }
+
+  const thousandsCandidates = Object.entries(thousandsVotes)
+    .filter(([sep]) => sep !== decimalSeparator)
+    .sort((a, b) => b[1] - a[1]);
+  const thousandsSeparator: ThousandsSeparator = thousandsCandidates.length > 0
+    ? thousandsCandidates[0][0] as ThousandsSeparator
+    : pinned && pinned.thousandsSeparator !== decimalSeparator
+      ? pinned.thousandsSeparator
+      : decimalSeparator === ',' ? '.' : ',';
+
+  let dateOrder: DateOrder | null = null;
+  let dateSource: ColumnLocale['source'] = 'inferred';
+  if (dateCount > 0) {
+    if (strongDate.MDY !== strongDate.DMY) {
+      dateOrder = strongDate.DMY > strongDate.MDY ? 'DMY' : 'MDY';
+    } else if (dateVotes.YMD > dateVotes.MDY + dateVotes.DMY) {
+      dateOrder = 'YMD';
+    } else if (pinned) {
+      dateOrder = pinned.dateOrder === 'YMD' ? 'DMY' : pinned.dateOrder;
+      dateSource = 'pinned';
+    } else {
+      // Dotted dates (31.12.2024) are day-first by convention; otherwise fall back to US order
+      dateOrder = dateVotes.DMY > dateVotes.MDY ? 'DMY' : 'MDY';
+      dateSource = 'default';
+    }
+  }
+  // A column is reported by whichever kind of value dominates it
+  if (dateCount > numericCount) source = dateSource;
+
+  const currency = Object.entries(currencyVotes).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const decided = numericCount + dateCount;
+  const strongCount = strongDecimal['.'] + strongDecimal[','] + strongDate.MDY + strongDate.DMY + dateVotes.YMD;
+  const conflicting = Math.min(strongDecimal['.'], strongDecimal[',']) + Math.min(strongDate.MDY, strongDate.DMY);
+  const confidence = decided === 0
+    ? 0
+    : Math.round(Math.max(0, Math.min(1, (strongCount - conflicting * 2) / decided + (source === 'pinned' ? 0.5 : 0))) * 100) / 100;
+
+  return {
+    decimalSeparator,
+    thousandsSeparator,
+    dateOrder,
+    currency,
+    confidence,
+    source
+  };
+}
+
+/**
+ * Parse a number using the column's separators. Handles currency symbols
+ * and codes, accounting negatives "(1.234,56)", trailing minus and percents.
+ */
+export function parseLocaleNumber(value: string, locale: Pick<ColumnLocale, 'decimalSeparator' | 'thousandsSeparator'>): number | null {
+  let body = value.trim().replace(CURRENCY_STRIP_PATTERN, '').trim();
+  if (!body) return null;
+
+  let negative = false;
+  if (body.startsWith('(') && body.endsWith(')')) {
+    negative = true;
+    body = body.slice(1, -1).trim();
+  }
+  if (body.endsWith('-')) {
+    negative = !negative;
+    body = body.slice(0, -1).trim();
+  }
+  if (body.startsWith('-')) {
+    negative = !negative;
+    body = body.slice(1).trim();
+  } else if (body.startsWith('+')) {
+    body = body.slice(1).trim();
+  }
+
+  const isPercentage = body.endsWith('%');
+  if (isPercentage) body = body.slice(0, -1).trim();
+
+  body = body.replace(/[\s  ]/g, '');
+  if (locale.thousandsSeparator && locale.thousandsSeparator !== ' ') {
+    body = body.split(locale.thousandsSeparator).join('');
+  }
+  if (locale.decimalSeparator === ',') {
+    body = body.replace(',', '.');
+  }
+
+  if (!/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(body)) return null;
+
+  let result = parseFloat(body);
+  if (!isFinite(result)) return null;
+  if (negative) result = -result;
+  if (isPercentage) result = result / 100;
+  return result;
+}
+
+/**
+ * Normalize a date string to ISO yyyy-mm-dd using the column's date order
+ */
+export function parseLocaleDate(value: string, dateOrder: DateOrder | null): string | null {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(ISO_DATE);
+  if (iso) {
+    return toISODate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  }
+
+  const match = trimmed.match(SLASH_DATE);
+  if (!match) return null;
+
+  const a = parseInt(match[1], 10);
+  const b = parseInt(match[3], 10);
+  let year = parseInt(match[4], 10);
+  if (match[4].length === 2) year += year < 70 ? 2000 : 1900;
+
+  const order = dateOrder === 'DMY' || (dateOrder !== 'MDY' && match[2] === '.') ? 'DMY' : 'MDY';
+  return order === 'DMY' ? toISODate(year, b, a) : toISODate(year, a, b);
+}
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || year < 1900 || year > 2100) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function classifyDate(value: string): { order: DateOrder; strong: boolean } | null {
+  if (ISO_DATE.test(value)) return { order: 'YMD', strong: true };
+
+  const match = value.match(SLASH_DATE);
+  if (!match) return null;
+  const a = parseInt(match[1], 10);
+  const b = parseInt(match[3], 10);
+  if (a === 0 || b === 0 || (a > 12 && b > 12) || a > 31 || b > 31) return null;
+
+  if (a > 12) return { order: 'DMY', strong: true };
+  if (b > 12) return { order: 'MDY', strong: true };
+  // Ambiguous like 03/04/2025; dots lean day-first
+  return { order: match[2] === '.' ? 'DMY' : 'MDY', strong: false };
+}
+
+/**
+ * Look at one numeric string and decide which separator is the decimal one.
+ * "1.234,56" and "1,234.56" are strong evidence; "1,5" is weak but telling;
+ * "1,234" or "1.234" alone could be either and casts no decimal vote.
+ */
+function classifySeparators(body: string): {
+  decimal?: DecimalSeparator;
+  thousands?: string;
+  strong: boolean;
+} {
+  const compact = body.replace(/[()%+\-]/g, '').trim();
+
+  const grouped = compact.match(/^\d{1,3}(([.,'\s  ])\d{3})+(([.,])\d+)?$/);
+  if (grouped) {
+    const groupSep = grouped[2].replace(/[  ]/, ' ');
+    const decimalSep = grouped[4] as DecimalSeparator | undefined;
+    if (decimalSep && decimalSep !== groupSep) {
+      return { decimal: decimalSep, thousands: groupSep, strong: true };
+    }
+    if (!decimalSep) {
+      // "1 234" or "1'234" are unambiguous grouping; "1.234.567" has repeated groups
+      const repeated = (compact.match(new RegExp(`\\${grouped[2]}`, 'g')) || []).length > 1;
+      if (groupSep === ' ' || groupSep === "'" || repeated) {
+        return {
+          thousands: groupSep,
+          decimal: groupSep === '.' ? ',' : groupSep === ',' ? '.' : undefined,
+          strong: repeated && (groupSep === '.' || groupSep === ',')
+        };
+      }
+      return { strong: false };
+    }
+  }
+
+  const simple = compact.match(/^\d+([.,])(\d+)$/);
+  if (simple) {
+    const sep = simple[1] as DecimalSeparator;
+    // Three trailing digits could be a thousands group, so it's not evidence either way
+    if (simple[2].length === 3) return { strong: false };
+    return { decimal: sep, strong: false };
+  }
+
+  return { strong: false };
+}
+
+function stripNumberDecorations(value: string): string {
+  return value.replace(CURRENCY_STRIP_PATTERN, '').trim();
+}
+
+function detectCurrency(value: string): string | null {
+  const code = value.match(CURRENCY_CODE_PATTERN);
+  if (code) return code[1];
+  for (const [symbol, iso] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (value.includes(symbol)) return iso;
+  }
+  return null;
+}
@@ -0,0 +1,327 @@
+import * as Papa from 'papaparse';
+import { checkWorkbookSize, readWorkbook, readExcelSheet } from './excelReader';
+import {
+  cleanAndValidateData,
+  cleanChunkWithSchema,
+  describeLocaleConflicts,
+  extractJSONRecords,
+  EXCEL_RENDERED_LOCALE
+} from './dataCleaning';
+import { getLocalePreset, type ColumnLocale, type LocalePreset } from './localeInference';
+import { parseBankStatementText, bankFeedSheetNames, BANK_FEED_HEADERS, BANK_FEED_DATA_TYPES } from './bankStatementParser';
+import type { ParseOptions, ParseProgress, ParsedSheet } from './fileParser';
+import type { StreamedSheet, WorkerRequest, WorkerResponse } from './streamingParser';
+
+// Rows per chunk; the first chunk of a sheet also decides its column types
+const CHUNK_ROWS = 5000;
+const READ_CHUNK_BYTES = 1024 * 1024;
+const SAMPLE_ROWS = 5;
+
+const ctx = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+};
+
+const pendingAcks = new Map<number, () => void>();
+let nextChunkId = 0;
+
+ctx.addEventListener('message', (event) => {
+  const message = event.data;
+  if (message.type === 'ack') {
+    pendingAcks.get(message.chunkId)?.();
+    pendingAcks.delete(message.chunkId);
+    return;
+  }
+
+  parse(message.file, message.options)
+    .then(result => ctx.postMessage({ type: 'done', result }))
+    .catch(error => ctx.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    }));
+});
+
+function reportProgress(progress: ParseProgress) {
+  ctx.postMessage({ type: 'progress', progress });
+}
+
+/**
+ * Hand a typed chunk to the main thread and wait until it has been stored,
+ * so a slow database never lets parsed rows pile up in memory
+ */
+function sendChunk(sheetName: string, rows: any[], dataTypes: Record<string, string>): Promise<void> {
+  const chunkId = nextChunkId++;
+  return new Promise(resolve => {
+    pendingAcks.set(chunkId, resolve);
+    ctx.postMessage({ type: 'chunk', chunkId, sheetName, rows, dataTypes });
+  });
+}
+
+async function parse(file: File, options: ParseOptions) {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const locale = getLocalePreset(options.locale);
+
+  reportProgress({ loaded: 0, total: file.size, percentage: 0, phase: 'reading' });
+
+  let sheets: StreamedSheet[];
+  const warnings: string[] = [];
+
+  switch (extension) {
+    case 'csv':
+    case 'tsv':
+      sheets = [await streamDelimited(file, extension === 'tsv' ? '\t' : undefined, locale, warnings)];
+      break;
+    case 'json':
+      sheets = [await streamJSON(file, locale, warnings)];
+      break;
+    case 'xlsx':
+    case 'xls':
+    case 'xlsm':
+      sheets = await loadExcel(file, options.headerRows, warnings);
+      break;
+    case 'ofx':
+    case 'qfx':
+    case 'qif':
+    case 'xml':
+      sheets = await streamBankStatements(file, extension, warnings);
+      break;
+    default:
+      throw new Error(`Unsupported file type: ${extension}`);
+  }
+
+  reportProgress({ loaded: file.size, total: file.size, percentage: 100, phase: 'complete' });
+
+  return { name: file.name, sheets, warnings };
+}
+
+/**
+ * Types and forwards the rows of one sheet chunk by chunk. The first chunk
+ * settles column types and number/date formats; later chunks are cleaned
+ * against that schema, widening columns whose values stop fitting.
+ * A fixed schema skips inference for rows that are already typed.
+ */
+function createSheetStream(
+  name: string,
+  headers: string[],
+  locale: LocalePreset | undefined,
+  warnings: string[],
+  fixedSchema?: Record<string, string>
+) {
+  let dataTypes: Record<string, string> | null = fixedSchema ?? null;
+  let columnLocales: Record<string, ColumnLocale> = {};
+  let rowCount = 0;
+  const sample: any[] = [];
+
+  return {
+    async push(rows: any[]) {
+      let cleanedData: any[];
+      if (!dataTypes) {
+        const cleaned = cleanAndValidateData(rows, headers, locale);
+        cleanedData = cleaned.cleanedData;
+        dataTypes = cleaned.dataTypes;
+        columnLocales = cleaned.columnLocales;
+      } else if (fixedSchema) {
+        cleanedData = rows;
+      } else {
+        const cleaned = cleanChunkWithSchema(rows, headers, columnLocales, dataTypes, locale);
+        cleanedData = cleaned.cleanedData;
+        for (const [column, type] of Object.entries(cleaned.dataTypes)) {
+          if (type !== dataTypes[column]) {
+            warnings.push(`${name}: column "${column}" changed from ${dataTypes[column]} to ${type} after row ${rowCount}`);
+          }
+        }
+        dataTypes = cleaned.dataTypes;
+      }
+
+      if (sample.length < SAMPLE_ROWS) {
+        sample.push(...cleanedData.slice(0, SAMPLE_ROWS - sample.length));
+      }
+      rowCount += cleanedData.length;
+
+      if (cleanedData.length > 0) {
+        await sendChunk(name, cleanedData, dataTypes);
+      }
+    },
+
+    finish(metadata: ParsedSheet['metadata'] = {}): StreamedSheet {
+      return {
+        name,
+        headers,
+        rowCount,
+        sample,
+        metadata: { ...metadata, dataTypes: dataTypes ?? undefined, columnLocales }
+      };
+    },
+
+    get columnLocales() {
+      return columnLocales;
+    }
+  };
+}
+
+/**
+ * CSV/TSV: PapaParse reads the file incrementally and hands over the rows of
+ * each slice; the parser is paused while they are typed and stored.
+ * Chunk mode rather than step mode: in PapaParse 5.5, resuming a paused step
+ * parse re-runs header de-duplication on the first row after the pause.
+ */
+function streamDelimited(
+  file: File,
+  delimiter: string | undefined,
+  locale: LocalePreset | undefined,
+  warnings: string[]
+): Promise<StreamedSheet> {
+  return new Promise((resolve, reject) => {
+    let stream: ReturnType<typeof createSheetStream> | null = null;
+    let headers: string[] = [];
+    let failed = false;
+
+    Papa.parse<Record<string, any>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      // Typing happens in cleanAndValidateData, where separators are known per column
+      dynamicTyping: false,
+      delimiter,
+      chunkSize: READ_CHUNK_BYTES,
+      chunk: (results, parser) => {
+        if (!stream) {
+          headers = results.meta.fields || [];
+          stream = createSheetStream('Sheet1', headers, locale, warnings);
+        }
+        if (results.errors.length > 0 && warnings.length < 50) {
+          warnings.push(...results.errors.slice(0, 50).map(e => `Row ${e.row}: ${e.message}`));
+        }
+
+        parser.pause();
+        pushInChunks(stream, results.data).then(
+          () => {
+            reportProgress({
+              loaded: Math.min(results.meta.cursor, file.size),
+              total: file.size,
+              // The cursor counts characters, not bytes, so hold short of done until complete fires
+              percentage: Math.min(99, Math.round(results.meta.cursor / Math.max(1, file.size) * 100)),
+              phase: 'parsing'
+            });
+            parser.resume();
+          },
+          (error) => {
+            failed = true;
+            parser.abort();
+            reject(error);
+          }
+        );
+      },
+      complete: () => {
+        if (failed) return;
+        if (!stream) {
+          stream = createSheetStream('Sheet1', headers, locale, warnings);
+        }
+        warnings.push(...describeLocaleConflicts('Sheet1', stream.columnLocales, locale));
+        resolve(stream.finish());
+      },
+      error: (error) => {
+        reject(new Error(`${delimiter === '\t' ? 'TSV' : 'CSV'} parsing failed: ${error.message}`));
+      }
+    });
+  });
+}
+
+/**
+ * JSON has to be parsed whole, but typing and storing still happen in chunks
+ */
+async function streamJSON(file: File, locale: LocalePreset | undefined, warnings: string[]): Promise<StreamedSheet> {
+  const text = await file.text();
+  reportProgress({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
+
+  let records: { data: any[]; headers: string[] };
+  try {
+    records = extractJSONRecords(JSON.parse(text));
+  } catch (error) {
+    throw new Error(`JSON parsing failed: ${error}`);
+  }
+
+  const stream = createSheetStream('Sheet1', records.headers, locale, warnings);
+  await pushInChunks(stream, records.data, { from: 30, to: 100, fileSize: file.size });
+  warnings.push(...describeLocaleConflicts('Sheet1', stream.columnLocales, locale));
+  return stream.finish();
+}
+
+/**
+ * Excel is not streamed: SheetJS has no incremental reader for workbooks, so
+ * the whole workbook is read into memory here in the worker, which is why
+ * files over MAX_WORKBOOK_BYTES are refused. Only typing and storing each
+ * sheet's rows happen in chunks.
+ */
+async function loadExcel(
+  file: File,
+  headerRows: Record<string, number> | undefined,
+  warnings: string[]
+): Promise<StreamedSheet[]> {
+  checkWorkbookSize(file.size);
+  const workbook = readWorkbook(new Uint8Array(await file.arrayBuffer()));
+  reportProgress({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
+
+  const sheets: StreamedSheet[] = [];
+  const sheetSpan = 70 / Math.max(1, workbook.SheetNames.length);
+
+  for (let index = 0; index < workbook.SheetNames.length; index++) {
+    const sheetName = workbook.SheetNames[index];
+    const sheet = readExcelSheet(workbook, sheetName, headerRows?.[sheetName]);
+    warnings.push(...sheet.warnings);
+
+    const stream = createSheetStream(sheetName, sheet.headers, EXCEL_RENDERED_LOCALE, warnings);
+    const start = 30 + sheetSpan * index;
+    await pushInChunks(stream, sheet.rows, { from: start, to: start + sheetSpan, fileSize: file.size });
+
+    sheets.push(stream.finish({
+      hasFormulas: sheet.hasFormulas,
+      hasMergedCells: sheet.hasMergedCells,
+      region: sheet.region
+    }));
+  }
+
+  return sheets;
+}
+
+/**
+ * Bank statements are small and already typed, so they map straight onto
+ * the canonical bank feed schema, one sheet per account
+ */
+async function streamBankStatements(file: File, extension: string, warnings: string[]): Promise<StreamedSheet[]> {
+  const statements = parseBankStatementText(await file.text(), extension);
+  reportProgress({ loaded: file.size * 0.3, total: file.size, percentage: 30, phase: 'parsing' });
+
+  const names = bankFeedSheetNames(statements);
+  const span = 70 / statements.length;
+  const sheets: StreamedSheet[] = [];
+  for (let index = 0; index < statements.length; index++) {
+    const statement = statements[index];
+    warnings.push(...statement.warnings);
+    const stream = createSheetStream(names[index], [...BANK_FEED_HEADERS], undefined, warnings, { ...BANK_FEED_DATA_TYPES });
+    const start = 30 + span * index;
+    await pushInChunks(stream, statement.transactions, { from: start, to: start + span, fileSize: file.size });
+    sheets.push(stream.finish({
+      bankFeed: {
+        format: statement.format,
+        accountId: statement.accountId,
+        currency: statement.currency
+      }
+    }));
+  }
+  return sheets;
+}
+
+async function pushInChunks(
+  stream: ReturnType<typeof createSheetStream>,
+  rows: any[],
+  progress?: { from: number; to: number; fileSize: number }
+) {
+  for (let i = 0; i < rows.length; i += CHUNK_ROWS) {
+    await stream.push(rows.slice(i, i + CHUNK_ROWS));
+    if (progress) {
+      const done = Math.min(rows.length, i + CHUNK_ROWS) / rows.length;
+      const percentage = Math.round(progress.from + (progress.to - progress.from) * done);
+      reportProgress({ loaded: progress.fileSize * percentage / 100, total: progress.fileSize, percentage, phase: 'validating' });
+    }
+  }
+}
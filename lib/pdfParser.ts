@@ -0,0 +1,313 @@
+import PDF from 'pdf-parse/lib/pdf-parse.js';
+import { dedupeHeaders } from './dataCleaning';
+
+export interface PDFGlyph {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PDFLine {
+  y: number;
+  height: number;
+  cells: Array<{ text: string; x0: number; x1: number }>;
+}
+
+export interface PDFTable {
+  page: number;
+  index: number;
+  headers: string[];
+  rows: string[][];
+  confidence: number;
+  warnings: string[];
+}
+
+export interface PDFExtractionResult {
+  pageCount: number;
+  hasTextLayer: boolean;
+  tables: PDFTable[];
+  /** Lines that did not belong to any table, in reading order */
+  looseLines: string[];
+}
+
+// Tables scoring below this are still emitted, but flagged in the warnings
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Extract tables from the text layer of a PDF by rebuilding rows and
+ * columns from glyph positions.
+ */
+export async function extractPDFTables(data: Uint8Array): Promise<PDFExtractionResult> {
+  const pages: PDFGlyph[][] = [];
+
+  const result = await PDF(Buffer.from(data), {
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: true,
+        disableCombineTextItems: false
+      });
+
+      const glyphs: PDFGlyph[] = content.items
+        .filter(item => item.str && item.str.trim() !== '')
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: Math.abs(item.height || item.transform[3] || item.transform[0] || 10)
+        }));
+
+      pages[pageData.pageIndex] = glyphs;
+      return glyphs.map(g => g.text).join(' ');
+    }
+  });
+
+  const tables: PDFTable[] = [];
+  const looseLines: string[] = [];
+  let hasTextLayer = false;
+
+  for (let pageIndex = 0; pageIndex < result.numpages; pageIndex++) {
+    const glyphs = pages[pageIndex] || [];
+    if (glyphs.length > 0) hasTextLayer = true;
+
+    const lines = groupGlyphsIntoLines(glyphs);
+    const { pageTables, pageLooseLines } = detectTables(lines, pageIndex + 1);
+
+    for (const table of pageTables) {
+      // A table that continues on the next page repeats (or omits) its header;
+      // fold it into the previous table when the column layout matches
+      const previous = tables[tables.length - 1];
+      if (previous && previous.page === pageIndex && table.index === 1 && isContinuation(previous, table)) {
+        previous.rows.push(...table.rows);
+        previous.confidence = Math.min(previous.confidence, table.confidence);
+        previous.warnings.push(`Continued on page ${table.page}`);
+        continue;
+      }
+      tables.push(table);
+    }
+
+    looseLines.push(...pageLooseLines);
+  }
+
+  return {
+    pageCount: result.numpages,
+    hasTextLayer,
+    tables,
+    looseLines
+  };
+}
+
+/**
+ * Group glyphs sharing a baseline into lines, and glyphs within a line into
+ * cells separated by wide horizontal gaps.
+ */
+function groupGlyphsIntoLines(glyphs: PDFGlyph[]): PDFLine[] {
+  // PDF y grows upwards, so sort top-to-bottom then left-to-right
+  const sorted = [...glyphs].sort((a, b) => (b.y - a.y) || (a.x - b.x));
+  const rawLines: Array<{ y: number; height: number; glyphs: PDFGlyph[] }> = [];
+
+  for (const glyph of sorted) {
+    const tolerance = Math.max(2, glyph.height * 0.5);
+    const line = rawLines.find(l => Math.abs(l.y - glyph.y) <= tolerance);
+    if (line) {
+      line.glyphs.push(glyph);
+      line.height = Math.max(line.height, glyph.height);
+    } else {
+      rawLines.push({ y: glyph.y, height: glyph.height, glyphs: [glyph] });
+    }
+  }
+
+  return rawLines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const lineGlyphs = line.glyphs.sort((a, b) => a.x - b.x);
+      const cells: PDFLine['cells'] = [];
+      // A gap wider than roughly one em separates columns; narrower gaps are word spacing
+      const columnGap = Math.max(4, line.height * 0.9);
+
+      for (const glyph of lineGlyphs) {
+        const current = cells[cells.length - 1];
+        const gap = current ? glyph.x - current.x1 : Infinity;
+
+        if (current && gap <= columnGap) {
+          const separator = gap > line.height * 0.15 && !current.text.endsWith(' ') ? ' ' : '';
+          current.text += separator + glyph.text;
+          current.x1 = Math.max(current.x1, glyph.x + glyph.width);
+        } else {
+          cells.push({ text: glyph.text, x0: glyph.x, x1: glyph.x + glyph.width });
+        }
+      }
+
+      return {
+        y: line.y,
+        height: line.height,
+        cells: cells.map(c => ({ ...c, text: c.text.replace(/\s+/g, ' ').trim() })).filter(c => c.text !== '')
+      };
+    });
+}
+
+/**
+ * Split a page's lines into table blocks. A block is a run of multi-cell
+ * lines without a large vertical gap; single-cell lines inside a block are
+ * treated as wrapped text belonging to the row above.
+ */
+function detectTables(lines: PDFLine[], page: number): { pageTables: PDFTable[]; pageLooseLines: string[] } {
+  const pageTables: PDFTable[] = [];
+  const pageLooseLines: string[] = [];
+  let block: PDFLine[] = [];
+
+  const flush = () => {
+    const table = block.length >= 3 ? buildTable(block, page, pageTables.length + 1) : null;
+    if (table) {
+      pageTables.push(table);
+    } else {
+      pageLooseLines.push(...block.map(line => line.cells.map(c => c.text).join(' ')));
+    }
+    block = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const previous = block[block.length - 1];
+    const maxGap = previous ? previous.height * 2.5 : Infinity;
+    const closeToPrevious = previous ? previous.y - line.y <= maxGap : true;
+
+    if (line.cells.length >= 2) {
+      if (!closeToPrevious) flush();
+      block.push(line);
+      continue;
+    }
+
+    // Single-cell line: keep it as a wrapped continuation if the table resumes right after it
+    const next = lines[i + 1];
+    const tableResumes = next && next.cells.length >= 2 && line.y - next.y <= line.height * 2.5;
+    if (block.length > 0 && closeToPrevious && tableResumes) {
+      block.push(line);
+      continue;
+    }
+
+    if (block.length > 0) flush();
+    pageLooseLines.push(line.cells.map(c => c.text).join(' '));
+  }
+
+  if (block.length > 0) flush();
+
+  return { pageTables, pageLooseLines };
+}
+
+/**
+ * Turn a block of lines into a table by projecting cell spans onto the x
+ * axis to find column bands, then slotting each cell into its band.
+ */
+function buildTable(block: PDFLine[], page: number, index: number): PDFTable | null {
+  const multiCellLines = block.filter(line => line.cells.length >= 2);
+  const columns = findColumnBands(multiCellLines);
+  if (columns.length < 2) return null;
+
+  const grid: string[][] = [];
+  for (const line of block) {
+    const row = new Array(columns.length).fill('');
+    for (const cell of line.cells) {
+      const center = (cell.x0 + cell.x1) / 2;
+      let col = columns.findIndex(band => center >= band.x0 && center <= band.x1);
+      if (col === -1) {
+        col = nearestBand(columns, center);
+      }
+      row[col] = row[col] ? `${row[col]} ${cell.text}` : cell.text;
+    }
+
+    if (line.cells.length === 1 && grid.length > 0) {
+      // Wrapped text: merge into the row above rather than starting a new row
+      const previous = grid[grid.length - 1];
+      row.forEach((value, col) => {
+        if (value) previous[col] = previous[col] ? `${previous[col]} ${value}` : value;
+      });
+      continue;
+    }
+
+    grid.push(row);
+  }
+
+  if (grid.length < 2) return null;
+
+  const warnings: string[] = [];
+  const headerRow = grid[0];
+  const headerLooksLikeData = headerRow.filter(v => v && isNumericLike(v)).length > headerRow.length / 2;
+  const headerIsSparse = headerRow.filter(v => v).length < Math.ceil(columns.length / 2);
+
+  let headers: string[];
+  let rows: string[][];
+  if (headerLooksLikeData || headerIsSparse) {
+    headers = columns.map((_, i) => `column_${i + 1}`);
+    rows = grid;
+    warnings.push('No header row detected; generic column names were used');
+  } else {
+    headers = dedupeHeaders(headerRow);
+    rows = grid.slice(1);
+  }
+
+  if (rows.length === 0) return null;
+
+  // Confidence combines how full the grid is with how consistently rows use the columns
+  const filledCells = rows.reduce((sum, row) => sum + row.filter(v => v !== '').length, 0);
+  const fillRatio = filledCells / (rows.length * columns.length);
+  const consistentRows = rows.filter(row => row.filter(v => v !== '').length >= Math.ceil(columns.length * 0.6)).length;
+  const consistency = consistentRows / rows.length;
+  const confidence = Math.round(((fillRatio + consistency) / 2) * 100) / 100;
+
+  if (confidence < LOW_CONFIDENCE_THRESHOLD) {
+    warnings.push(`Low extraction confidence (${Math.round(confidence * 100)}%); please verify columns against the source PDF`);
+  }
+
+  return { page, index, headers, rows, confidence, warnings };
+}
+
+function findColumnBands(lines: PDFLine[]): Array<{ x0: number; x1: number }> {
+  const spans = lines
+    .flatMap(line => line.cells.map(c => ({ x0: c.x0, x1: c.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+
+  const bands: Array<{ x0: number; x1: number; hits: number }> = [];
+  for (const span of spans) {
+    const current = bands[bands.length - 1];
+    if (current && span.x0 <= current.x1) {
+      current.x1 = Math.max(current.x1, span.x1);
+      current.hits++;
+    } else {
+      bands.push({ ...span, hits: 1 });
+    }
+  }
+
+  // Bands touched by a single stray cell are noise, not columns
+  const minHits = Math.max(1, Math.floor(lines.length * 0.2));
+  return bands.filter(band => band.hits >= minHits).map(({ x0, x1 }) => ({ x0, x1 }));
+}
+
+function nearestBand(bands: Array<{ x0: number; x1: number }>, x: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  bands.forEach((band, i) => {
+    const distance = x < band.x0 ? band.x0 - x : x - band.x1;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+}
+
+function isNumericLike(value: string): boolean {
+  return /^[($€£¥-]*[\d.,]+%?\)?$/.test(value.replace(/\s/g, ''));
+}
+
+function sameHeaders(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((h, i) => h.toLowerCase() === b[i].toLowerCase());
+}
+
+function isContinuation(previous: PDFTable, next: PDFTable): boolean {
+  if (previous.headers.length !== next.headers.length) return false;
+  const nextHasNoHeader = next.headers.every((h, i) => h === `column_${i + 1}`);
+  return nextHasNoHeader || sameHeaders(previous.headers, next.headers);
+}
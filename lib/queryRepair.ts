@@ -0,0 +1,108 @@
+'use client';
+
+import { executeQuery } from './clientDatabase';
+import { guardQuery, type GuardedQuery } from './sqlGuard';
+import type { QueryAttempt, ConversationTurn, PrivacyPolicy, SemanticLayer } from '@/types';
+
+// Revisions asked of the model after the first query fails
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+// Plans are sent back to the model, so keep them to a readable size
+const MAX_PLAN_LENGTH = 4000;
+
+export interface RepairContext {
+  question: string;
+  tableSchemas: Array<{ tableName: string; columns: any[]; rowCount?: number }>;
+  allowWrites?: boolean;
+  history?: ConversationTurn[];
+  semanticLayer?: SemanticLayer;
+  privacy?: PrivacyPolicy;
+}
+
+export interface RepairedQuery {
+  query: GuardedQuery;
+  /** Result of a read; writes are returned unrun so the caller can confirm them */
+  result?: any;
+  /** Explanation of the revision that succeeded, when there was one */
+  explanation?: string;
+}
+
+/**
+ * Validate and run generated SQL, asking /api/chat/repair for a revised query
+ * each time DuckDB rejects it. Every try is recorded in `attempts`, which the
+ * caller keeps for the message metadata whether or not a query succeeds.
+ * Throws the last error once the attempts run out.
+ */
+export async function executeWithRepair(
+  sql: string,
+  context: RepairContext,
+  attempts: QueryAttempt[]
+): Promise<RepairedQuery> {
+  const tables = context.tableSchemas.map(schema => schema.tableName);
+  let current = sql;
+  let explanation: string | undefined;
+
+  for (let repairs = 0; ; repairs++) {
+    let query: GuardedQuery | null = null;
+    try {
+      query = await guardQuery(current, { tables, allowWrites: context.allowWrites });
+      if (query.kind === 'write') {
+        attempts.push({ query: query.sql });
+        return { query, explanation };
+      }
+      const result = await executeQuery(query.sql);
+      attempts.push({ query: query.sql });
+      return { query, result, explanation };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A query that passed the guard parsed and bound, so its plan can explain a runtime failure
+      const plan = query ? await explainQuery(query.sql) : undefined;
+      attempts.push({ query: query?.sql ?? current, error: message, plan });
+
+      if (repairs >= MAX_REPAIR_ATTEMPTS) throw error;
+      const revised = await requestRepair(context, attempts);
+      if (!revised) throw error;
+      current = revised.sql;
+      explanation = revised.explanation;
+    }
+  }
+}
+
+async function explainQuery(sql: string): Promise<string | undefined> {
+  try {
+    const result = await executeQuery(`EXPLAIN ${sql}`);
+    const plan = result.toArray().map((row: any) => String(row.explain_value)).join('\n');
+    return plan.length > MAX_PLAN_LENGTH ? `${plan.slice(0, MAX_PLAN_LENGTH)}\n...` : plan;
+  } catch {
+    return undefined;
+  }
+}
+
+async function requestRepair(context: RepairContext, attempts: QueryAttempt[]) {
+  try {
+    const response = await fetch('/api/chat/repair', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message: context.question,
+        tableSchemas: context.tableSchemas,
+        attempts,
+        allowWrites: context.allowWrites,
+        history: context.history,
+        semanticLayer: context.semanticLayer,
+        privacy: context.privacy
+      }, (_key, value) => typeof value === 'bigint' ? Number(value) : value),
+    });
+    if (!response.ok) {
+      console.error('Query repair failed:', await response.text());
+      return null;
+    }
+    const data = await response.json();
+    return data.sql ? { sql: String(data.sql), explanation: data.explanation as string | undefined } : null;
+  } catch (error) {
+    console.error('Query repair failed:', error);
+    return null;
+  }
+}
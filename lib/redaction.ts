@@ -0,0 +1,290 @@
+import { isEmail } from './dataCleaning';
+import type { ColumnPrivacy, ConversationTurn, PrivacyPolicy } from '@/types';
+
+/**
+ * Redaction of personal data before it reaches the model. Columns that look
+ * like PII are replaced with stable tokens such as EMAIL_1f3a9c0b5d27e468, and the
+ * tokens are swapped back for the real values in whatever the model writes.
+ * Blocked columns are dropped in the browser and again here.
+ */
+
+export type PIIKind = 'email' | 'phone' | 'name' | 'address' | 'tax_id' | 'account';
+
+export const PII_KINDS: Array<{ value: PIIKind; label: string }> = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'name', label: 'Person or party name' },
+  { value: 'address', label: 'Address' },
+  { value: 'tax_id', label: 'Tax or national ID' },
+  { value: 'account', label: 'Bank account or card' }
+];
+
+// Checked in order, so email_address is an email and not an address
+const NAME_PATTERNS: Array<[PIIKind, RegExp]> = [
+  ['email', /e_?mail/],
+  ['phone', /phone|mobile|cell|fax|(^|_)tel(_|$)/],
+  ['tax_id', /ssn|social_security|tax_?id|(^|_)tin(_|$)|(^|_)ein(_|$)|vat_?(no|number|id)|national_id|passport/],
+  ['account', /iban|swift|bic_?code|routing|sort_code|card_?(no|number)|(bank_?)?account_?(no|number)|acct_?(no|num)/],
+  ['address', /address|street|postcode|postal|zip_?code|(^|_)zip(_|$)/],
+  ['name', /(customer|client|vendor|supplier|payee|payer|recipient|employee|contact|person|first|last|full|account_holder|cardholder)_?name|(^|_)(customer|client|vendor|payee|employee|contact)(_|$)/]
+];
+
+// Values that identify a column on their own, whatever it is called
+const VALUE_PATTERNS: Array<[PIIKind, (value: string) => boolean]> = [
+  ['email', isEmail],
+  ['tax_id', value => /^\d{3}-\d{2}-\d{4}$/.test(value)],
+  ['account', value => /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value.replace(/\s/g, ''))],
+  ['phone', value => /^\+?[\d\s().-]{7,20}$/.test(value) && /[\s().-]|^\+/.test(value) && value.replace(/\D/g, '').length >= 7]
+];
+
+// Share of non-empty values that must match for a column to count as PII by value
+const VALUE_MATCH_SHARE = 0.8;
+const MAX_SAMPLED_VALUES = 50;
+
+// Kind, 64 bits of SHA-256 and, for the rare value whose digest is taken, a number
+const TOKEN_PATTERN = /\b(EMAIL|PHONE|NAME|ADDRESS|TAX_ID|ACCOUNT|VALUE)_[0-9a-f]{16}(?:_\d+)?\b/g;
+const EMAIL_IN_TEXT = /[^\s@<>()[\]"',;:]+@[^\s@<>()[\]"',;:]+\.[A-Za-z]{2,}/g;
+// Known values shorter than this aren't replaced in free text, to spare words like "Al"
+const MIN_TEXT_VALUE_LENGTH = 3;
+
+export function normalizeColumnName(column: string): string {
+  return column.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * The kind of personal data a column holds, judged by its name and then by
+ * its values, or null when it doesn't look personal
+ */
+export function detectPIIColumn(column: string, values: any[] = []): PIIKind | null {
+  const name = normalizeColumnName(column);
+  for (const [kind, pattern] of NAME_PATTERNS) {
+    if (pattern.test(name)) return kind;
+  }
+
+  const sample = values
+    .filter(value => typeof value === 'string' && value.trim() !== '')
+    .slice(0, MAX_SAMPLED_VALUES)
+    .map(value => value.trim());
+  if (sample.length === 0) return null;
+  for (const [kind, matches] of VALUE_PATTERNS) {
+    if (sample.filter(matches).length / sample.length >= VALUE_MATCH_SHARE) return kind;
+  }
+  return null;
+}
+
+/**
+ * How a column is treated: the workspace's choice for it, otherwise
+ * pseudonymized when it looks like PII
+ */
+export function columnPrivacy(policy: PrivacyPolicy | undefined, column: string, kind: PIIKind | null): ColumnPrivacy {
+  return policy?.columns?.[normalizeColumnName(column)] ?? (kind ? 'pseudonymize' : 'allow');
+}
+
+/**
+ * Rows without the columns the policy blocks, for anything the browser sends
+ * to the server
+ */
+export function withoutBlockedColumns<T extends Record<string, any>>(rows: T[], policy: PrivacyPolicy | undefined): T[] {
+  const blocked = Object.entries(policy?.columns ?? {})
+    .filter(([, privacy]) => privacy === 'block')
+    .map(([column]) => column);
+  if (blocked.length === 0 || rows.length === 0) return rows;
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).filter(([column]) => !blocked.includes(normalizeColumnName(column)))
+  ) as T);
+}
+
+/**
+ * Token to real value for the PII in earlier turns. The history holds the
+ * model's answers with the real values back in, so a redactor seeded with
+ * these turns them into tokens again before the history is sent.
+ */
+export function historyPseudonyms(turns: ConversationTurn[] | undefined): Record<string, string> {
+  const pseudonyms: Record<string, string> = {};
+  if (!Array.isArray(turns)) return pseudonyms;
+  const token = new RegExp(`^${TOKEN_PATTERN.source}$`);
+  for (const turn of turns) {
+    for (const [key, value] of Object.entries(turn?.pseudonyms ?? {})) {
+      if (token.test(key) && typeof value === 'string') pseudonyms[key] = value;
+    }
+  }
+  return pseudonyms;
+}
+
+export function createPrivacyPolicy(): PrivacyPolicy {
+  return { columns: {}, salt: Math.random().toString(36).slice(2, 12) };
+}
+
+/**
+ * Pseudonymizes rows and text for one prompt or one agent run and restores
+ * the real values in the model's output. Tokens depend only on the value and
+ * the workspace salt, so they stay the same across requests.
+ */
+export class Redactor {
+  private readonly values = new Map<string, string>();
+  private readonly kinds = new Map<string, PIIKind | null>();
+
+  constructor(readonly policy?: PrivacyPolicy, pseudonyms: Record<string, string> = {}) {
+    for (const [token, value] of Object.entries(pseudonyms)) {
+      this.values.set(token, value);
+    }
+  }
+
+  /** Token to real value for everything redacted so far, to carry across requests */
+  get pseudonyms(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+
+  redactRows<T extends Record<string, any>>(rows: T[]): Record<string, any>[] {
+    if (rows.length === 0) return rows;
+    const columns = Array.from(new Set(rows.slice(0, MAX_SAMPLED_VALUES).flatMap(row => Object.keys(row ?? {}))));
+    // Columns pseudonymized by choice rather than detection get VALUE_ tokens
+    const plan = new Map<string, { privacy: ColumnPrivacy; kind: PIIKind | 'value' }>();
+    for (const column of columns) {
+      const kind = this.columnKind(column, rows);
+      plan.set(column, { privacy: columnPrivacy(this.policy, column, kind), kind: kind ?? 'value' });
+    }
+
+    return rows.map(row => {
+      const redacted: Record<string, any> = {};
+      for (const [column, value] of Object.entries(row ?? {})) {
+        const { privacy, kind } = plan.get(column) ?? { privacy: 'allow', kind: 'value' };
+        if (privacy === 'block') continue;
+        if (value === null || value === undefined || value === '') {
+          redacted[column] = value;
+        } else if (privacy === 'pseudonymize') {
+          redacted[column] = this.token(kind, String(value));
+        } else {
+          // Free text such as notes can still hold an address
+          redacted[column] = typeof value === 'string'
+            ? value.replace(EMAIL_IN_TEXT, email => this.token('email', email))
+            : value;
+        }
+      }
+      return redacted;
+    });
+  }
+
+  /** Replace values already seen in rows, and any email address, with their tokens */
+  redactText(text: string): string {
+    if (!text) return text;
+    const tokens = new Map<string, string>();
+    for (const [token, value] of Array.from(this.values.entries())) {
+      if (value.length >= MIN_TEXT_VALUE_LENGTH && !tokens.has(value)) tokens.set(value, token);
+    }
+    // One pass over the text, longest values first, so a value is never replaced inside a token
+    const known = Array.from(tokens.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const redacted = known.length > 0
+      ? text.replace(new RegExp(known.join('|'), 'g'), value => tokens.get(value)!)
+      : text;
+    return redacted.replace(EMAIL_IN_TEXT, email => this.token('email', email));
+  }
+
+  /** Token to real value for the values seen so far that appear in `text` */
+  pseudonymsIn(text: string): Record<string, string> {
+    if (!text) return {};
+    return Object.fromEntries(Array.from(this.values.entries())
+      .filter(([, value]) => value.length >= MIN_TEXT_VALUE_LENGTH && text.includes(value)));
+  }
+
+  /** Swap tokens back for real values in a string, or in every string of an object */
+  rehydrate<T>(value: T): T {
+    if (typeof value === 'string') {
+      return value.replace(TOKEN_PATTERN, token => this.values.get(token) ?? token) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.rehydrate(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.rehydrate(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Rehydrate text that arrives in pieces. A token split across two pieces is
+   * held back until the rest of it arrives; call flush() at the end.
+   */
+  rehydrateStream(onText: (text: string) => void): { push: (delta: string) => void; flush: () => void } {
+    let held = '';
+    return {
+      push: delta => {
+        const text = held + delta;
+        // A whole token is held too, since a disambiguating _2 may follow it
+        const partial = text.match(/[A-Z][A-Z_]*(?:[0-9a-f]{1,16}(?:_\d*)?)?$/);
+        const cut = partial && partial[0].length < 32 ? text.length - partial[0].length : text.length;
+        held = text.slice(cut);
+        if (cut > 0) onText(this.rehydrate(text.slice(0, cut)));
+      },
+      flush: () => {
+        if (held) onText(this.rehydrate(held));
+        held = '';
+      }
+    };
+  }
+
+  private columnKind(column: string, rows: Record<string, any>[]): PIIKind | null {
+    if (!this.kinds.has(column)) {
+      this.kinds.set(column, detectPIIColumn(column, rows.slice(0, MAX_SAMPLED_VALUES).map(row => row?.[column])));
+    }
+    return this.kinds.get(column)!;
+  }
+
+  private token(kind: PIIKind | 'value', value: string): string {
+    const trimmed = value.trim();
+    const base = `${kind.toUpperCase()}_${sha256(`${this.policy?.salt ?? ''}\u0000${trimmed}`).slice(0, 16)}`;
+    // Two values with the same digest must never rehydrate to each other
+    let token = base;
+    for (let n = 2; this.values.has(token) && this.values.get(token) !== trimmed; n++) {
+      token = `${base}_${n}`;
+    }
+    this.values.set(token, trimmed);
+    return token;
+  }
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// SHA-256 of the UTF-8 text, as hex. Synchronous, so the browser and the server tokenize alike.
+function sha256(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, bytes.length * 8);
+
+  const hash = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = Array.from(hash);
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => { hash[i] += value; });
+  }
+  return Array.from(hash).map(value => value.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,198 @@
+import type {
+  ColumnRole,
+  ColumnSchema,
+  DatasetType,
+  SemanticColumn,
+  SemanticLayer,
+  SemanticMetric
+} from '@/types';
+
+export interface DraftTable {
+  table: string;
+  /** Columns with their types as mapped by mapDuckDBType */
+  columns: Array<{ name: string; type: ColumnSchema['type'] }>;
+}
+
+export const COLUMN_ROLES: Array<{ value: ColumnRole; label: string }> = [
+  { value: 'identifier', label: 'Identifier' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'quantity', label: 'Quantity' },
+  { value: 'date', label: 'Date' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'counterparty', label: 'Counterparty' },
+  { value: 'status', label: 'Status' },
+  { value: 'category', label: 'Category' },
+  { value: 'description', label: 'Description' },
+  { value: 'other', label: 'Other' }
+];
+
+// Checked in order; the first match wins
+const ROLE_PATTERNS: Array<{ role: ColumnRole; pattern: RegExp; types: Array<ColumnSchema['type']> }> = [
+  { role: 'due_date', pattern: /due|maturity|expir/i, types: ['date'] },
+  { role: 'date', pattern: /./, types: ['date'] },
+  { role: 'identifier', pattern: /(^|_|\s)(id|key|code|sku|number|no|num|ref|reference)$/i, types: ['string', 'number'] },
+  { role: 'quantity', pattern: /qty|quantity|units|stock|on_?hand|reorder|(^|_)count$|headcount/i, types: ['number', 'currency'] },
+  { role: 'amount', pattern: /./, types: ['currency'] },
+  { role: 'counterparty', pattern: /vendor|supplier|customer|client|payee|payer|counterparty|employee|merchant/i, types: ['string'] },
+  { role: 'status', pattern: /status|state|stage/i, types: ['string', 'boolean'] },
+  { role: 'category', pattern: /category|type|class|department|region|segment|account|group/i, types: ['string'] },
+  { role: 'description', pattern: /desc|memo|note|narrative|comment|details/i, types: ['string'] }
+];
+
+const ROLE_SYNONYMS: Partial<Record<ColumnRole, string[]>> = {
+  amount: ['value'],
+  due_date: ['due', 'deadline'],
+  counterparty: ['party'],
+  status: ['state']
+};
+
+// Status values that mean an item is settled
+const CLOSED_STATUSES = "('paid', 'closed', 'settled', 'void', 'cancelled')";
+
+/**
+ * Draft a semantic layer from column names and mapped types: a role and
+ * synonyms per column, plus metrics that suit the dataset type. Meant as a
+ * starting point the user edits, not as ground truth.
+ */
+export function draftSemanticLayer(tables: DraftTable[], datasetType: DatasetType = 'general'): SemanticLayer {
+  const columns: SemanticColumn[] = tables.flatMap(({ table, columns }) =>
+    columns.map(({ name, type }) => {
+      const role = inferColumnRole(name, type);
+      return { table, column: name, role, synonyms: suggestSynonyms(name, role) };
+    })
+  );
+
+  const metrics = tables.flatMap(({ table }) =>
+    draftMetrics(table, columns.filter(col => col.table === table), datasetType)
+  );
+
+  return { columns, metrics, updatedAt: new Date().toISOString() };
+}
+
+export function inferColumnRole(name: string, type: ColumnSchema['type']): ColumnRole {
+  const match = ROLE_PATTERNS.find(rule => rule.types.includes(type) && rule.pattern.test(name));
+  return match?.role ?? 'other';
+}
+
+/**
+ * Prompt section explaining the dataset's business vocabulary. Fields come
+ * from the client, so everything is bounded here.
+ */
+export function formatSemanticLayer(layer: SemanticLayer | undefined): string {
+  if (!layer || !Array.isArray(layer.columns)) return '';
+
+  const columnLines = layer.columns
+    .filter(col => col.role !== 'other' || col.description || col.synonyms?.length)
+    .slice(0, 200)
+    .map(col => {
+      const parts = [`- ${col.table}."${col.column}": ${col.role}`];
+      if (col.synonyms?.length) parts.push(`also called ${col.synonyms.slice(0, 10).join(', ')}`);
+      if (col.description) parts.push(String(col.description).slice(0, 200));
+      return parts.join('; ');
+    });
+
+  const metricLines = (layer.metrics ?? []).slice(0, 50).map(metric => {
+    const aliases = metric.synonyms?.length ? ` (also: ${metric.synonyms.slice(0, 10).join(', ')})` : '';
+    const description = metric.description ? ` — ${String(metric.description).slice(0, 200)}` : '';
+    return `- ${metric.name}${aliases}: ${String(metric.expression).slice(0, 500)} FROM ${metric.table}${description}`;
+  });
+
+  if (columnLines.length === 0 && metricLines.length === 0) return '';
+
+  return [
+    'Business glossary for this dataset:',
+    ...(columnLines.length > 0 ? ['Column roles:', ...columnLines] : []),
+    ...(metricLines.length > 0 ? ['Metrics (use these exact expressions when a question names the metric or a synonym):', ...metricLines] : [])
+  ].join('\n');
+}
+
+function suggestSynonyms(name: string, role: ColumnRole): string[] {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_\-.]+/g, ' ').trim().toLowerCase();
+  const synonyms = words !== name.toLowerCase() ? [words] : [];
+  return synonyms.concat((ROLE_SYNONYMS[role] ?? []).filter(synonym => !words.includes(synonym)));
+}
+
+function draftMetrics(table: string, columns: SemanticColumn[], datasetType: DatasetType): SemanticMetric[] {
+  const find = (role: ColumnRole, pattern?: RegExp) =>
+    columns.find(col => col.role === role && (!pattern || pattern.test(col.column)));
+  const q = (col: SemanticColumn) => `"${col.column.replace(/"/g, '""')}"`;
+  const metric = (name: string, expression: string, description: string, synonyms: string[] = []): SemanticMetric =>
+    ({ name, table, expression, description, synonyms });
+
+  const amount = find('amount', /amount|total|balance|value/i) ?? find('amount');
+  const date = find('date');
+  const dueDate = find('due_date');
+  const status = find('status');
+  const quantity = find('quantity', /qty|quantity|on_?hand|stock/i);
+  const reorderPoint = find('quantity', /reorder/i);
+  const cost = columns.find(col => col.role === 'amount' && /cost|cogs/i.test(col.column));
+  const price = columns.find(col => col.role === 'amount' && /price|revenue|sales/i.test(col.column));
+
+  const metrics: SemanticMetric[] = [metric('record count', 'COUNT(*)', 'Number of rows', ['count', 'number of records'])];
+  const open = status ? ` FILTER (WHERE lower(${q(status)}) NOT IN ${CLOSED_STATUSES})` : '';
+
+  switch (datasetType) {
+    case 'financial':
+      if (amount) {
+        metrics.push(metric('total amount', `SUM(${q(amount)})`, 'Sum of all amounts', ['total']));
+        metrics.push(metric('open balance', `SUM(${q(amount)})${open}`,
+          status ? 'Amount not yet paid, closed or void' : 'All amounts; no status column to exclude paid items',
+          ['open AR', 'open AP', 'outstanding', 'unpaid']));
+      }
+      if (amount && dueDate) {
+        const overdue = `${q(dueDate)} < CURRENT_DATE${status ? ` AND lower(${q(status)}) NOT IN ${CLOSED_STATUSES}` : ''}`;
+        metrics.push(metric('overdue amount', `SUM(${q(amount)}) FILTER (WHERE ${overdue})`, 'Open amount past its due date', ['past due', 'overdue balance']));
+        metrics.push(metric('average days overdue', `AVG(date_diff('day', ${q(dueDate)}, CURRENT_DATE)) FILTER (WHERE ${overdue})`, 'Mean days past due over overdue items'));
+      }
+      if (amount && date) {
+        metrics.push(metric('DSO',
+          `SUM(${q(amount)})${open} / NULLIF(SUM(${q(amount)}) / NULLIF(date_diff('day', MIN(${q(date)}), MAX(${q(date)})), 0), 0)`,
+          'Days sales outstanding: open balance over average daily billing in the period',
+          ['days sales outstanding', 'collection period']));
+      }
+      break;
+    case 'sales':
+      if (price ?? amount) {
+        const revenue = (price ?? amount)!;
+        metrics.push(metric('revenue', `SUM(${q(revenue)})`, 'Total sales value', ['sales', 'turnover']));
+        metrics.push(metric('average order value', `AVG(${q(revenue)})`, 'Mean value per row', ['AOV']));
+        if (cost && cost !== revenue) {
+          metrics.push(metric('gross margin',
+            `(SUM(${q(revenue)}) - SUM(${q(cost)})) / NULLIF(SUM(${q(revenue)}), 0)`,
+            'Share of revenue left after cost of goods', ['GM', 'margin', 'gross margin %']));
+        }
+      }
+      break;
+    case 'inventory':
+      if (quantity) {
+        metrics.push(metric('stock on hand', `SUM(${q(quantity)})`, 'Units in stock', ['inventory level', 'units']));
+        if (reorderPoint) {
+          metrics.push(metric('items below reorder point', `COUNT(*) FILTER (WHERE ${q(quantity)} <= ${q(reorderPoint)})`,
+            'Items whose stock is at or under their reorder point', ['low stock', 'needs reorder']));
+        }
+        if (cost ?? price) {
+          metrics.push(metric('inventory value', `SUM(${q(quantity)} * ${q((cost ?? price)!)})`, 'Stock valued at unit cost', ['stock value']));
+        }
+      }
+      break;
+    case 'hr':
+      metrics.push(metric('headcount', 'COUNT(*)', 'Number of employees', ['employees', 'FTEs']));
+      if (amount) {
+        metrics.push(metric('total payroll', `SUM(${q(amount)})`, 'Sum of pay', ['payroll', 'salary cost']));
+      }
+      break;
+    case 'bank_feed':
+      if (amount) {
+        metrics.push(metric('net cash flow', `SUM(${q(amount)})`, 'Inflows minus outflows', ['net movement']));
+        metrics.push(metric('inflows', `SUM(${q(amount)}) FILTER (WHERE ${q(amount)} > 0)`, 'Money received', ['deposits', 'credits']));
+        metrics.push(metric('outflows', `-SUM(${q(amount)}) FILTER (WHERE ${q(amount)} < 0)`, 'Money paid out', ['withdrawals', 'debits', 'spend']));
+      }
+      break;
+    default:
+      if (amount) {
+        metrics.push(metric('total amount', `SUM(${q(amount)})`, 'Sum of all amounts', ['total']));
+      }
+  }
+
+  return metrics;
+}
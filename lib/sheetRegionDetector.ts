@@ -0,0 +1,286 @@
+import { dedupeHeaders } from './dataCleaning';
+
+export type SkippedRowReason = 'title' | 'blank' | 'subtotal' | 'total' | 'group_header' | 'footer';
+
+export interface SkippedRow {
+  /** 1-based row number as shown in Excel */
+  row: number;
+  reason: SkippedRowReason;
+  text?: string;
+}
+
+export interface SheetRegion {
+  /** 0-based index into the raw rows of the chosen header row */
+  headerRowIndex: number;
+  firstDataRowIndex: number;
+  lastDataRowIndex: number;
+  headers: string[];
+  /** Column indexes (into the raw rows) that make up the table */
+  columnIndexes: number[];
+  rows: any[][];
+  skippedRows: SkippedRow[];
+  confidence: number;
+  headerCandidates: Array<{ rowIndex: number; score: number }>;
+  overridden: boolean;
+}
+
+export interface DetectSheetRegionOptions {
+  /** Force a specific 0-based header row instead of scoring candidates */
+  headerRowIndex?: number;
+}
+
+// Only the top of the sheet is searched for the header
+const MAX_HEADER_SEARCH_ROWS = 30;
+// This many blank rows in a row end the data block
+const BLANK_RUN_TERMINATOR = 2;
+
+const TOTAL_PATTERN = /^\s*(grand\s+total\b|net\s+(total|income|change)\b|total\s*:?\s*$)/i;
+const SUBTOTAL_PATTERN = /^\s*(sub-?total|total\s+for)\b/i;
+// "Total <something>" is only a subtotal if it names a section or its figures add up
+const MAYBE_SUBTOTAL_PATTERN = /^\s*total\s+(.+)$/i;
+const FOOTER_PATTERN = /^\s*(generated|printed|run\s+date|page\s+\d|accrual\s+basis|cash\s+basis|notes?:|source:|\*)/i;
+
+/**
+ * Find the header row and contiguous data block of a sheet exported from
+ * accounting tools, which usually carry title blocks, report dates, spacer
+ * rows, subtotals and footers around the actual table.
+ */
+export function detectSheetRegion(rawRows: any[][], options: DetectSheetRegionOptions = {}): SheetRegion {
+  const rows = rawRows.map(row => (row || []).map(normalizeCell));
+  const width = rows.reduce((max, row) => Math.max(max, lastFilledIndex(row) + 1), 0);
+
+  const headerCandidates = rows
+    .slice(0, MAX_HEADER_SEARCH_ROWS)
+    .map((row, rowIndex) => ({ rowIndex, score: scoreHeaderRow(rows, rowIndex, width) }))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const overridden = options.headerRowIndex !== undefined
+    && options.headerRowIndex >= 0
+    && options.headerRowIndex < rows.length;
+  const headerRowIndex = overridden
+    ? options.headerRowIndex!
+    : headerCandidates[0]?.rowIndex ?? 0;
+
+  const skippedRows: SkippedRow[] = [];
+  for (let i = 0; i < headerRowIndex; i++) {
+    skippedRows.push(isBlankRow(rows[i])
+      ? { row: i + 1, reason: 'blank' }
+      : { row: i + 1, reason: 'title', text: rowText(rows[i]) });
+  }
+
+  const headerRow = rows[headerRowIndex] || [];
+  const headerColumns: number[] = [];
+  for (let c = 0; c < width; c++) {
+    if (!isEmpty(headerRow[c])) headerColumns.push(c);
+  }
+
+  const dataRows: any[][] = [];
+  let firstDataRowIndex = -1;
+  let lastDataRowIndex = headerRowIndex;
+  let blankRun = 0;
+  let sectionRows: any[][] = [];
+  const sectionLabels = new Set<string>();
+  let i = headerRowIndex + 1;
+
+  for (; i < rows.length; i++) {
+    const row = rows[i];
+    if (isBlankRow(row)) {
+      blankRun++;
+      if (blankRun >= BLANK_RUN_TERMINATOR && firstDataRowIndex !== -1) break;
+      skippedRows.push({ row: i + 1, reason: 'blank' });
+      continue;
+    }
+    blankRun = 0;
+
+    const label = firstText(row);
+    const filled = headerColumns.filter(c => !isEmpty(row[c])).length;
+
+    if (label && TOTAL_PATTERN.test(label)) {
+      skippedRows.push({ row: i + 1, reason: 'total', text: label });
+      sectionRows = [];
+      continue;
+    }
+    const maybeSubtotal = label?.match(MAYBE_SUBTOTAL_PATTERN);
+    const isSubtotal = label && hasNumber(row) && (
+      SUBTOTAL_PATTERN.test(label) ||
+      (maybeSubtotal && (
+        sectionLabels.has(maybeSubtotal[1].trim().toLowerCase()) ||
+        sumsMatch(row, sectionRows, headerColumns)
+      ))
+    );
+    if (isSubtotal) {
+      skippedRows.push({ row: i + 1, reason: 'subtotal', text: label! });
+      sectionRows = [];
+      continue;
+    }
+    if (filled <= 1 && label && FOOTER_PATTERN.test(label)) {
+      skippedRows.push({ row: i + 1, reason: 'footer', text: label });
+      continue;
+    }
+    // A lone label with no figures is a section heading inside a grouped report
+    if (filled <= 1 && label && !hasNumber(row) && headerColumns.length > 2) {
+      skippedRows.push({ row: i + 1, reason: 'group_header', text: label });
+      sectionLabels.add(label.trim().toLowerCase());
+      sectionRows = [];
+      continue;
+    }
+
+    if (firstDataRowIndex === -1) firstDataRowIndex = i;
+    lastDataRowIndex = i;
+    dataRows.push(row);
+    sectionRows.push(row);
+  }
+
+  // Columns without a header and without data are spacing, not part of the table
+  const columnIndexes: number[] = [];
+  for (let c = 0; c < width; c++) {
+    if (!isEmpty(headerRow[c]) || dataRows.some(row => !isEmpty(row[c]))) columnIndexes.push(c);
+  }
+  const headers = dedupeHeaders(columnIndexes.map(c => isEmpty(headerRow[c]) ? '' : String(headerRow[c])));
+
+  // Blank rows between the last data row and the terminator belong to the footer area
+  const trailingBlanks = skippedRows.filter(s => s.reason === 'blank' && s.row - 1 > lastDataRowIndex);
+  trailingBlanks.forEach(s => { s.reason = 'footer'; });
+
+  for (; i < rows.length; i++) {
+    if (!isBlankRow(rows[i])) {
+      skippedRows.push({ row: i + 1, reason: 'footer', text: rowText(rows[i]) });
+    }
+  }
+
+  const best = headerCandidates[0]?.score ?? 0;
+  const runnerUp = headerCandidates[1]?.score ?? 0;
+  const chosenScore = headerCandidates.find(c => c.rowIndex === headerRowIndex)?.score ?? 0;
+  // Confidence reflects both how header-like the row is and how clearly it beat the alternatives
+  const margin = best > 0 ? (best - runnerUp) / best : 0;
+  const confidence = overridden
+    ? 1
+    : Math.round(Math.min(1, chosenScore * 0.7 + margin * 0.3) * 100) / 100;
+
+  return {
+    headerRowIndex,
+    firstDataRowIndex: firstDataRowIndex === -1 ? headerRowIndex + 1 : firstDataRowIndex,
+    lastDataRowIndex,
+    headers,
+    columnIndexes,
+    rows: dataRows.map(row => columnIndexes.map(c => row[c] ?? null)),
+    skippedRows: skippedRows.sort((a, b) => a.row - b.row),
+    confidence,
+    headerCandidates: headerCandidates.slice(0, 5),
+    overridden
+  };
+}
+
+/**
+ * Score how likely a row is to be the header: mostly short, distinct text
+ * labels spanning the table width, followed by rows that carry data.
+ */
+function scoreHeaderRow(rows: any[][], rowIndex: number, width: number): number {
+  const row = rows[rowIndex];
+  const cells = row.filter(v => !isEmpty(v));
+  if (cells.length < 2 || width === 0) return 0;
+
+  const textCells = cells.filter(v => typeof v === 'string' && !looksNumeric(v) && !looksLikeDate(v));
+  const textRatio = textCells.length / cells.length;
+  const coverage = cells.length / width;
+  const distinct = new Set(textCells.map(v => String(v).toLowerCase())).size / Math.max(1, textCells.length);
+  const shortLabels = textCells.filter(v => String(v).length <= 40).length / Math.max(1, textCells.length);
+
+  // The rows below a real header look alike and have numbers or dates in them
+  const below = rows.slice(rowIndex + 1, rowIndex + 6).filter(r => !isBlankRow(r));
+  const belowFilled = below.length > 0
+    ? below.reduce((sum, r) => sum + r.filter(v => !isEmpty(v)).length, 0) / (below.length * cells.length)
+    : 0;
+  const belowHasValues = below.length > 0
+    ? below.filter(r => r.some(v => typeof v === 'number' || looksNumeric(v) || looksLikeDate(v))).length / below.length
+    : 0;
+
+  const label = firstText(row);
+  const penalty = label && (TOTAL_PATTERN.test(label) || FOOTER_PATTERN.test(label)) ? 0.5 : 1;
+
+  const score = (
+    textRatio * 0.3 +
+    coverage * 0.25 +
+    distinct * 0.1 +
+    shortLabels * 0.05 +
+    Math.min(1, belowFilled) * 0.15 +
+    belowHasValues * 0.15
+  ) * penalty;
+
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * True when every numeric cell of the row equals the column sum of the rows
+ * above it, which is what a subtotal line is
+ */
+function sumsMatch(row: any[], rowsAbove: any[][], columns: number[]): boolean {
+  if (rowsAbove.length < 2) return false;
+  let compared = 0;
+  for (const c of columns) {
+    const value = toNumber(row[c]);
+    if (value === null) continue;
+    const sum = rowsAbove.reduce((acc, r) => acc + (toNumber(r[c]) ?? 0), 0);
+    if (Math.abs(sum - value) > 0.005 * Math.max(1, Math.abs(value))) return false;
+    compared++;
+  }
+  return compared > 0;
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !looksNumeric(value)) return null;
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith('-');
+  const num = parseFloat(value.replace(/[^\d.]/g, ''));
+  if (!isFinite(num)) return null;
+  return negative ? -num : num;
+}
+
+function normalizeCell(value: any): any {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' ? null : trimmed;
+  }
+  return value === undefined ? null : value;
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function isBlankRow(row: any[] | undefined): boolean {
+  return !row || row.every(isEmpty);
+}
+
+function lastFilledIndex(row: any[]): number {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (!isEmpty(row[i])) return i;
+  }
+  return -1;
+}
+
+function firstText(row: any[]): string | null {
+  const value = row.find(v => typeof v === 'string' && v.trim() !== '');
+  return value ?? null;
+}
+
+function rowText(row: any[]): string {
+  return row.filter(v => !isEmpty(v)).map(String).join(' | ').slice(0, 120);
+}
+
+function hasNumber(row: any[]): boolean {
+  return row.some(v => typeof v === 'number' || (typeof v === 'string' && looksNumeric(v)));
+}
+
+function looksNumeric(value: any): boolean {
+  if (typeof value === 'number') return true;
+  if (typeof value !== 'string') return false;
+  return /^[(\-+]?[$€£¥₹]?\s?[\d.,\s]+%?\)?$/.test(value.trim()) && /\d/.test(value);
+}
+
+function looksLikeDate(value: any): boolean {
+  if (value instanceof Date) return true;
+  if (typeof value !== 'string') return false;
+  return /^\d{1,4}[\/\-.]\d{1,2}[\/\-.]\d{1,4}$/.test(value.trim());
+}
@@ -0,0 +1,55 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { claimOnce } from './artifactStore';
+
+/**
+ * Signed, expiring tokens for what the server hands to the client and must
+ * get back unchanged: a paused agent run, the approval of an irreversible
+ * action. Each token has a random id and `redeemToken` accepts it once, so
+ * a retried or replayed request can't act on it a second time.
+ */
+
+export interface TokenBody<T> {
+  /** What the token is for, so one kind can't stand in for another */
+  kind: string;
+  id: string;
+  expiresAt: number;
+  payload: T;
+}
+
+// Without SIGNING_SECRET tokens only verify on the server process that signed them
+const SIGNING_KEY = process.env.SIGNING_SECRET || randomBytes(32).toString('hex');
+
+export function signToken<T>(kind: string, payload: T, ttlMs: number): string {
+  const body: TokenBody<T> = { kind, id: randomUUID(), expiresAt: Date.now() + ttlMs, payload };
+  const encoded = Buffer.from(JSON.stringify(body), 'utf8').toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * The token's body when it was signed here for `kind` and has not expired,
+ * else null. Does not check whether it was redeemed.
+ */
+export function readToken<T>(kind: string, token: unknown): TokenBody<T> | null {
+  if (typeof token !== 'string') return null;
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  const body: TokenBody<T> = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  return body.kind === kind && body.expiresAt > Date.now() ? body : null;
+}
+
+/**
+ * Mark a token read by `readToken` as used. Resolves to false when it was
+ * redeemed before, here or on another server process sharing the store.
+ */
+export function redeemToken(body: TokenBody<unknown>): Promise<boolean> {
+  return claimOnce(`${body.kind}-${body.id}`, new Date(body.expiresAt));
+}
+
+function sign(encoded: string): string {
+  return createHmac('sha256', SIGNING_KEY).update(encoded).digest('hex');
+}
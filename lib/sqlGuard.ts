@@ -0,0 +1,273 @@
+'use client';
+
+import { getClientConnection } from './clientDatabase';
+
+// Rows a generated read returns unless it asks for fewer
+export const DEFAULT_ROW_LIMIT = 1000;
+
+// Table functions that only generate values; the rest (read_csv, query, glob, ...) reach outside the dataset
+const ALLOWED_TABLE_FUNCTIONS = ['range', 'generate_series', 'unnest'];
+
+const WRITE_STATEMENT = /^(?:INSERT\s+(?:OR\s+\w+\s+)?INTO|UPDATE|DELETE\s+FROM)\s+("(?:[^"]|"")+"|[\w.]+)/i;
+const LEADING_COMMENTS = /^(?:\s+|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/;
+
+export type QueryKind = 'read' | 'write';
+
+export interface GuardOptions {
+  /** Tables the query may reference */
+  tables: string[];
+  /** Data edit mode: also accept a single INSERT, UPDATE or DELETE on one of the tables */
+  allowWrites?: boolean;
+  rowLimit?: number;
+}
+
+export interface GuardedQuery {
+  /** Statement to run, with a row limit added to reads */
+  sql: string;
+  /** The statement as checked, before the row limit; aggregates over the whole result run on it */
+  statement: string;
+  kind: QueryKind;
+  /** Tables the statement reads, or the one it writes */
+  tables: string[];
+}
+
+/**
+ * Validate generated SQL with DuckDB's own parser before it runs. Reads must
+ * be a single SELECT over the given tables and columns and get a row limit;
+ * writes are refused unless the caller is in data edit mode, and DDL always is.
+ * Throws an Error explaining why a query was rejected.
+ */
+export async function guardQuery(sql: string, options: GuardOptions): Promise<GuardedQuery> {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  if (!statement) {
+    throw new Error('The query is empty');
+  }
+
+  const known = new Set(options.tables.map(table => table.toLowerCase()));
+
+  const ast = await serialize(statement);
+
+  if (ast.error) {
+    if (ast.error_type !== 'not implemented') {
+      throw new Error(ast.error_message || 'The query could not be parsed');
+    }
+    if (!options.allowWrites) {
+      throw new Error('Only read-only queries can run. Turn on data edit mode to change data.');
+    }
+    return guardWrite(statement, known);
+  }
+
+  if (ast.statements.length !== 1) {
+    throw new Error('Only one statement can run at a time');
+  }
+
+  const tables = checkReferences(ast.statements[0].node, known);
+
+  // Binding checks every column against the tables without running the query
+  await bindStatement(statement);
+
+  return {
+    sql: applyRowLimit(statement, ast.statements[0].node, options.rowLimit ?? DEFAULT_ROW_LIMIT),
+    statement,
+    kind: 'read',
+    tables
+  };
+}
+
+async function guardWrite(statement: string, known: Set<string>): Promise<GuardedQuery> {
+  const write = statement.replace(LEADING_COMMENTS, '');
+  const match = write.match(WRITE_STATEMENT);
+  if (!match) {
+    throw new Error('Data edit mode only allows INSERT, UPDATE and DELETE; tables cannot be created, altered or dropped');
+  }
+
+  const target = unquote(match[1].replace(/^main\./i, ''));
+  if (!known.has(target.toLowerCase())) {
+    throw new Error(`The query changes table "${target}", which is not part of this dataset`);
+  }
+
+  // Writes don't serialize, so check what they read as SELECTs before binding can fetch anything
+  for (const read of writeReads(match[0].split(/\s+/)[0].toUpperCase(), match[1], write.slice(match[0].length))) {
+    const ast = await serialize(read);
+    if (ast.error || ast.statements.length !== 1) {
+      throw new Error('The change could not be checked; write it as a single INSERT, UPDATE or DELETE');
+    }
+    checkReferences(ast.statements[0].node, known);
+  }
+
+  // Also rejects multi-statement payloads
+  await bindStatement(statement);
+
+  return { sql: statement, statement, kind: 'write', tables: [target] };
+}
+
+/**
+ * SELECTs over what a write reads: the source of an INSERT, the SET values,
+ * FROM and WHERE of an UPDATE, the USING and WHERE of a DELETE and any
+ * RETURNING list. Everything after the target but column names ends up in
+ * one of them, so subqueries and table functions are checked like in reads.
+ */
+function writeReads(verb: string, target: string, body: string): string[] {
+  if (verb === 'INSERT') {
+    const source = body
+      .replace(/^\s*\(\s*(?:"(?:[^"]|"")+"|\w+)(?:\s*,\s*(?:"(?:[^"]|"")+"|\w+))*\s*\)/, '')
+      .replace(/^\s*BY\s+(?:NAME|POSITION)\b/i, '');
+    const tokens = topLevelTokens(source);
+    const conflict = tokens.findIndex((token, i) => token.text === 'ON' && tokens[i + 1]?.text === 'CONFLICT');
+    if (conflict !== -1 && tokens.slice(conflict).some(token => token.text === 'UPDATE')) {
+      throw new Error('Data edit mode does not support ON CONFLICT DO UPDATE; use a separate UPDATE');
+    }
+    const returning = tokens.find(token => token.text === 'RETURNING');
+    const end = conflict !== -1 ? tokens[conflict].index : returning?.index ?? source.length;
+    const reads = /^\s*DEFAULT\s+VALUES\s*$/i.test(source.slice(0, end)) ? [] : [source.slice(0, end)];
+    if (returning) reads.push(`SELECT ${source.slice(returning.index + 'RETURNING'.length)} FROM ${target}`);
+    return reads;
+  }
+
+  const clauses = splitClauses(body, verb === 'UPDATE' ? ['SET', 'FROM', 'WHERE', 'RETURNING'] : ['USING', 'WHERE', 'RETURNING']);
+  const selects: string[] = [];
+  if (verb === 'UPDATE') {
+    if (clauses.SET === undefined) {
+      throw new Error('The UPDATE has no SET clause');
+    }
+    for (const assignment of splitTopLevel(clauses.SET)) {
+      const equals = assignment.indexOf('=');
+      if (equals === -1 || !/^\s*(?:"(?:[^"]|"")+"|[\w.]+)\s*$/.test(assignment.slice(0, equals))) {
+        throw new Error('Each SET in the UPDATE must assign one column');
+      }
+      selects.push(assignment.slice(equals + 1));
+    }
+  }
+  if (clauses.RETURNING !== undefined) selects.push(clauses.RETURNING);
+
+  const from = [`${target}${clauses.prefix}`, clauses.FROM ?? clauses.USING].filter(Boolean).join(', ');
+  const where = clauses.WHERE !== undefined ? ` WHERE ${clauses.WHERE}` : '';
+  return [`SELECT ${selects.length > 0 ? selects.join(', ') : '*'} FROM ${from}${where}`];
+}
+
+// The text before the first of `keywords` at the top level, and after each
+function splitClauses(text: string, keywords: string[]): Record<string, string | undefined> & { prefix: string } {
+  const found = topLevelTokens(text).filter(token => keywords.includes(token.text));
+  const clauses: Record<string, string | undefined> & { prefix: string } = { prefix: text.slice(0, found[0]?.index ?? text.length) };
+  found.forEach((token, i) => {
+    if (clauses[token.text] !== undefined) {
+      throw new Error(`The statement has more than one ${token.text} clause`);
+    }
+    clauses[token.text] = text.slice(token.index + token.text.length, found[i + 1]?.index ?? text.length);
+  });
+  return clauses;
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (const token of topLevelTokens(text)) {
+    if (token.text !== ',') continue;
+    parts.push(text.slice(start, token.index));
+    start = token.index + 1;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// Upper-cased words and commas outside parentheses, strings, quoted names and comments
+function topLevelTokens(text: string): Array<{ text: string; index: number }> {
+  const tokens: Array<{ text: string; index: number }> = [];
+  let depth = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "'" || char === '"') {
+      i++;
+      while (i < text.length && !(text[i] === char && text[i + 1] !== char)) {
+        i += text[i] === char ? 2 : 1;
+      }
+      i++;
+    } else if (text.startsWith('--', i)) {
+      i = text.includes('\n', i) ? text.indexOf('\n', i) + 1 : text.length;
+    } else if (text.startsWith('/*', i)) {
+      i = text.includes('*/', i) ? text.indexOf('*/', i) + 2 : text.length;
+    } else if (char === '(' || char === ')') {
+      depth += char === '(' ? 1 : -1;
+      i++;
+    } else if (/[A-Za-z_]/.test(char) && !/[\w$]/.test(text[i - 1] ?? '')) {
+      const word = text.slice(i).match(/^[\w$]+/)![0];
+      if (depth === 0) tokens.push({ text: word.toUpperCase(), index: i });
+      i += word.length;
+    } else {
+      if (char === ',' && depth === 0) tokens.push({ text: ',', index: i });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// The statement's AST from DuckDB; only SELECT statements serialize, anything else comes back as an error
+async function serialize(statement: string): Promise<any> {
+  const connection = await getClientConnection();
+  const result = await connection.query(`SELECT json_serialize_sql('${statement.replace(/'/g, "''")}') AS ast`);
+  return JSON.parse(String(result.toArray()[0].ast));
+}
+
+// Throw when a statement calls a table function that reaches outside the dataset or uses a table outside it
+function checkReferences(node: any, known: Set<string>): string[] {
+  const references = { tables: new Set<string>(), ctes: new Set<string>(), functions: new Set<string>() };
+  collectReferences(node, references);
+
+  const blockedFunction = Array.from(references.functions).find(name => !ALLOWED_TABLE_FUNCTIONS.includes(name));
+  if (blockedFunction) {
+    throw new Error(`The query calls ${blockedFunction}(), which can read outside this dataset`);
+  }
+  const tables = Array.from(references.tables).filter(table => !references.ctes.has(table));
+  const unknown = tables.find(table => !known.has(table));
+  if (unknown) {
+    throw new Error(`The query uses table "${unknown}", which is not part of this dataset`);
+  }
+  return tables;
+}
+
+async function bindStatement(statement: string) {
+  const connection = await getClientConnection();
+  const prepared = await connection.prepare(statement);
+  await prepared.close();
+}
+
+function collectReferences(node: any, references: { tables: Set<string>; ctes: Set<string>; functions: Set<string> }) {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectReferences(child, references));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  if (node.type === 'BASE_TABLE') {
+    const schema = node.schema_name && node.schema_name.toLowerCase() !== 'main' ? `${node.schema_name}.` : '';
+    const catalog = node.catalog_name ? `${node.catalog_name}.` : '';
+    references.tables.add(`${catalog}${schema}${node.table_name}`.toLowerCase());
+  } else if (node.type === 'TABLE_FUNCTION') {
+    references.functions.add(String(node.function?.function_name ?? 'unknown').toLowerCase());
+  }
+  node.cte_map?.map?.forEach((entry: { key: string }) => references.ctes.add(entry.key.toLowerCase()));
+
+  Object.values(node).forEach(child => collectReferences(child, references));
+}
+
+/**
+ * Append a LIMIT when the query has none, or wrap it when its own limit is
+ * larger than allowed or not a constant
+ */
+function applyRowLimit(statement: string, node: any, rowLimit: number): string {
+  const modifier = (node.modifiers ?? []).find((m: any) => m.type === 'LIMIT_MODIFIER' || m.type === 'LIMIT_PERCENT_MODIFIER');
+  if (!modifier) {
+    return `${statement}\nLIMIT ${rowLimit}`;
+  }
+
+  const limit = modifier.type === 'LIMIT_MODIFIER' ? modifier.limit : null;
+  if (limit?.class === 'CONSTANT' && Number(limit.value?.value) <= rowLimit) {
+    return statement;
+  }
+  return `SELECT * FROM (\n${statement}\n) AS limited LIMIT ${rowLimit}`;
+}
+
+function unquote(name: string): string {
+  return name.startsWith('"') ? name.slice(1, -1).replace(/""/g, '"') : name;
+}
@@ -0,0 +1,84 @@
+/**
+ * Server-sent events over fetch. Route handlers return eventStreamResponse();
+ * the client reads it with readEventStream(), since EventSource can't POST.
+ */
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Stream the events `run` sends. An exception becomes an `error` event and
+ * the stream ends when `run` settles.
+ */
+export function eventStreamResponse(run: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send: SendEvent = (event, data) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // The client went away
+          open = false;
+        }
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('Event stream error:', error);
+        send('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (open) {
+          open = false;
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Call `onEvent` for each event of a streaming response until it ends
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (chunk: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -1,10 +1,18 @@
 import { create } from 'zustand';
-import { AppState, DatasetInfo, TablePreview, ChatMessage, AuditEvent } from '@/types';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { AppState, DatasetInfo, TablePreview, ChatMessage, AuditEvent, ConversationTurn, ColumnPrivacy } from '@/types';
+import { createSessionId, conversationKey, MAX_STORED_TURNS } from './conversation';
+import { createPrivacyPolicy, normalizeColumnName } from './redaction';
 
 interface AppStore extends AppState {
+  /** True once persisted state has been restored and reconciled with DuckDB */
+  isRehydrated: boolean;
+  
   // Dataset actions
   addDataset: (dataset: DatasetInfo) => void;
   setCurrentDataset: (id: string) => void;
+  updateDataset: (id: string, updates: Partial<DatasetInfo>) => void;
+  removeDatasets: (ids: string[]) => void;
   
   // Table actions
   setTable: (tableName: string, table: TablePreview) => void;
@@ -13,22 +21,33 @@ interface AppStore extends AppState {
   addMessage: (message: ChatMessage) => void;
   updateMessage: (id: string, updates: Partial<ChatMessage>) => void;
   clearChat: () => void;
+  addConversationTurn: (datasetId: string, turn: ConversationTurn) => void;
   
   // Audit actions
   addAuditEvent: (event: AuditEvent) => void;
   
+  // Privacy actions; null goes back to the detected default
+  setColumnPrivacy: (column: string, privacy: ColumnPrivacy | null) => void;
+  
   // UI state
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setRehydrated: (rehydrated: boolean) => void;
 }
 
-export const useAppStore = create<AppStore>((set, get) => ({
+// Restored explicitly by rehydrateWorkspace, after DuckDB is open, so the
+// UI never sees datasets whose tables are gone
+export const useAppStore = create<AppStore>()(persist((set, get) => ({
   // Initial state
+  isRehydrated: false,
   datasets: [],
   currentDatasetId: null,
   tables: {},
   chatMessages: [],
+  chatSessionId: createSessionId(),
+  conversations: {},
   auditEvents: [],
+  privacyPolicy: createPrivacyPolicy(),
   isLoading: false,
   error: null,
 
@@ -41,6 +60,25 @@ export const useAppStore = create<AppStore>((set, get) => ({
 
   setCurrentDataset: (id) => set({ currentDatasetId: id }),
 
+  updateDataset: (id, updates) =>
+    set((state) => ({
+      datasets: state.datasets.map((dataset) =>
+        dataset.id === id ? { ...dataset, ...updates } : dataset
+      ),
+    })),
+
+  removeDatasets: (ids) =>
+    set((state) => {
+      const datasets = state.datasets.filter((dataset) => !ids.includes(dataset.id));
+      const currentDatasetId = state.currentDatasetId && !ids.includes(state.currentDatasetId)
+        ? state.currentDatasetId
+        : datasets[datasets.length - 1]?.id ?? null;
+      const conversations = Object.fromEntries(
+        Object.entries(state.conversations).filter(([key]) => !ids.includes(key.split(':')[0]))
+      );
+      return { datasets, currentDatasetId, conversations };
+    }),
+
   setTable: (tableName, table) =>
     set((state) => ({
       tables: { ...state.tables, [tableName]: table },
@@ -58,13 +96,42 @@ export const useAppStore = create<AppStore>((set, get) => ({
       ),
     })),
 
-  clearChat: () => set({ chatMessages: [] }),
+  clearChat: () => set({ chatMessages: [], chatSessionId: createSessionId() }),
+
+  addConversationTurn: (datasetId, turn) =>
+    set((state) => {
+      const key = conversationKey(datasetId, state.chatSessionId);
+      const turns = [...(state.conversations[key] ?? []), turn].slice(-MAX_STORED_TURNS);
+      return { conversations: { ...state.conversations, [key]: turns } };
+    }),
 
   addAuditEvent: (event) =>
     set((state) => ({
       auditEvents: [...state.auditEvents, event],
     })),
 
+  setColumnPrivacy: (column, privacy) =>
+    set((state) => {
+      const columns = { ...state.privacyPolicy.columns };
+      delete columns[normalizeColumnName(column)];
+      if (privacy) columns[normalizeColumnName(column)] = privacy;
+      return { privacyPolicy: { ...state.privacyPolicy, columns } };
+    }),
+
   setLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
+  setRehydrated: (rehydrated) => set({ isRehydrated: rehydrated }),
+}), {
+  name: 'sheetpilot-store',
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({
+    datasets: state.datasets,
+    currentDatasetId: state.currentDatasetId,
+    chatMessages: state.chatMessages,
+    chatSessionId: state.chatSessionId,
+    conversations: state.conversations,
+    auditEvents: state.auditEvents,
+    privacyPolicy: state.privacyPolicy,
+  }),
+  skipHydration: true,
 }));
\ No newline at end of file
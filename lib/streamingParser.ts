@@ -0,0 +1,153 @@
+'use client';
+
+import { createTable, insertRows, alterColumnTypes, checkpointDatabase } from './clientDatabase';
+import type { ParseOptions, ParseProgress, ParsedSheet } from './fileParser';
+
+// Formats the worker parses; everything else needs /api/upload. Only CSV and TSV are read row by row;
+// JSON, Excel and bank statements are read whole, then typed and stored in chunks.
+const WORKER_EXTENSIONS = ['csv', 'tsv', 'json', 'xlsx', 'xls', 'xlsm', 'ofx', 'qfx', 'qif', 'xml'];
+
+const INGESTION_MODE_KEY = 'ingestion_mode';
+
+/**
+ * 'local' keeps row data in the browser: files are parsed here and only
+ * headers plus a few sample rows are sent to the server for classification.
+ * 'server' also allows formats only the server can parse, such as PDF.
+ */
+export type IngestionMode = 'local' | 'server';
+
+const DEFAULT_INGESTION_MODE: IngestionMode =
+  process.env.NEXT_PUBLIC_INGESTION_MODE === 'server' ? 'server' : 'local';
+
+export interface StreamedSheet {
+  name: string;
+  headers: string[];
+  rowCount: number;
+  /** First few cleaned rows, for previews and dataset classification */
+  sample: any[];
+  metadata?: ParsedSheet['metadata'];
+}
+
+export interface StreamingParseResult {
+  name: string;
+  sheets: StreamedSheet[];
+  warnings: string[];
+}
+
+export type WorkerRequest =
+  | { type: 'parse'; file: File; options: ParseOptions }
+  | { type: 'ack'; chunkId: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'chunk'; chunkId: number; sheetName: string; rows: any[]; dataTypes: Record<string, string> }
+  | { type: 'done'; result: StreamingParseResult }
+  | { type: 'error'; message: string };
+
+export interface StreamingParseHandlers {
+  onProgress?: (progress: ParseProgress) => void;
+  /** Called for each typed chunk; the worker waits for it to settle before parsing on */
+  onChunk: (sheetName: string, rows: any[], dataTypes: Record<string, string>) => Promise<void>;
+}
+
+export function canParseInWorker(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return typeof Worker !== 'undefined' && WORKER_EXTENSIONS.includes(extension);
+}
+
+export function getIngestionMode(): IngestionMode {
+  if (typeof window === 'undefined') return DEFAULT_INGESTION_MODE;
+  const stored = localStorage.getItem(INGESTION_MODE_KEY);
+  return stored === 'local' || stored === 'server' ? stored : DEFAULT_INGESTION_MODE;
+}
+
+export function setIngestionMode(mode: IngestionMode) {
+  localStorage.setItem(INGESTION_MODE_KEY, mode);
+}
+
+/**
+ * Parse a file in a Web Worker, receiving typed rows in chunks as they are
+ * read so the main thread never holds the whole file
+ */
+export function parseFileInWorker(
+  file: File,
+  options: ParseOptions,
+  handlers: StreamingParseHandlers
+): Promise<StreamingParseResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parseWorker.ts', import.meta.url));
+    const post = (message: WorkerRequest) => worker.postMessage(message);
+
+    const fail = (error: unknown) => {
+      worker.terminate();
+      reject(error instanceof Error ? error : new Error(String(error)));
+    };
+
+    worker.onmessage = async (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          handlers.onProgress?.(message.progress);
+          break;
+        case 'chunk':
+          try {
+            await handlers.onChunk(message.sheetName, message.rows, message.dataTypes);
+            post({ type: 'ack', chunkId: message.chunkId });
+          } catch (error) {
+            fail(error);
+          }
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(message.result);
+          break;
+        case 'error':
+          fail(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => fail(new Error(event.message || 'Parser worker failed'));
+
+    post({ type: 'parse', file, options });
+  });
+}
+
+/**
+ * Load a file into client-side DuckDB in chunks, one table per sheet.
+ * Returns the parse summary and the table created for each non-empty sheet.
+ */
+export async function ingestFileInWorker(
+  file: File,
+  datasetId: string,
+  options: ParseOptions,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<StreamingParseResult & { tableNames: Record<string, string> }> {
+  const tableNames: Record<string, string> = {};
+  const schemas: Record<string, Record<string, string>> = {};
+
+  const result = await parseFileInWorker(file, options, {
+    onProgress,
+    onChunk: async (sheetName, rows, dataTypes) => {
+      const tableName = tableNames[sheetName]
+        ?? `${datasetId}_${sheetName.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+
+      if (!schemas[sheetName]) {
+        await createTable(tableName, dataTypes);
+        tableNames[sheetName] = tableName;
+      } else {
+        const widened = Object.fromEntries(
+          Object.entries(dataTypes).filter(([col, type]) => schemas[sheetName][col] !== type)
+        );
+        if (Object.keys(widened).length > 0) {
+          await alterColumnTypes(tableName, widened);
+        }
+      }
+      schemas[sheetName] = dataTypes;
+
+      await insertRows(tableName, Object.keys(dataTypes), rows);
+    }
+  });
+
+  await checkpointDatabase();
+  return { ...result, tableNames };
+}
@@ -0,0 +1,306 @@
+import { inferColumnRole } from './semanticLayer';
+import { isEmail, isURL } from './dataCleaning';
+import type { ActionSuggestion, ColumnRole, ColumnSchema, SemanticLayer } from '@/types';
+
+/**
+ * Follow-up chips for a query result, chosen by what its columns are rather
+ * than by words in the question: an email column, a positive amount and a
+ * due date in the past make payment reminders, a counterparty and an amount
+ * make a statement, and so on. Every chip names a registered action (see
+ * builtinActions.ts) with its params filled in from the result, or carries a
+ * question to ask next.
+ */
+
+interface ResultColumn {
+  name: string;
+  role: ColumnRole;
+  /** Values are email addresses */
+  email: boolean;
+  /** Values are web links, such as product pages */
+  url: boolean;
+}
+
+// Reminder chips, one per recipient with the most overdue
+const MAX_REMINDERS = 3;
+const MAX_QUESTIONS = 2;
+const MAX_SAMPLED_VALUES = 50;
+
+// Numeric columns that hold money rather than counts
+const MONEY_NAME = /amount|balance|total|price|cost|paid|owed|outstanding|revenue|sales|spend|fee|value|due/i;
+// Numeric columns that hold epoch milliseconds, as DuckDB returns DATE and TIMESTAMP
+const DATE_NAME = /date|_at$|(^|_)(due|time|day)(_|$)/i;
+// Amount columns preferred when a result has several, e.g. balance over invoice total
+const BALANCE_NAME = /balance|outstanding|owed|amount_?due|open/i;
+// Quantity columns that are the threshold rather than the stock level
+const THRESHOLD_NAME = /reorder|minimum|min_|par_?level|safety/i;
+
+/** Status values that mean an item is settled, lower case */
+export const CLOSED_STATUSES = ['paid', 'closed', 'settled', 'void', 'voided', 'cancelled', 'canceled', 'complete', 'completed'];
+/** Status values that mean an item is overdue, as a regular expression both JavaScript and DuckDB accept */
+export const OVERDUE_STATUS_PATTERN = 'overdue|past.?due|late|delinquent';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Suggestions for `rows`, the result of `sql`. Roles come from the dataset's
+ * semantic layer when it names a column and are inferred from names and
+ * values otherwise. Actions that re-read the result need its query, so
+ * without one only orders and follow-up questions are suggested.
+ */
+export function suggestActions(
+  rows: Record<string, any>[],
+  options: { sql?: string; semanticLayer?: SemanticLayer; today?: Date } = {}
+): ActionSuggestion[] {
+  if (rows.length === 0) return [];
+  const today = startOfDay(options.today ?? new Date());
+  const columns = resultColumns(rows, options.semanticLayer);
+  const { sql } = options;
+
+  return [
+    ...(sql ? reminderSuggestions(rows, columns, sql, today) : []),
+    ...(sql ? agingSuggestions(rows, columns, sql) : []),
+    ...(sql ? statementSuggestions(rows, columns, sql) : []),
+    ...reorderSuggestions(rows, columns),
+    ...(sql ? [exportSuggestion(rows, sql, today)] : []),
+    ...questionSuggestions(rows, columns)
+  ];
+}
+
+function resultColumns(rows: Record<string, any>[], semanticLayer?: SemanticLayer): ResultColumn[] {
+  return Object.keys(rows[0]).map(name => {
+    const values = rows.slice(0, MAX_SAMPLED_VALUES).map(row => row[name])
+      .filter(value => value !== null && value !== undefined && value !== '');
+    const strings = values.filter((value): value is string => typeof value === 'string').map(value => value.trim());
+    const declared = semanticLayer?.columns.find(col =>
+      col.column.toLowerCase() === name.toLowerCase() || col.synonyms.some(word => word.toLowerCase() === name.toLowerCase())
+    );
+    return {
+      name,
+      role: declared?.role ?? inferColumnRole(name, valueType(name, values)),
+      email: strings.length > 0 && strings.length === values.length && strings.every(isEmail),
+      url: strings.length > 0 && strings.length === values.length && strings.every(value => /^https?:\/\//i.test(value) && isURL(value))
+    };
+  });
+}
+
+// The mapped type a column's values suggest, as the semantic layer would see it
+function valueType(name: string, values: any[]): ColumnSchema['type'] {
+  if (values.length === 0) return 'string';
+  if (values.every(value =>
+    value instanceof Date ||
+    (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) ||
+    (typeof value === 'number' && DATE_NAME.test(name) && Math.abs(value) > 1e11)
+  )) {
+    return 'date';
+  }
+  if (values.every(value => typeof value === 'number')) {
+    return MONEY_NAME.test(name) ? 'currency' : 'number';
+  }
+  if (values.every(value => typeof value === 'boolean')) return 'boolean';
+  return 'string';
+}
+
+function reminderSuggestions(rows: Record<string, any>[], columns: ResultColumn[], sql: string, today: Date): ActionSuggestion[] {
+  const email = columns.find(col => col.email);
+  const amount = amountColumn(columns);
+  const due = columns.find(col => col.role === 'due_date');
+  const status = columns.find(col => col.role === 'status');
+  if (!email || !amount || (!due && !status)) return [];
+
+  const overdue = rows.filter(row =>
+    toNumber(row[amount.name]) > 0 &&
+    isOpen(row, status) &&
+    (due ? daysPastDue(row[due.name], today) > 0 : new RegExp(OVERDUE_STATUS_PATTERN, 'i').test(String(row[status!.name] ?? '')))
+  );
+  const byRecipient = groupBy(overdue.filter(row => isEmail(String(row[email.name] ?? '').trim())),
+    row => String(row[email.name]).trim().toLowerCase());
+  const party = columns.find(col => col.role === 'counterparty' && !col.email);
+
+  return Array.from(byRecipient.entries())
+    .map(([address, items]) => ({ address, items, total: sum(items, amount.name) }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, MAX_REMINDERS)
+    .map(({ address, items, total }) => {
+      const name = party ? String(items[0][party.name] ?? '').trim() : '';
+      return {
+        id: `reminder_${address}`,
+        label: `Email a payment reminder to ${name || address} (${formatAmount(total)} overdue)`,
+        category: 'invoice' as const,
+        action: 'payment_reminder',
+        params: {
+          sql,
+          recipient: address,
+          ...(name ? { name } : {}),
+          emailColumn: email.name,
+          amountColumn: amount.name,
+          ...(due ? { dueDateColumn: due.name } : {}),
+          ...(status ? { statusColumn: status.name } : {})
+        },
+        reason: `${email.name} is an email, ${amount.name} > 0, ${due ? `${due.name} before today` : `${status!.name} is overdue`}`
+      };
+    });
+}
+
+function agingSuggestions(rows: Record<string, any>[], columns: ResultColumn[], sql: string): ActionSuggestion[] {
+  const amount = amountColumn(columns);
+  const due = columns.find(col => col.role === 'due_date');
+  if (!amount || !due) return [];
+  const status = columns.find(col => col.role === 'status');
+
+  const open = rows.filter(row => toNumber(row[amount.name]) > 0 && isOpen(row, status) && isDate(toDate(row[due.name])));
+  if (open.length === 0) return [];
+
+  return [{
+    id: 'aging_report',
+    label: `Generate an aging report (${open.length} open item${open.length !== 1 ? 's' : ''}, ${formatAmount(sum(open, amount.name))})`,
+    category: 'analysis',
+    action: 'aging_report',
+    params: {
+      sql,
+      amountColumn: amount.name,
+      dueDateColumn: due.name,
+      ...(status ? { statusColumn: status.name } : {}),
+      format: 'pdf'
+    },
+    reason: `${amount.name} > 0 with ${due.name}`
+  }];
+}
+
+function statementSuggestions(rows: Record<string, any>[], columns: ResultColumn[], sql: string): ActionSuggestion[] {
+  const party = columns.find(col => col.role === 'counterparty' && !col.email);
+  const amount = amountColumn(columns);
+  if (!party || !amount) return [];
+
+  const byParty = groupBy(rows.filter(row => String(row[party.name] ?? '').trim() !== ''), row => String(row[party.name]).trim());
+  const [top] = Array.from(byParty.entries())
+    .map(([name, items]) => ({ name, total: sum(items, amount.name) }))
+    .sort((a, b) => b.total - a.total);
+  if (!top) return [];
+
+  return [{
+    id: `statement_${top.name}`,
+    label: `Create an account statement for ${top.name} (${formatAmount(top.total)})`,
+    category: 'invoice',
+    action: 'account_statement',
+    params: { sql, counterpartyColumn: party.name, counterparty: top.name, format: 'pdf' },
+    reason: `${party.name} is a counterparty with ${amount.name}`
+  }];
+}
+
+function reorderSuggestions(rows: Record<string, any>[], columns: ResultColumn[]): ActionSuggestion[] {
+  const link = columns.find(col => col.url);
+  const quantities = columns.filter(col => col.role === 'quantity');
+  const threshold = quantities.find(col => THRESHOLD_NAME.test(col.name));
+  const stock = quantities.find(col => col !== threshold);
+  if (!link || !stock) return [];
+
+  const candidates = rows
+    .filter(row => typeof row[link.name] === 'string' && row[link.name].trim() !== '')
+    .filter(row => !threshold || toNumber(row[stock.name]) <= toNumber(row[threshold.name]))
+    .sort((a, b) => toNumber(a[stock.name]) - toNumber(b[stock.name]));
+  const [item] = candidates;
+  if (!item) return [];
+
+  const itemColumn = columns.find(col => col.role === 'description')
+    ?? columns.find(col => /name|product|item|title/i.test(col.name) && !col.url)
+    ?? columns.find(col => col.role === 'identifier');
+  const itemName = itemColumn ? String(item[itemColumn.name] ?? '').trim() : '';
+  return [{
+    id: `reorder_${item[link.name]}`,
+    label: `Order ${itemName || 'the lowest-stock item'} (${toNumber(item[stock.name])} in stock)`,
+    category: 'approval',
+    action: 'reorder_product',
+    params: { productUrl: item[link.name].trim(), ...(itemName ? { item: itemName } : {}) },
+    reason: threshold ? `${stock.name} at or below ${threshold.name}, with a link in ${link.name}` : `lowest ${stock.name}, with a link in ${link.name}`
+  }];
+}
+
+function exportSuggestion(rows: Record<string, any>[], sql: string, today: Date): ActionSuggestion {
+  return {
+    id: 'export_results',
+    label: `Export ${rows.length} row${rows.length !== 1 ? 's' : ''} to CSV`,
+    category: 'export',
+    action: 'export_results',
+    params: { sql, filename: `results_${today.toISOString().slice(0, 10)}.csv` }
+  };
+}
+
+function questionSuggestions(rows: Record<string, any>[], columns: ResultColumn[]): ActionSuggestion[] {
+  const amount = amountColumn(columns);
+  if (!amount || rows.length < 2) return [];
+  const questions: Array<{ id: string; question: string }> = [];
+
+  const date = columns.find(col => col.role === 'date') ?? columns.find(col => col.role === 'due_date');
+  if (date) {
+    questions.push({ id: 'ask_by_month', question: `Show total ${words(amount.name)} by month of ${words(date.name)}` });
+  }
+  const group = [columns.find(col => col.role === 'counterparty'), columns.find(col => col.role === 'status'), columns.find(col => col.role === 'category')]
+    .find(col => col && new Set(rows.map(row => row[col.name])).size > 1);
+  if (group) {
+    questions.push({ id: `ask_by_${group.name}`, question: `Break down ${words(amount.name)} by ${words(group.name)}` });
+  }
+
+  return questions.slice(0, MAX_QUESTIONS).map(({ id, question }) => ({
+    id,
+    label: question,
+    category: 'analysis' as const,
+    question
+  }));
+}
+
+function amountColumn(columns: ResultColumn[]): ResultColumn | undefined {
+  const amounts = columns.filter(col => col.role === 'amount');
+  return amounts.find(col => BALANCE_NAME.test(col.name)) ?? amounts[0];
+}
+
+function isOpen(row: Record<string, any>, status: ResultColumn | undefined): boolean {
+  return !status || !CLOSED_STATUSES.includes(String(row[status.name] ?? '').trim().toLowerCase());
+}
+
+function daysPastDue(value: any, today: Date): number {
+  const date = toDate(value);
+  return isDate(date) ? Math.floor((today.getTime() - startOfDay(date).getTime()) / DAY_MS) : 0;
+}
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value))) {
+    return new Date(value);
+  }
+  return null;
+}
+
+function isDate(value: Date | null | undefined): value is Date {
+  return !!value && !isNaN(value.getTime());
+}
+
+// Days are compared in UTC, as DuckDB dates are midnight UTC
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function toNumber(value: any): number {
+  const number = typeof value === 'number' ? value : Number(String(value ?? '').replace(/[$,\s]/g, ''));
+  return Number.isFinite(number) ? number : 0;
+}
+
+function sum(rows: Record<string, any>[], column: string): number {
+  return rows.reduce((total, row) => total + toNumber(row[column]), 0);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+export function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function words(column: string): string {
+  return column.replace(/_/g, ' ');
+}
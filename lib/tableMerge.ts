@@ -0,0 +1,211 @@
+'use client';
+
+import { getClientConnection, getTableColumns, checkpointDatabase } from './clientDatabase';
+
+export type MergeMode = 'append' | 'upsert';
+
+export interface MergePlan {
+  /** Freshly uploaded table the rows come from */
+  sourceTable: string;
+  targetTable: string;
+  mode: MergeMode;
+  /** Target column → source column; null leaves the column empty (append) or unchanged (upsert) */
+  mapping: Record<string, string | null>;
+  /** Target column identifying rows; required for upsert */
+  keyColumn?: string;
+  /** Append only: leave out incoming rows identical to a row already in the target */
+  skipDuplicates: boolean;
+}
+
+export interface MergePreview {
+  incomingRows: number;
+  /** Incoming rows identical, on every mapped column, to an existing row */
+  duplicateRows: number;
+  /** Incoming rows whose key already exists in the target */
+  matchingKeys: number;
+  /** Keys that occur more than once in the incoming file */
+  repeatedKeys: number;
+  /** Incoming rows with no key value */
+  missingKeys: number;
+}
+
+export interface MergeResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * Pair each target column with the incoming column of the same name,
+ * ignoring case, spacing and punctuation
+ */
+export function suggestColumnMapping(targetColumns: string[], sourceColumns: string[]): Record<string, string | null> {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const mapping: Record<string, string | null> = {};
+  for (const target of targetColumns) {
+    mapping[target] = sourceColumns.find(source => source === target)
+      ?? sourceColumns.find(source => normalize(source) === normalize(target))
+      ?? null;
+  }
+  return mapping;
+}
+
+/**
+ * Count what a merge would do before running it: duplicates of existing
+ * rows, keys already present, and keys repeated within the incoming file
+ */
+export async function previewMerge(plan: MergePlan): Promise<MergePreview> {
+  const connection = await getClientConnection();
+  const { projection, mapped } = await buildProjection(plan);
+  const key = plan.keyColumn ? quote(plan.keyColumn) : null;
+
+  const result = await connection.query(`
+    WITH incoming AS (${projection})
+    SELECT
+      COUNT(*) AS incoming_rows,
+      COUNT(*) FILTER (WHERE ${sameRowExists('incoming', plan.targetTable, mapped)}) AS duplicate_rows,
+      ${key ? `COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM ${plan.targetTable} t WHERE t.${key} = incoming.${key}))` : '0'} AS matching_keys,
+      ${key ? `(SELECT COUNT(*) FROM (SELECT ${key} FROM incoming WHERE ${key} IS NOT NULL GROUP BY ${key} HAVING COUNT(*) > 1))` : '0'} AS repeated_keys,
+      ${key ? `COUNT(*) FILTER (WHERE incoming.${key} IS NULL)` : '0'} AS missing_keys
+    FROM incoming
+  `);
+  const row = result.toArray()[0];
+  return {
+    incomingRows: Number(row.incoming_rows),
+    duplicateRows: Number(row.duplicate_rows),
+    matchingKeys: Number(row.matching_keys),
+    repeatedKeys: Number(row.repeated_keys),
+    missingKeys: Number(row.missing_keys)
+  };
+}
+
+/**
+ * Merge the source table into the target in one transaction. Append adds
+ * the incoming rows; upsert updates rows whose key exists (the last
+ * occurrence wins when a key repeats) and inserts the rest.
+ */
+export async function mergeTables(plan: MergePlan): Promise<MergeResult> {
+  if (plan.mode === 'upsert' && !plan.keyColumn) {
+    throw new Error('Choose a key column to upsert on');
+  }
+
+  const connection = await getClientConnection();
+  const { projection, mapped, columns } = await buildProjection(plan);
+  const columnList = columns.map(quote).join(', ');
+  let counts: MergeResult;
+
+  await connection.query('BEGIN TRANSACTION');
+  try {
+    if (plan.mode === 'append') {
+      const filter = plan.skipDuplicates ? `WHERE NOT ${sameRowExists('incoming', plan.targetTable, mapped)}` : '';
+      const countResult = await connection.query(`
+        WITH incoming AS (${projection})
+        SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE ${plan.skipDuplicates ? sameRowExists('incoming', plan.targetTable, mapped) : 'FALSE'}) AS skipped
+        FROM incoming
+      `);
+      const countRow = countResult.toArray()[0];
+      counts = {
+        inserted: Number(countRow.total) - Number(countRow.skipped),
+        updated: 0,
+        skipped: Number(countRow.skipped)
+      };
+
+      await connection.query(`
+        INSERT INTO ${plan.targetTable} (${columnList})
+        WITH incoming AS (${projection})
+        SELECT ${columnList} FROM incoming ${filter}
+      `);
+    } else {
+      const key = quote(plan.keyColumn!);
+      const updatable = mapped.filter(col => col !== plan.keyColumn);
+      // One row per key, keeping the last occurrence in the file
+      const latest = `
+        WITH incoming AS (${projection})
+        SELECT * EXCLUDE (__source_row) FROM incoming
+        WHERE ${key} IS NOT NULL
+        QUALIFY ROW_NUMBER() OVER (PARTITION BY ${key} ORDER BY __source_row DESC) = 1
+      `;
+      const changed = updatable.length > 0
+        ? updatable.map(col => `t.${quote(col)} IS DISTINCT FROM u.${quote(col)}`).join(' OR ')
+        : 'FALSE';
+
+      const countResult = await connection.query(`
+        WITH u AS (${latest})
+        SELECT
+          (SELECT COUNT(*) FROM (${projection})) AS total,
+          COUNT(*) FILTER (WHERE NOT EXISTS (SELECT 1 FROM ${plan.targetTable} t WHERE t.${key} = u.${key})) AS inserted,
+          COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM ${plan.targetTable} t WHERE t.${key} = u.${key} AND (${changed}))) AS updated
+        FROM u
+      `);
+      const countRow = countResult.toArray()[0];
+      counts = {
+        inserted: Number(countRow.inserted),
+        updated: Number(countRow.updated),
+        skipped: Number(countRow.total) - Number(countRow.inserted) - Number(countRow.updated)
+      };
+
+      if (updatable.length > 0) {
+        await connection.query(`
+          UPDATE ${plan.targetTable} AS t
+          SET ${updatable.map(col => `${quote(col)} = u.${quote(col)}`).join(', ')}
+          FROM (${latest}) AS u
+          WHERE t.${key} = u.${key} AND (${changed})
+        `);
+      }
+      await connection.query(`
+        INSERT INTO ${plan.targetTable} (${columnList})
+        SELECT ${columnList} FROM (${latest}) AS u
+        WHERE NOT EXISTS (SELECT 1 FROM ${plan.targetTable} t WHERE t.${key} = u.${key})
+      `);
+    }
+    await connection.query('COMMIT');
+  } catch (error) {
+    await connection.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+
+  await checkpointDatabase();
+  return counts;
+}
+
+/**
+ * SELECT over the source table shaped like the target: mapped columns are
+ * cast to the target's types, unmapped ones are NULL. Carries the source
+ * row order as __source_row.
+ */
+async function buildProjection(plan: MergePlan) {
+  const [targetColumns, sourceColumns] = await Promise.all([
+    getTableColumns(plan.targetTable),
+    getTableColumns(plan.sourceTable)
+  ]);
+
+  const columns = Object.keys(targetColumns);
+  const mapped = columns.filter(col => plan.mapping[col]);
+  for (const col of mapped) {
+    if (!(plan.mapping[col]! in sourceColumns)) {
+      throw new Error(`Column "${plan.mapping[col]}" is not in the uploaded file`);
+    }
+  }
+  if (plan.keyColumn && !mapped.includes(plan.keyColumn)) {
+    throw new Error(`Map a column from the uploaded file to the key column "${plan.keyColumn}"`);
+  }
+
+  const select = columns.map(col => {
+    const source = plan.mapping[col];
+    const value = source ? `s.${quote(source)}` : 'NULL';
+    return `CAST(${value} AS ${targetColumns[col]}) AS ${quote(col)}`;
+  });
+  const projection = `SELECT ${select.join(', ')}, s.rowid AS __source_row FROM ${plan.sourceTable} s`;
+
+  return { projection, mapped, columns };
+}
+
+function sameRowExists(alias: string, targetTable: string, mapped: string[]): string {
+  if (mapped.length === 0) return 'FALSE';
+  const equal = mapped.map(col => `t.${quote(col)} IS NOT DISTINCT FROM ${alias}.${quote(col)}`).join(' AND ');
+  return `EXISTS (SELECT 1 FROM ${targetTable} t WHERE ${equal})`;
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,64 @@
+import { createHash } from 'crypto';
+import { getTool } from './toolRegistry';
+import { readToken, redeemToken, signToken } from './signedToken';
+import type { PendingAction, ToolSideEffect } from '@/types';
+
+// How long the user has to approve a previewed call
+const APPROVAL_TTL_MS = 30 * 60 * 1000;
+const APPROVAL_TOKEN = 'approval';
+
+/**
+ * Side effect of a tool as declared in the registry; unknown tools are
+ * treated as irreversible. Irreversible tools reach people or systems
+ * outside the app and only run after the user approves.
+ */
+export function sideEffectOf(tool: string): ToolSideEffect {
+  return getTool(tool)?.sideEffect ?? 'irreversible';
+}
+
+export function requiresApproval(tool: string): boolean {
+  return sideEffectOf(tool) === 'irreversible';
+}
+
+/**
+ * Describe a held tool call for the user to review, using the tool's own
+ * preview when it has one and its input otherwise.
+ */
+export function previewToolCall(toolUseId: string, tool: string, input: any): PendingAction {
+  const preview = getTool(tool)?.preview?.(input ?? {}) ?? {
+    title: `Run ${tool}`,
+    fields: Object.entries(input ?? {}).map(([label, value]) => ({
+      label,
+      value: typeof value === 'string' ? value : JSON.stringify(value)
+    }))
+  };
+  return { toolUseId, tool, sideEffect: sideEffectOf(tool), input, ...preview };
+}
+
+/**
+ * A signed, single-use id that approves exactly this call: the same tool or
+ * action with the same input and, for actions, the same rows. It goes out
+ * with the preview and must come back for the call to run.
+ */
+export function issueApproval(tool: string, input: any, rows?: unknown): string {
+  return signToken(APPROVAL_TOKEN, { tool, sha256: callDigest(input, rows) }, APPROVAL_TTL_MS);
+}
+
+/**
+ * Why `approvalId` doesn't let this call run, or null once it has been
+ * spent on it. Each approval runs one call.
+ */
+export async function redeemApproval(approvalId: unknown, tool: string, input: any, rows?: unknown): Promise<string | null> {
+  const token = readToken<{ tool: string; sha256: string }>(APPROVAL_TOKEN, approvalId);
+  if (!token || token.payload.tool !== tool || token.payload.sha256 !== callDigest(input, rows)) {
+    return `The approval for ${tool} is invalid, expired or was given for a different call`;
+  }
+  if (!(await redeemToken(token))) {
+    return `The approval for ${tool} was already used`;
+  }
+  return null;
+}
+
+function callDigest(input: any, rows?: unknown): string {
+  return createHash('sha256').update(JSON.stringify({ input: input ?? null, rows: rows ?? null })).digest('hex');
+}
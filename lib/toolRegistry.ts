@@ -0,0 +1,159 @@
+import { BUILTIN_TOOLS } from './builtinTools';
+import { customTools } from '@/tools';
+import type { ToolExecutionResult } from './llm-tools';
+import type { LLMToolDefinition } from './llmProvider';
+import type { PendingAction, PrivacyPolicy, ToolSideEffect } from '@/types';
+
+/**
+ * A tool the model can call and the app can run over /api/tools. Built-in
+ * tools live in builtinTools.ts; custom ones are listed in tools/index.ts.
+ */
+export interface ToolDefinition<Input = any> {
+  /** snake_case name used by the model and the REST endpoint */
+  name: string;
+  description: string;
+  /** JSON Schema of the input object */
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+  sideEffect: ToolSideEffect;
+  /** Environment variables that must be set before the tool can run */
+  requiredConfig?: string[];
+  /** Offer the tool to the model; false for tools only the UI calls. Defaults to true */
+  exposeToModel?: boolean;
+  /** Shown while the tool runs, e.g. "Generating PDF report…" */
+  progress?: (input: Input) => string;
+  /** What the user reviews before an irreversible call runs */
+  preview?: (input: Input) => Pick<PendingAction, 'title' | 'fields' | 'html'>;
+  /** Absent for execute_sql, which the client runs in its DuckDB */
+  handler?: (input: Input, context: ToolContext) => Promise<ToolExecutionResult>;
+}
+
+/** What a handler gets besides its input */
+export interface ToolContext {
+  /** Workspace policy for any rows the tool puts in a prompt */
+  privacy?: PrivacyPolicy;
+}
+
+const registry = new Map<string, ToolDefinition>();
+
+/**
+ * Add a tool to the registry. Names must be unique, so a custom tool can't
+ * silently replace a built-in one.
+ */
+export function registerTool(tool: ToolDefinition): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(tool.name)) {
+    throw new Error(`Tool name ${tool.name} must be snake_case`);
+  }
+  if (registry.has(tool.name)) {
+    throw new Error(`Tool ${tool.name} is already registered`);
+  }
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Environment variables the tool needs that aren't set
+ */
+export function missingConfig(tool: ToolDefinition): string[] {
+  return (tool.requiredConfig ?? []).filter(key => !process.env[key]);
+}
+
+/**
+ * Tool list sent to the model
+ */
+export function llmToolDefinitions(): LLMToolDefinition[] {
+  return listTools()
+    .filter(tool => tool.exposeToModel !== false)
+    .map(tool => ({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema }));
+}
+
+/**
+ * Check an input against the tool's schema: required properties, basic types
+ * and enums. Returns the first problem, or null when the input is usable.
+ */
+export function validateToolInput(tool: ToolDefinition, input: any): string | null {
+  return validateAgainstSchema(tool.name, tool.inputSchema, input);
+}
+
+/**
+ * The schema check behind validateToolInput, for anything else declared
+ * with an input schema
+ */
+export function validateAgainstSchema(name: string, inputSchema: ToolDefinition['inputSchema'], input: any): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return `${name} expects an object`;
+  }
+  for (const key of inputSchema.required ?? []) {
+    if (input[key] === undefined || input[key] === null || input[key] === '') {
+      return `${name} is missing ${key}`;
+    }
+  }
+  for (const [key, schema] of Object.entries(inputSchema.properties)) {
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+    if (schema.type && !matchesType(value, schema.type)) {
+      return `${name}: ${key} must be ${schema.type === 'array' ? 'an array' : `a ${schema.type}`}`;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      return `${name}: ${key} must be one of ${schema.enum.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number';
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && !Array.isArray(value);
+    default: return true;
+  }
+}
+
+/**
+ * Run a registered tool's handler after checking its config and input.
+ * Approval of irreversible tools is checked by the caller.
+ */
+export async function runTool(name: string, input: any, context: ToolContext = {}): Promise<ToolExecutionResult> {
+  const tool = getTool(name);
+  if (!tool) {
+    return { success: false, type: 'tool', error: `Unknown tool: ${name}` };
+  }
+  if (!tool.handler) {
+    return { success: false, type: 'tool', error: `${name} runs in the browser and can't be called here` };
+  }
+
+  const missing = missingConfig(tool);
+  if (missing.length > 0) {
+    return { success: false, type: 'tool', error: `${name} is not configured. Set ${missing.join(', ')} in your environment variables.` };
+  }
+
+  const invalid = validateToolInput(tool, input);
+  if (invalid) {
+    return { success: false, type: 'tool', error: invalid };
+  }
+
+  try {
+    return await tool.handler(input, context);
+  } catch (error) {
+    console.error(`Tool ${name} failed:`, error);
+    return { success: false, type: 'tool', error: error instanceof Error ? error.message : 'Tool execution failed' };
+  }
+}
+
+for (const tool of [...BUILTIN_TOOLS, ...customTools]) {
+  registerTool(tool);
+}
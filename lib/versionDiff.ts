@@ -0,0 +1,262 @@
+'use client';
+
+import { getClientConnection, getTableColumns } from './clientDatabase';
+
+// Rows returned per category; counts always cover the full tables
+const DIFF_ROW_LIMIT = 500;
+
+// Column names that usually identify a row in AR aging, inventory and ledger exports
+const KEY_NAME_PATTERN = /(^|_|\s)(id|key|code|sku|number|no|num|ref|reference|invoice|item)($|_|\s)/i;
+
+export interface ColumnDelta {
+  column: string;
+  /** Matched rows whose value changed */
+  changed: number;
+  /** Numeric columns only: totals over the whole table and direction of change in matched rows */
+  totalBefore?: number;
+  totalAfter?: number;
+  increased?: number;
+  decreased?: number;
+}
+
+export interface ChangedRow {
+  key: Record<string, any>;
+  changes: Record<string, { before: any; after: any; delta?: number }>;
+}
+
+export interface VersionDiff {
+  keyColumns: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  added: Record<string, any>[];
+  removed: Record<string, any>[];
+  changed: ChangedRow[];
+  columnDeltas: ColumnDelta[];
+}
+
+/**
+ * Columns present in both snapshots, in the newer snapshot's order
+ */
+export async function listCommonColumns(oldTable: string, newTable: string): Promise<string[]> {
+  const [oldColumns, newColumns] = await Promise.all([getTableColumns(oldTable), getTableColumns(newTable)]);
+  return Object.keys(newColumns).filter(col => col in oldColumns);
+}
+
+/**
+ * Suggest key columns shared by both tables whose values are unique and
+ * never null in each, preferring id-like names. Returns [] when no single
+ * column identifies rows, leaving the choice to the user.
+ */
+export async function detectKeyColumns(oldTable: string, newTable: string): Promise<string[]> {
+  const connection = await getClientConnection();
+  const [oldColumns, newColumns] = await Promise.all([getTableColumns(oldTable), getTableColumns(newTable)]);
+  const common = Object.keys(newColumns).filter(col => col in oldColumns);
+
+  const candidates = common
+    .filter(col => !/double|float|decimal/i.test(newColumns[col]))
+    .sort((a, b) => Number(KEY_NAME_PATTERN.test(b)) - Number(KEY_NAME_PATTERN.test(a)));
+
+  for (const col of candidates) {
+    let unique = true;
+    for (const table of [oldTable, newTable]) {
+      const result = await connection.query(
+        `SELECT COUNT(*) AS total, COUNT(DISTINCT ${quote(col)}) AS distinct_values, COUNT(${quote(col)}) AS non_null FROM ${table}`
+      );
+      const row = result.toArray()[0];
+      const total = Number(row.total);
+      if (total === 0 || Number(row.distinct_values) !== total || Number(row.non_null) !== total) {
+        unique = false;
+        break;
+      }
+    }
+    if (unique) return [col];
+  }
+
+  return [];
+}
+
+/**
+ * Compare two snapshots of a table row by row, matching rows on the key
+ * columns. Numeric columns also get totals and how many rows went up or down.
+ * Throws when the key is NULL or repeated in either version.
+ */
+export async function compareVersions(oldTable: string, newTable: string, keyColumns: string[]): Promise<VersionDiff> {
+  if (keyColumns.length === 0) {
+    throw new Error('Choose at least one key column to match rows between versions');
+  }
+
+  const connection = await getClientConnection();
+  const [oldColumns, newColumns] = await Promise.all([getTableColumns(oldTable), getTableColumns(newTable)]);
+  const missingKey = keyColumns.find(col => !(col in oldColumns) || !(col in newColumns));
+  if (missingKey) {
+    throw new Error(`Key column "${missingKey}" is not in both versions`);
+  }
+
+  await checkKey(oldTable, keyColumns, 'old');
+  await checkKey(newTable, keyColumns, 'new');
+
+  const common = Object.keys(newColumns).filter(col => col in oldColumns);
+  const compared = common.filter(col => !keyColumns.includes(col));
+  const numeric = compared.filter(col => isNumeric(oldColumns[col]) && isNumeric(newColumns[col]));
+
+  const joinOn = keyColumns.map(col => `o.${quote(col)} IS NOT DISTINCT FROM n.${quote(col)}`).join(' AND ');
+  // Compare as text when the column's type changed between uploads
+  const comparable = (col: string, alias: 'o' | 'n') =>
+    oldColumns[col] === newColumns[col] ? `${alias}.${quote(col)}` : `CAST(${alias}.${quote(col)} AS VARCHAR)`;
+  const differs = (col: string) => `${comparable(col, 'o')} IS DISTINCT FROM ${comparable(col, 'n')}`;
+  const anyDiffers = compared.length > 0 ? compared.map(differs).join(' OR ') : 'FALSE';
+
+  const added = `FROM ${newTable} n WHERE NOT EXISTS (SELECT 1 FROM ${oldTable} o WHERE ${joinOn})`;
+  const removed = `FROM ${oldTable} o WHERE NOT EXISTS (SELECT 1 FROM ${newTable} n WHERE ${joinOn})`;
+  const matched = `FROM ${oldTable} o JOIN ${newTable} n ON ${joinOn}`;
+
+  const countResult = await connection.query(`
+    SELECT
+      (SELECT COUNT(*) ${added}) AS added,
+      (SELECT COUNT(*) ${removed}) AS removed,
+      (SELECT COUNT(*) ${matched} WHERE ${anyDiffers}) AS changed,
+      (SELECT COUNT(*) ${matched}) AS matched
+  `);
+  const countRow = countResult.toArray()[0];
+  const counts = {
+    added: Number(countRow.added),
+    removed: Number(countRow.removed),
+    changed: Number(countRow.changed),
+    unchanged: Number(countRow.matched) - Number(countRow.changed)
+  };
+
+  const addedRows = await queryRows(
+    `SELECT ${selectList(newColumns, 'n')} ${added} LIMIT ${DIFF_ROW_LIMIT}`
+  );
+  const removedRows = await queryRows(
+    `SELECT ${selectList(oldColumns, 'o')} ${removed} LIMIT ${DIFF_ROW_LIMIT}`
+  );
+
+  let changed: ChangedRow[] = [];
+  if (compared.length > 0) {
+    const columns = [
+      ...keyColumns.map(col => `${display(`n.${quote(col)}`, newColumns[col])} AS ${quote(`key:${col}`)}`),
+      ...compared.flatMap(col => [
+        `${display(`o.${quote(col)}`, oldColumns[col])} AS ${quote(`before:${col}`)}`,
+        `${display(`n.${quote(col)}`, newColumns[col])} AS ${quote(`after:${col}`)}`
+      ])
+    ];
+    // Largest numeric movements first, so grown balances and dropped stock lead the list
+    const magnitude = numeric.length > 0
+      ? numeric.map(col => `ABS(COALESCE(CAST(n.${quote(col)} AS DOUBLE), 0) - COALESCE(CAST(o.${quote(col)} AS DOUBLE), 0))`).join(' + ')
+      : '0';
+    const rows = await queryRows(
+      `SELECT ${columns.join(', ')} ${matched} WHERE ${anyDiffers} ORDER BY ${magnitude} DESC LIMIT ${DIFF_ROW_LIMIT}`
+    );
+
+    changed = rows.map(row => {
+      const key: Record<string, any> = {};
+      keyColumns.forEach(col => { key[col] = row[`key:${col}`]; });
+
+      const changes: ChangedRow['changes'] = {};
+      for (const col of compared) {
+        const before = row[`before:${col}`];
+        const after = row[`after:${col}`];
+        if (String(before ?? '') === String(after ?? '') && (before === null) === (after === null)) continue;
+        changes[col] = numeric.includes(col) && typeof before === 'number' && typeof after === 'number'
+          ? { before, after, delta: after - before }
+          : { before, after };
+      }
+      return { key, changes };
+    });
+  }
+
+  const columnDeltas: ColumnDelta[] = [];
+  if (compared.length > 0) {
+    const aggregates = compared.map((col, i) => `COUNT(*) FILTER (WHERE ${differs(col)}) AS c${i}`);
+    numeric.forEach(col => {
+      const i = compared.indexOf(col);
+      aggregates.push(
+        `COUNT(*) FILTER (WHERE CAST(n.${quote(col)} AS DOUBLE) > CAST(o.${quote(col)} AS DOUBLE)) AS up${i}`,
+        `COUNT(*) FILTER (WHERE CAST(n.${quote(col)} AS DOUBLE) < CAST(o.${quote(col)} AS DOUBLE)) AS down${i}`,
+        `(SELECT SUM(CAST(${quote(col)} AS DOUBLE)) FROM ${oldTable}) AS before${i}`,
+        `(SELECT SUM(CAST(${quote(col)} AS DOUBLE)) FROM ${newTable}) AS after${i}`
+      );
+    });
+    const deltaResult = await connection.query(`SELECT ${aggregates.join(', ')} ${matched}`);
+    const deltaRow = deltaResult.toArray()[0];
+
+    compared.forEach((col, i) => {
+      const delta: ColumnDelta = { column: col, changed: Number(deltaRow[`c${i}`]) };
+      if (numeric.includes(col)) {
+        delta.totalBefore = Number(deltaRow[`before${i}`] ?? 0);
+        delta.totalAfter = Number(deltaRow[`after${i}`] ?? 0);
+        delta.increased = Number(deltaRow[`up${i}`]);
+        delta.decreased = Number(deltaRow[`down${i}`]);
+      }
+      columnDeltas.push(delta);
+    });
+  }
+
+  return {
+    keyColumns,
+    addedColumns: Object.keys(newColumns).filter(col => !(col in oldColumns)),
+    removedColumns: Object.keys(oldColumns).filter(col => !(col in newColumns)),
+    counts,
+    added: addedRows,
+    removed: removedRows,
+    changed,
+    columnDeltas
+  };
+}
+
+// Throw unless the key columns identify every row of one version: no NULLs and no two rows alike
+async function checkKey(table: string, keyColumns: string[], version: 'old' | 'new') {
+  const connection = await getClientConnection();
+  const keys = keyColumns.map(quote).join(', ');
+  const result = await connection.query(`
+    SELECT
+      (SELECT COUNT(*) FROM ${table}) AS total,
+      (SELECT COUNT(*) FROM (SELECT DISTINCT ${keys} FROM ${table})) AS distinct_keys,
+      (SELECT COUNT(*) FROM ${table} WHERE ${keyColumns.map(col => `${quote(col)} IS NULL`).join(' OR ')}) AS null_keys
+  `);
+  const row = result.toArray()[0];
+  const name = keyColumns.length === 1 ? `Key column "${keyColumns[0]}"` : `Key columns ${keyColumns.map(col => `"${col}"`).join(', ')}`;
+  const nullKeys = Number(row.null_keys);
+  if (nullKeys > 0) {
+    throw new Error(`${name} ${keyColumns.length === 1 ? 'is' : 'are'} empty in ${nullKeys} row${nullKeys === 1 ? '' : 's'} of the ${version} version; choose a key every row has`);
+  }
+  const duplicates = Number(row.total) - Number(row.distinct_keys);
+  if (duplicates > 0) {
+    throw new Error(`${name} ${keyColumns.length === 1 ? 'does' : 'do'} not identify rows in the ${version} version: ${duplicates} row${duplicates === 1 ? ' repeats' : 's repeat'} a key; choose a key that is unique`);
+  }
+}
+
+async function queryRows(sql: string): Promise<Record<string, any>[]> {
+  const connection = await getClientConnection();
+  const result = await connection.query(sql);
+  return result.toArray().map((row: any) => {
+    const plain: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row.toJSON())) {
+      plain[key] = typeof value === 'bigint' ? Number(value) : value;
+    }
+    return plain;
+  });
+}
+
+function selectList(columns: Record<string, string>, alias: string): string {
+  return Object.keys(columns)
+    .map(col => `${display(`${alias}.${quote(col)}`, columns[col])} AS ${quote(col)}`)
+    .join(', ');
+}
+
+// Return values in a shape that renders as-is: decimals as numbers, dates as text
+function display(expression: string, type: string): string {
+  if (/decimal|hugeint/i.test(type)) return `CAST(${expression} AS DOUBLE)`;
+  if (/date|time/i.test(type)) return `CAST(${expression} AS VARCHAR)`;
+  return expression;
+}
+
+function isNumeric(type: string): boolean {
+  return /int|double|decimal|float|numeric/i.test(type);
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useAppStore } from './store';
+import { initClientDatabase, isDatabasePersistent, listTables, dropTables, getTableColumns, mapDuckDBType } from './clientDatabase';
+import { draftSemanticLayer } from './semanticLayer';
+import type { DatasetInfo, DatasetType, DatasetVersion, SemanticLayer } from '@/types';
+
+/**
+ * Restore the persisted store on startup and reconcile it with the tables
+ * that actually survived in DuckDB. Datasets whose tables are gone are
+ * removed, and dataset tables no dataset refers to any more are dropped.
+ */
+export async function rehydrateWorkspace() {
+  const store = useAppStore;
+
+  try {
+    await store.persist.rehydrate();
+
+    // Nothing to check against DuckDB yet; don't hold the landing page on it
+    const { datasets } = store.getState();
+    if (datasets.length === 0) {
+      store.getState().setRehydrated(true);
+    }
+
+    await initClientDatabase();
+    const existing = new Set(await listTables());
+
+    const missing: string[] = [];
+    const referenced = new Set<string>();
+    for (const dataset of datasets) {
+      const tables = getDatasetTables(dataset.id);
+      if (tables.length === 0 || tables.some(table => !existing.has(table))) {
+        missing.push(dataset.id);
+        localStorage.removeItem(`dataset_${dataset.id}_tables`);
+        continue;
+      }
+      tables.forEach(table => referenced.add(table));
+
+      // Older snapshots stay queryable as long as all of their tables survived
+      const versions = dataset.versions?.filter(version => version.tables.every(table => existing.has(table)));
+      if (versions && versions.length !== dataset.versions!.length) {
+        store.getState().updateDataset(dataset.id, { versions });
+      }
+      versions?.forEach(version => version.tables.forEach(table => referenced.add(table)));
+    }
+
+    if (missing.length > 0) {
+      console.warn(
+        `Removed ${missing.length} dataset(s) whose tables were not found` +
+        (isDatabasePersistent() ? '' : '; the database is in-memory because persistent storage is unavailable')
+      );
+      store.getState().removeDatasets(missing);
+    }
+
+    // Left behind by imports interrupted before the dataset was registered
+    const orphaned = Array.from(existing).filter(table => table.startsWith('dataset_') && !referenced.has(table));
+    if (orphaned.length > 0) {
+      await dropTables(orphaned);
+    }
+  } catch (error) {
+    console.error('Failed to restore workspace:', error);
+  } finally {
+    store.getState().setRehydrated(true);
+  }
+}
+
+/**
+ * Upload history of a dataset. Datasets imported before versioning count as
+ * a single version made of their current tables.
+ */
+export function getDatasetVersions(dataset: DatasetInfo): DatasetVersion[] {
+  if (dataset.versions && dataset.versions.length > 0) return dataset.versions;
+  return [{
+    id: dataset.id,
+    version: 1,
+    fileName: dataset.name,
+    uploadedAt: dataset.uploadedAt,
+    tables: getDatasetTables(dataset.id),
+    rowCount: dataset.summary.tables.reduce((sum, table) => sum + table.rows, 0)
+  }];
+}
+
+/**
+ * Current tables of a dataset, i.e. those of its latest version
+ */
+export function getDatasetTables(datasetId: string): string[] {
+  try {
+    const stored = localStorage.getItem(`dataset_${datasetId}_tables`);
+    return stored ? JSON.parse(stored).map((table: { name: string }) => table.name) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Draft a semantic layer for a dataset's tables from their DuckDB column
+ * types and the detected dataset type
+ */
+export async function suggestSemanticLayer(tableNames: string[], datasetType: DatasetType = 'general'): Promise<SemanticLayer> {
+  const tables = await Promise.all(tableNames.map(async table => {
+    const columns = await getTableColumns(table);
+    return {
+      table,
+      columns: Object.entries(columns).map(([name, type]) => ({ name, type: mapDuckDBType(type, name) }))
+    };
+  }));
+  return draftSemanticLayer(tables, datasetType);
+}
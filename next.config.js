@@ -5,6 +5,11 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   images: { unoptimized: true },
+  experimental: {
+    // pdf-parse loads its bundled pdf.js build with a dynamic require,
+    // so it has to stay a plain Node dependency of the API routes.
+    serverComponentsExternalPackages: ['pdf-parse'],
+  },
   webpack: (config) => {
     // Silence DuckDB's CJS dynamic require warning in the Node bundle.
     // This is expected and harmless; the browser bundle is used on the client.
@@ -0,0 +1,134 @@
+// Load-time benchmark for lib/bulkLoad.ts against the INSERT ... VALUES
+// literals it replaced, run on DuckDB-WASM's Node build.
+//
+//   npm run benchmark:load              # 10k, 100k and 1M rows
+//   npm run benchmark:load -- 5000 50000
+
+import { createRequire } from 'module';
+import { readFileSync, writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const ts = require('typescript');
+const duckdb = require('@duckdb/duckdb-wasm/dist/duckdb-node-blocking.cjs');
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const dist = join(root, 'node_modules/@duckdb/duckdb-wasm/dist');
+
+// Literal INSERTs build one SQL string per load; beyond this they mostly measure the string
+const LITERAL_MAX_ROWS = 100000;
+
+const SCHEMA = {
+  id: 'INTEGER',
+  posted_date: 'DATE',
+  vendor: 'VARCHAR',
+  amount: 'DECIMAL(18,4)',
+  paid: 'BOOLEAN',
+  memo: 'VARCHAR'
+};
+
+// Transpiled into `dir`, which the caller removes when done
+function loadBulkLoader(dir) {
+  const source = readFileSync(join(root, 'lib/bulkLoad.ts'), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 }
+  });
+  const file = join(dir, 'bulkLoad.js');
+  writeFileSync(file, outputText);
+  return require(file);
+}
+
+function generateRows(count) {
+  const vendors = ['Acme Corp', 'Smith, Jones & Co', 'O\'Brien Supplies', 'The "Best" Widgets', 'Müller GmbH'];
+  const rows = new Array(count);
+  for (let i = 0; i < count; i++) {
+    rows[i] = {
+      id: i + 1,
+      posted_date: `2024-${String(i % 12 + 1).padStart(2, '0')}-${String(i % 28 + 1).padStart(2, '0')}`,
+      vendor: vendors[i % vendors.length],
+      amount: Math.round((i * 37.17) % 100000) / 100,
+      paid: i % 3 === 0,
+      memo: i % 10 === 0 ? null : i % 97 === 0 ? 'line one\nline two' : `Invoice ${i}`
+    };
+  }
+  return rows;
+}
+
+function literalInsert(conn, tableName, columns, rows) {
+  const values = rows.map(row => `(${columns.map(col => {
+    const val = row[col];
+    if (val === null || val === undefined) return 'NULL';
+    if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
+    if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+    return val;
+  }).join(', ')})`).join(', ');
+  conn.query(`INSERT INTO ${tableName} VALUES ${values}`);
+}
+
+function createTable(conn, tableName) {
+  conn.query(`DROP TABLE IF EXISTS ${tableName}`);
+  conn.query(`CREATE TABLE ${tableName} (${Object.entries(SCHEMA).map(([col, type]) => `"${col}" ${type}`).join(', ')})`);
+}
+
+function countRows(conn, tableName) {
+  return Number(conn.query(`SELECT COUNT(*) AS n FROM ${tableName}`).toArray()[0].n);
+}
+
+async function time(fn) {
+  const start = performance.now();
+  await fn();
+  return performance.now() - start;
+}
+
+async function main() {
+  const sizes = process.argv.slice(2).map(Number).filter(n => n > 0);
+  const rowCounts = sizes.length > 0 ? sizes : [10000, 100000, 1000000];
+
+  const dir = mkdtempSync(join(tmpdir(), 'bulk-load-'));
+  try {
+    const { bulkInsertRows } = loadBulkLoader(dir);
+    const db = await duckdb.createDuckDB(
+      {
+        mvp: { mainModule: join(dist, 'duckdb-mvp.wasm'), mainWorker: '' },
+        eh: { mainModule: join(dist, 'duckdb-eh.wasm'), mainWorker: '' }
+      },
+      new duckdb.VoidLogger(),
+      duckdb.NODE_RUNTIME
+    );
+    await db.instantiate();
+    const conn = db.connect();
+    const columns = Object.keys(SCHEMA);
+
+    console.log('rows       registered CSV   INSERT literals');
+    for (const count of rowCounts) {
+      const rows = generateRows(count);
+
+      createTable(conn, 'bench_bulk');
+      const bulkMs = await time(() => bulkInsertRows(db, conn, 'bench_bulk', columns, rows));
+      if (countRows(conn, 'bench_bulk') !== count) {
+        throw new Error(`Bulk load stored the wrong number of rows for ${count}`);
+      }
+
+      let literalMs = null;
+      if (count <= LITERAL_MAX_ROWS) {
+        createTable(conn, 'bench_literal');
+        literalMs = await time(() => literalInsert(conn, 'bench_literal', columns, rows));
+      }
+
+      console.log(
+        `${String(count).padEnd(10)} ${`${bulkMs.toFixed(0)} ms`.padEnd(16)} ${literalMs === null ? 'skipped' : `${literalMs.toFixed(0)} ms`}`
+      );
+    }
+
+    conn.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
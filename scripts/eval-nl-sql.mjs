@@ -0,0 +1,332 @@
+// NL→SQL evaluation: asks naturalLanguageToSQL (lib/llm.ts) the golden
+// questions in scripts/eval/questions.json, runs the SQL it returns on the
+// fixture datasets in DuckDB-WASM and compares result sets, not SQL text.
+//
+//   npm run eval:sql                                # replay scripts/eval/recordings.json
+//   npm run eval:sql -- --provider record           # replay, recording misses from the API
+//   npm run eval:sql -- --provider live             # always call the API
+//   npm run eval:sql -- --provider fallback         # the pattern-matching fallback, no LLM
+//   npm run eval:sql -- --only ar --min-accuracy 0.9 --json eval-results.json
+//   npm run eval:sql -- --allow-unrecorded          # don't fail on replay misses
+//
+// A generated row matches an expected row when it contains all of its values
+// (so extra columns and column order don't matter); numbers are compared to
+// two decimals. Rows are compared as a set unless the question is `ordered`.
+//
+// Recordings are keyed by the exact prompt, so after changing a prompt in
+// lib/llm.ts re-run with --provider record to measure the new version. A
+// replay with questions missing from the recordings fails, since it would
+// score nothing for them.
+//
+// The committed recordings hold reference answers written against the
+// fixtures (model "reference"), so a replay checks the pipeline around the
+// model: prompt building, response parsing, statement checks and scoring.
+// To measure a model, delete recordings.json and run --provider record.
+
+import { createRequire } from 'module';
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const ts = require('typescript');
+const duckdb = require('@duckdb/duckdb-wasm/dist/duckdb-node-blocking.cjs');
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const dist = join(root, 'node_modules/@duckdb/duckdb-wasm/dist');
+const evalDir = join(root, 'scripts/eval');
+
+// Compiled under node_modules so their own imports resolve
+const BUILD_DIR = join(root, 'node_modules/.cache/eval-nl-sql');
+// Compiled with every lib module they import
+const ENTRY_MODULES = ['llm', 'llmProvider'];
+
+// "Today" for every run, so questions about overdue items always have the same answer
+const EVAL_DATE = '2025-06-30';
+
+const DATASETS = {
+  ar: ['ar_invoices'],
+  ap: ['ap_bills'],
+  gl: ['gl_entries'],
+  inventory: ['inventory']
+};
+
+function parseArgs(argv) {
+  const options = {
+    provider: 'replay',
+    recordings: join(evalDir, 'recordings.json'),
+    only: null,
+    minAccuracy: 0,
+    json: null,
+    verbose: false,
+    allowUnrecorded: false
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--provider') options.provider = argv[++i];
+    else if (arg === '--recordings') options.recordings = argv[++i];
+    else if (arg === '--only') options.only = argv[++i];
+    else if (arg === '--min-accuracy') options.minAccuracy = Number(argv[++i]);
+    else if (arg === '--json') options.json = argv[++i];
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--allow-unrecorded') options.allowUnrecorded = true;
+    else throw new Error(`Unknown argument ${arg}`);
+  }
+  if (!['replay', 'record', 'live', 'fallback'].includes(options.provider)) {
+    throw new Error(`--provider must be replay, record, live or fallback, not ${options.provider}`);
+  }
+  return options;
+}
+
+function loadLib() {
+  mkdirSync(BUILD_DIR, { recursive: true });
+  const pending = [...ENTRY_MODULES];
+  const compiled = new Set();
+  while (pending.length > 0) {
+    const name = pending.pop();
+    if (compiled.has(name)) continue;
+    compiled.add(name);
+    const source = readFileSync(join(root, 'lib', `${name}.ts`), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+    });
+    writeFileSync(join(BUILD_DIR, `${name}.js`), outputText);
+    // Only imports that survive compilation; type-only ones are dropped
+    for (const match of outputText.matchAll(/require\("\.\/([\w-]+)"\)/g)) {
+      pending.push(match[1]);
+    }
+  }
+  return {
+    llm: require(join(BUILD_DIR, 'llm.js')),
+    provider: require(join(BUILD_DIR, 'llmProvider.js'))
+  };
+}
+
+/**
+ * Install the provider for this run. Returns a flag the runner checks after
+ * each question to tell replay misses apart from wrong answers.
+ */
+function useProvider(options, { getLLMProvider, setLLMProvider, ReplayProvider }) {
+  const state = { missed: false };
+
+  if (options.provider === 'fallback') {
+    setLLMProvider(null);
+    return state;
+  }
+
+  let network = null;
+  if (options.provider !== 'replay') {
+    setLLMProvider(undefined);
+    network = getLLMProvider();
+    if (!network || network.name === 'replay') {
+      throw new Error(`--provider ${options.provider} needs ANTHROPIC_API_KEY or OPENAI_API_KEY`);
+    }
+  }
+
+  const inner = options.provider === 'live' ? network : new ReplayProvider(options.recordings, network ?? undefined);
+  setLLMProvider({
+    name: inner.name,
+    async complete(request) {
+      try {
+        return await inner.complete(request);
+      } catch (error) {
+        state.missed = options.provider === 'replay';
+        throw error;
+      }
+    }
+  });
+  return state;
+}
+
+async function openDatabase() {
+  const db = await duckdb.createDuckDB(
+    {
+      mvp: { mainModule: join(dist, 'duckdb-mvp.wasm'), mainWorker: '' },
+      eh: { mainModule: join(dist, 'duckdb-eh.wasm'), mainWorker: '' }
+    },
+    new duckdb.VoidLogger(),
+    duckdb.NODE_RUNTIME
+  );
+  await db.instantiate();
+  const conn = db.connect();
+
+  // Extensions would be fetched over the network; the date functions that need ICU are pinned instead
+  conn.query('SET autoinstall_known_extensions = false');
+  conn.query('SET autoload_known_extensions = false');
+  conn.query(`CREATE MACRO current_date() AS DATE '${EVAL_DATE}'`);
+  conn.query(`CREATE MACRO today() AS DATE '${EVAL_DATE}'`);
+
+  for (const table of Object.values(DATASETS).flat()) {
+    db.registerFileText(`${table}.csv`, readFileSync(join(evalDir, 'datasets', `${table}.csv`), 'utf8'));
+    conn.query(`CREATE TABLE ${table} AS SELECT * FROM read_csv('${table}.csv', header = true)`);
+  }
+  return conn;
+}
+
+function describeTables(conn, tables) {
+  return tables.map(tableName => ({
+    tableName,
+    columns: conn.query(`DESCRIBE ${tableName}`).toArray().map(row => ({
+      name: String(row.column_name),
+      type: String(row.column_type)
+    })),
+    rowCount: Number(conn.query(`SELECT COUNT(*) AS n FROM ${tableName}`).toArray()[0].n)
+  }));
+}
+
+// Cast in DuckDB so dates, decimals and hugeints all arrive as plain text
+function runQuery(conn, sql) {
+  const result = conn.query(`SELECT COLUMNS(*)::VARCHAR FROM (\n${sql}\n) AS generated`);
+  const columns = result.schema.fields.map(field => field.name);
+  return result.toArray().map(row => columns.map(column => row[column]));
+}
+
+function normalize(value) {
+  if (value === null || value === undefined) return 'NULL';
+  const text = String(value).trim();
+  if (text !== '' && !Number.isNaN(Number(text))) return Number(text).toFixed(2);
+  return text;
+}
+
+function rowCovers(actual, expected) {
+  const remaining = actual.map(normalize);
+  return expected.every(value => {
+    const index = remaining.indexOf(normalize(value));
+    if (index === -1) return false;
+    remaining.splice(index, 1);
+    return true;
+  });
+}
+
+function compareResults(actual, expected, ordered) {
+  if (actual.length !== expected.length) {
+    return `expected ${expected.length} rows, got ${actual.length}`;
+  }
+  if (ordered) {
+    const index = expected.findIndex((row, i) => !rowCovers(actual[i], row));
+    return index === -1 ? null : `row ${index + 1} differs: ${JSON.stringify(actual[index])}`;
+  }
+  const unused = [...actual];
+  for (const row of expected) {
+    const index = unused.findIndex(candidate => rowCovers(candidate, row));
+    if (index === -1) return `no row matches ${JSON.stringify(row)}`;
+    unused.splice(index, 1);
+  }
+  return null;
+}
+
+async function evaluate(question, context) {
+  const { conn, llm, state, verbose } = context;
+  const schemas = describeTables(conn, DATASETS[question.dataset]);
+
+  // naturalLanguageToSQL logs and falls back on provider errors; keep the report readable
+  const { error: logError, warn: logWarn } = console;
+  if (!verbose) console.error = console.warn = () => {};
+  state.missed = false;
+  let generated;
+  try {
+    generated = await llm.naturalLanguageToSQL(question.question, schemas);
+  } finally {
+    console.error = logError;
+    console.warn = logWarn;
+  }
+
+  if (state.missed) return { outcome: 'unrecorded' };
+  if (!generated.query || generated.error) {
+    return { outcome: 'no-query', detail: generated.error || 'no query returned' };
+  }
+
+  let rows;
+  try {
+    rows = runQuery(conn, generated.query);
+  } catch (error) {
+    return { outcome: 'sql-error', sql: generated.query, detail: error instanceof Error ? error.message : String(error) };
+  }
+
+  const mismatch = compareResults(rows, question.expected, question.ordered);
+  return mismatch
+    ? { outcome: 'wrong-result', sql: generated.query, detail: mismatch }
+    : { outcome: 'pass', sql: generated.query };
+}
+
+function printTable(title, results, key) {
+  const groups = new Map();
+  for (const result of results) {
+    const group = groups.get(result[key]) ?? { passed: 0, scored: 0, unrecorded: 0 };
+    if (result.outcome === 'unrecorded') group.unrecorded++;
+    else {
+      group.scored++;
+      if (result.outcome === 'pass') group.passed++;
+    }
+    groups.set(result[key], group);
+  }
+
+  console.log(`\n${title.padEnd(14)} passed  scored  accuracy  unrecorded`);
+  for (const [name, group] of groups) {
+    const accuracy = group.scored ? `${((group.passed / group.scored) * 100).toFixed(0)}%` : '-';
+    console.log(
+      `${String(name).padEnd(14)} ${String(group.passed).padEnd(7)} ${String(group.scored).padEnd(7)} ${accuracy.padEnd(9)} ${group.unrecorded}`
+    );
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const questions = JSON.parse(readFileSync(join(evalDir, 'questions.json'), 'utf8'))
+    .filter(q => !options.only || q.dataset === options.only || q.id.startsWith(options.only));
+  if (questions.length === 0) {
+    throw new Error(`No questions match --only ${options.only}`);
+  }
+
+  const { llm, provider } = loadLib();
+  const state = useProvider(options, provider);
+  const conn = await openDatabase();
+
+  const results = [];
+  for (const question of questions) {
+    const result = await evaluate(question, { conn, llm, state, verbose: options.verbose });
+    results.push({ id: question.id, dataset: question.dataset, category: question.category, ...result });
+  }
+  conn.close();
+
+  const scored = results.filter(r => r.outcome !== 'unrecorded');
+  const passed = scored.filter(r => r.outcome === 'pass').length;
+  const accuracy = scored.length ? passed / scored.length : 0;
+
+  console.log(`NL→SQL eval: ${questions.length} questions, provider ${options.provider}`);
+  printTable('category', results, 'category');
+  printTable('dataset', results, 'dataset');
+  console.log(`\noverall: ${passed}/${scored.length} (${(accuracy * 100).toFixed(1)}%)`);
+
+  const unrecorded = results.length - scored.length;
+  if (unrecorded > 0) {
+    console.log(`${unrecorded} questions have no recording in ${options.recordings}; run with --provider record to add them`);
+  }
+
+  const failures = results.filter(r => r.outcome !== 'pass' && r.outcome !== 'unrecorded');
+  if (failures.length > 0) {
+    console.log('\nfailures:');
+    for (const failure of failures) {
+      console.log(`  ${failure.id} [${failure.outcome}] ${failure.detail}`);
+      if (failure.sql) console.log(`    ${failure.sql.replace(/\s+/g, ' ')}`);
+    }
+  }
+
+  if (options.json) {
+    writeFileSync(options.json, `${JSON.stringify({ provider: options.provider, accuracy, results }, null, 2)}\n`);
+  }
+
+  if ((unrecorded > 0 || scored.length === 0) && !options.allowUnrecorded) {
+    console.error(`\n${scored.length === 0 ? 'No questions were scored' : `${unrecorded} questions were not scored`}; pass --allow-unrecorded to accept that`);
+    process.exit(1);
+  }
+  if (scored.length > 0 && accuracy < options.minAccuracy) {
+    console.error(`\nAccuracy ${(accuracy * 100).toFixed(1)}% is below --min-accuracy ${options.minAccuracy * 100}%`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import type { ToolDefinition } from '@/lib/toolRegistry';
+
+/**
+ * Custom tools, registered alongside the built-in ones in lib/builtinTools.ts.
+ * Add a module to this folder that exports a ToolDefinition and list it here;
+ * it is offered to the model and callable at POST /api/tools. For example:
+ *
+ *   export const postToSlack: ToolDefinition<{ text: string }> = {
+ *     name: 'post_to_slack',
+ *     description: 'Post a message to the finance Slack channel',
+ *     inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+ *     sideEffect: 'irreversible',
+ *     requiredConfig: ['SLACK_WEBHOOK_URL'],
+ *     handler: async ({ text }) => { ... }
+ *   };
+ */
+export const customTools: ToolDefinition[] = [];
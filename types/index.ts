@@ -32,6 +32,74 @@ export interface ChatMessage {
   toolSuggestions?: Array<ActionSuggestion>;
   artifacts?: Array<Artifact>;
   timestamp: string;
+  metadata?: ChatMessageMetadata;
+}
+
+export interface ChatMessageMetadata {
+  /** SQL that produced the message's data */
+  query?: string;
+  explanation?: string;
+  /** Every query tried, oldest first, when the first one had to be repaired */
+  attempts?: QueryAttempt[];
+  /** What the assistant did to reach the answer, in order */
+  steps?: AgentStep[];
+  /** Numbers in the answer that don't match any computed value or result the model saw */
+  ungroundedNumbers?: string[];
+  [key: string]: any;
+}
+
+/** An aggregate computed in DuckDB over a whole query result, for the model to cite */
+export interface ComputedFact {
+  /** e.g. total_amount, average_days_overdue, row_count */
+  name: string;
+  value: number;
+  /** e.g. 'sum of "amount" over 42 rows' */
+  description: string;
+}
+
+export interface AgentStep {
+  kind: 'model' | 'tool';
+  /** Tool name, for tool steps */
+  name?: string;
+  summary: string;
+  status: 'ok' | 'error';
+  /** Tool input or result, shown when the step is expanded */
+  detail?: string;
+  /** Tokens used by a model step */
+  tokens?: number;
+}
+
+/** What running a tool can change, which decides whether it needs approval */
+export type ToolSideEffect = 'read_only' | 'reversible' | 'irreversible';
+
+/** An irreversible tool call held until the user approves or rejects it */
+export interface PendingAction {
+  toolUseId: string;
+  tool: string;
+  sideEffect: ToolSideEffect;
+  /** One line, e.g. "Send email to 3 recipients" */
+  title: string;
+  /** Recipients, amounts and other values the user should check */
+  fields: Array<{ label: string; value: string }>;
+  /** Rendered content, such as the email body exactly as it will be sent */
+  html?: string;
+  /** Tool input as the model wrote it */
+  input: any;
+  /** Outside the agent, the single-use id to send back once the user approves */
+  approvalId?: string;
+}
+
+export interface ActionDecision {
+  toolUseId: string;
+  approved: boolean;
+}
+
+export interface QueryAttempt {
+  query: string;
+  /** DuckDB or validation error; absent for the attempt that succeeded */
+  error?: string;
+  /** EXPLAIN output, when the query parsed and bound but failed while running */
+  plan?: string;
 }
 
 export interface ActionSuggestion {
@@ -39,12 +107,25 @@ export interface ActionSuggestion {
   label: string;
   paramsSchema?: Record<string, any>;
   category: 'invoice' | 'voucher' | 'approval' | 'export' | 'analysis';
+  /** Registered action the chip runs over /api/actions, with its params filled in from the result */
+  action?: string;
+  params?: Record<string, any>;
+  /** Follow-up question the chip asks instead of running a tool */
+  question?: string;
+  /** The columns that led to the suggestion, e.g. "email, balance > 0, due_date before today" */
+  reason?: string;
 }
 
-export type Artifact =
-  | { kind: 'pdf'; name: string; url: string; size?: number }
-  | { kind: 'csv'; name: string; url: string; size?: number }
-  | { kind: 'json'; name: string; url: string; size?: number };
+export interface Artifact {
+  kind: 'pdf' | 'csv' | 'json' | 'xlsx' | 'html';
+  name: string;
+  url: string;
+  size?: number;
+  /** SHA-256 of the content, for files in the artifact store */
+  sha256?: string;
+  /** When the store may delete the file; absent when it is kept */
+  expiresAt?: string;
+}
 
 export interface AuditEvent {
   id: string;
@@ -53,13 +134,112 @@ export interface AuditEvent {
   detail?: string;
   artifacts?: Artifact[];
   category: 'upload' | 'query' | 'action' | 'export';
+  /** Exact inputs and outputs of an action run */
+  action?: ActionRecord;
+}
+
+export interface ActionRecord {
+  actionId: string;
+  params: Record<string, any>;
+  datasetId?: string;
+  /** Query that selected the rows from the dataset */
+  sql?: string;
+  rowCount: number;
+  /** SHA-256 of the rows as the server received them */
+  rowsSha256: string;
+  approved: boolean;
+  output: {
+    content?: string;
+    error?: string;
+    artifacts: Artifact[];
+  };
 }
 
+export type DatasetType = 'financial' | 'inventory' | 'sales' | 'hr' | 'bank_feed' | 'general';
+
 export interface DatasetInfo {
   id: string;
   name: string;
   uploadedAt: string;
   summary: DatasetSummary;
+  /** Every upload of this dataset, oldest first; the last one is current */
+  versions?: DatasetVersion[];
+  type?: DatasetType;
+  /** Business meaning of columns and named metrics, given to the model with the schema */
+  semanticLayer?: SemanticLayer;
+}
+
+export type ColumnRole =
+  | 'identifier'
+  | 'amount'
+  | 'quantity'
+  | 'date'
+  | 'due_date'
+  | 'counterparty'
+  | 'status'
+  | 'category'
+  | 'description'
+  | 'other';
+
+export interface SemanticColumn {
+  table: string;
+  column: string;
+  role: ColumnRole;
+  description?: string;
+  /** Words users say for this column, e.g. "supplier" for vendor_name */
+  synonyms: string[];
+}
+
+export interface SemanticMetric {
+  name: string;
+  table: string;
+  /** SQL aggregate over the table's columns, e.g. SUM("amount") FILTER (WHERE "status" <> 'paid') */
+  expression: string;
+  description?: string;
+  synonyms: string[];
+}
+
+export interface SemanticLayer {
+  columns: SemanticColumn[];
+  metrics: SemanticMetric[];
+  updatedAt: string;
+}
+
+export interface DatasetVersion {
+  /** Upload id; the version's tables are named `${id}_<sheet>` */
+  id: string;
+  version: number;
+  fileName: string;
+  uploadedAt: string;
+  tables: string[];
+  rowCount: number;
+}
+
+export interface ConversationTurn {
+  question: string;
+  /** SQL that answered the question, after any repairs */
+  sql?: string;
+  /** Shape of the result; the rows themselves never leave the browser through history */
+  result?: { rowCount: number; columns: string[] };
+  /** Start of the assistant's reply */
+  answer?: string;
+  /** Token to real value for the PII in this turn, so it is redacted again whenever the turn is sent back */
+  pseudonyms?: Record<string, string>;
+  at: string;
+}
+
+/**
+ * What may be sent to the model from a column: its values as they are,
+ * stable pseudonyms in their place, or nothing (the column never leaves the
+ * browser)
+ */
+export type ColumnPrivacy = 'allow' | 'pseudonymize' | 'block';
+
+export interface PrivacyPolicy {
+  /** Keyed by lower-case column name; columns without an entry are pseudonymized when they look like PII */
+  columns: Record<string, ColumnPrivacy>;
+  /** Mixed into pseudonyms so the same value gets a different token in another workspace */
+  salt: string;
 }
 
 export interface AppState {
@@ -67,7 +247,13 @@ export interface AppState {
   currentDatasetId: string | null;
   tables: Record<string, TablePreview>;
   chatMessages: ChatMessage[];
+  /** Current chat session; a cleared chat starts a new one */
+  chatSessionId: string;
+  /** Conversation turns keyed by `${datasetId}:${chatSessionId}` */
+  conversations: Record<string, ConversationTurn[]>;
   auditEvents: AuditEvent[];
+  /** Which columns are sent to the model, and how */
+  privacyPolicy: PrivacyPolicy;
   isLoading: boolean;
   error: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface PDFTextItem {
+    str: string;
+    transform: number[];
+    width: number;
+    height: number;
+  }
+
+  interface PDFPageData {
+    pageIndex: number;
+    getTextContent(options?: {
+      normalizeWhitespace?: boolean;
+      disableCombineTextItems?: boolean;
+    }): Promise<{ items: PDFTextItem[] }>;
+  }
+
+  interface PDFParseOptions {
+    pagerender?: (pageData: PDFPageData) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  interface PDFParseResult {
+    numpages: number;
+    numrender: number;
+    info: any;
+    metadata: any;
+    text: string;
+    version: string | null;
+  }
+
+  function PDF(dataBuffer: Buffer | Uint8Array, options?: PDFParseOptions): Promise<PDFParseResult>;
+
+  export = PDF;
+}